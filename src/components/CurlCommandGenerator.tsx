@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Copy } from "lucide-react";
 import { showSuccess, showError } from "@/utils/toast";
+import { appendSchemaExamples } from "@/utils/schemaExamples";
+import { toGeminiResponseSchema } from "@/utils/geminiSchema";
 import { Textarea } from "@/components/ui/textarea";
 
 interface CurlCommandGeneratorProps {
@@ -14,16 +16,16 @@ interface CurlCommandGeneratorProps {
 }
 
 const CurlCommandGenerator: React.FC<CurlCommandGeneratorProps> = ({ jsonSchema, selectedProvider, apiKey, userPrompt, systemPrompt }) => {
-  const jsonString = JSON.stringify(jsonSchema, null, 2);
-
   // Refactored to return request details as an object
   const getRequestDetails = (provider: "openai" | "gemini" | "mistral" | "openrouter", currentApiKey: string, prompt: string, currentSystemPrompt: string) => {
     let requestBody: any = {};
     let endpoint = "";
     let headers: { [key: string]: string } = { "Content-Type": "application/json" };
 
+    // The field examples in the schema show the model what realistic values look like
+    const systemContent = appendSchemaExamples(currentSystemPrompt, jsonSchema);
     const messages = [
-      { role: "system", content: currentSystemPrompt }, // Use the provided systemPrompt
+      { role: "system", content: systemContent }, // Use the provided systemPrompt
       { role: "user", content: prompt },
     ];
 
@@ -44,17 +46,23 @@ const CurlCommandGenerator: React.FC<CurlCommandGeneratorProps> = ({ jsonSchema,
           },
         };
         break;
-      case "gemini":
-        endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${currentApiKey || "YOUR_GEMINI_API_KEY"}`;
+      case "gemini": {
+        // Response schemas need a Gemini model from the 1.5 series on
+        endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${currentApiKey || "YOUR_GEMINI_API_KEY"}`;
+        // Without a response schema, the JSON Schema is given in the prompt instead
+        const responseSchema = toGeminiResponseSchema(jsonSchema).schema;
+        const schemaText = responseSchema ? "" : `\n\nHere is the JSON Schema:\n\n${JSON.stringify(jsonSchema, null, 2)}`;
         requestBody = {
           contents: [
-            { role: "user", parts: [{ text: `${currentSystemPrompt}\n\n${prompt}\n\nHere is the schema:\n\n${jsonString}` }] },
+            { role: "user", parts: [{ text: `${systemContent}\n\n${prompt}${schemaText}` }] },
           ],
           generationConfig: {
             responseMimeType: "application/json",
+            ...(responseSchema ? { responseSchema } : {}),
           },
         };
         break;
+      }
       case "mistral":
         endpoint = "https://api.mistral.ai/v1/chat/completions";
         headers["Authorization"] = `Bearer ${currentApiKey || "YOUR_MISTRAL_API_KEY"}`;
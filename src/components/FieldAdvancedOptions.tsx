@@ -13,21 +13,23 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
-import { ChevronDown, ChevronUp, ListPlus } from "lucide-react"; // Import ListPlus icon
-import { toTitleCase } from "@/lib/utils";
-import { SchemaField, SchemaFieldType } from "./FieldEditor";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { cn, toTitleCase } from "@/lib/utils";
+import { isJsonDefault, parseDefaultValue } from "@/utils/fieldDefaultValue";
+import { OutputProfile, SchemaField, SchemaFieldType, StringFormat } from "./FieldEditor";
+import FieldArrayLevels from "./FieldArrayLevels";
+import FieldArrayContains from "./FieldArrayContains";
+import FieldExamples from "./FieldExamples";
+import FieldExtensions from "./FieldExtensions";
+import FieldDateRange from "./FieldDateRange";
+import FieldFileOptions from "./FieldFileOptions";
 import { Button } from "@/components/ui/button";
-import {
-  DropdownMenu, // Import DropdownMenu components
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
-import { REGEX_URL, REGEX_EMAIL, REGEX_IPV4, REGEX_IPV6 } from "@/lib/regexes"; // Import regex constants
+import { Switch } from "@/components/ui/switch";
 
 interface FieldAdvancedOptionsProps {
   field: SchemaField;
   onFieldChange: (field: SchemaField) => void;
+  outputProfile: OutputProfile;
 }
 
 const CURRENCY_OPTIONS = [
@@ -43,9 +45,22 @@ const CURRENCY_OPTIONS = [
   { value: "BRL", label: "BRL - Brazilian Real" },
 ];
 
+// Sentinel for the format select, since select items cannot have an empty value
+const NO_FORMAT = "none";
+
+const STRING_FORMAT_OPTIONS: { value: StringFormat; label: string }[] = [
+  { value: "email", label: "Email" },
+  { value: "uri", label: "URI" },
+  { value: "uuid", label: "UUID" },
+  { value: "hostname", label: "Hostname" },
+  { value: "ipv4", label: "IPv4 Address" },
+  { value: "ipv6", label: "IPv6 Address" },
+];
+
 const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
   field,
   onFieldChange,
+  outputProfile,
 }) => {
   const [isAdvancedOpen, setIsAdvancedOpen] = React.useState(false);
 
@@ -57,8 +72,21 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
     onFieldChange({ ...field, description: e.target.value });
   };
 
-  const handleExampleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onFieldChange({ ...field, example: e.target.value });
+  const handleDefaultValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFieldChange({ ...field, defaultValue: e.target.value || undefined });
+  };
+
+  // A field is either set by the server or sent by clients, so the two flags exclude each other
+  const handleReadOnlyChange = (checked: boolean) => {
+    onFieldChange({ ...field, readOnly: checked || undefined, writeOnly: checked ? undefined : field.writeOnly });
+  };
+
+  const handleWriteOnlyChange = (checked: boolean) => {
+    onFieldChange({ ...field, writeOnly: checked || undefined, readOnly: checked ? undefined : field.readOnly });
+  };
+
+  const handleDeprecatedChange = (checked: boolean) => {
+    onFieldChange({ ...field, deprecated: checked || undefined });
   };
 
   const handleMinValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -71,6 +99,21 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
     onFieldChange({ ...field, maxValue: value });
   };
 
+  const handleExclusiveMinValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+    onFieldChange({ ...field, exclusiveMinValue: value });
+  };
+
+  const handleExclusiveMaxValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+    onFieldChange({ ...field, exclusiveMaxValue: value });
+  };
+
+  const handleMultipleOfChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+    onFieldChange({ ...field, multipleOf: value });
+  };
+
   const handleMinItemsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value === "" ? undefined : parseInt(e.target.value, 10);
     onFieldChange({ ...field, minItems: value });
@@ -99,13 +142,12 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
     onFieldChange({ ...field, maxLength: value });
   };
 
-  const handleSelectPredefinedPattern = (pattern: RegExp, name: string) => {
-    onFieldChange({ ...field, pattern: pattern.source });
-    // Optionally show a toast message
-    // showSuccess(`Pattern for ${name} applied!`);
+  const handleFormatChange = (value: string) => {
+    onFieldChange({ ...field, format: value === NO_FORMAT ? undefined : (value as StringFormat) });
   };
 
   const isNumberLikeType = field.type === "int" || field.type === "float" || field.type === "currency";
+  const defaultValueError = parseDefaultValue(field, outputProfile).error;
 
   return (
     <Collapsible
@@ -143,15 +185,58 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
               placeholder="e.g., Name of the product"
             />
           </div>
+          <FieldExamples field={field} onFieldChange={onFieldChange} outputProfile={outputProfile} />
           <div className="grid gap-2 col-span-full">
-            <Label htmlFor={`field-example-${field.id}`}>Example Value (Optional)</Label>
+            <Label htmlFor={`field-default-${field.id}`}>Default Value (Optional)</Label>
             <Input
-              id={`field-example-${field.id}`}
-              value={field.example || ""}
-              onChange={handleExampleChange}
-              placeholder="e.g., 'Laptop', 123, '2023-10-26'"
+              id={`field-default-${field.id}`}
+              value={field.defaultValue || ""}
+              onChange={handleDefaultValueChange}
+              placeholder={isJsonDefault(field) ? "JSON, e.g., [] or {\"key\": \"value\"}" : "e.g., 'Unknown', 0, true"}
+              className={cn(defaultValueError && "border-red-500 focus-visible:ring-red-500")}
             />
+            {defaultValueError ? (
+              <p className="text-red-500 text-xs">{defaultValueError} It will be left out of the schema.</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Used when the value is missing. {isJsonDefault(field) ? "Enter it as JSON." : "Enter it as a plain value of this field's type."}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-6 col-span-full">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`field-read-only-${field.id}`}
+                checked={!!field.readOnly}
+                onCheckedChange={handleReadOnlyChange}
+              />
+              <Label htmlFor={`field-read-only-${field.id}`}>Read Only</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`field-write-only-${field.id}`}
+                checked={!!field.writeOnly}
+                onCheckedChange={handleWriteOnlyChange}
+              />
+              <Label htmlFor={`field-write-only-${field.id}`}>Write Only</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`field-deprecated-${field.id}`}
+                checked={!!field.deprecated}
+                onCheckedChange={handleDeprecatedChange}
+              />
+              <Label htmlFor={`field-deprecated-${field.id}`}>Deprecated</Label>
+            </div>
+            <p className="text-sm text-muted-foreground w-full">
+              Read-only fields are left out of request bodies and write-only fields out of responses.
+            </p>
           </div>
+          <FieldExtensions
+            extensions={field.extensions || []}
+            onExtensionsChange={(extensions) => onFieldChange({ ...field, extensions })}
+            idPrefix={`field-${field.id}`}
+          />
 
           {isNumberLikeType && (
             <>
@@ -175,9 +260,46 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
                   placeholder="e.g., 100"
                 />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor={`field-exclusive-min-value-${field.id}`}>Greater Than (Optional)</Label>
+                <Input
+                  id={`field-exclusive-min-value-${field.id}`}
+                  type="number"
+                  value={field.exclusiveMinValue === undefined ? "" : field.exclusiveMinValue}
+                  onChange={handleExclusiveMinValueChange}
+                  placeholder="e.g., 0 (excluded)"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor={`field-exclusive-max-value-${field.id}`}>Less Than (Optional)</Label>
+                <Input
+                  id={`field-exclusive-max-value-${field.id}`}
+                  type="number"
+                  value={field.exclusiveMaxValue === undefined ? "" : field.exclusiveMaxValue}
+                  onChange={handleExclusiveMaxValueChange}
+                  placeholder="e.g., 100 (excluded)"
+                />
+              </div>
+              <div className="grid gap-2 col-span-full">
+                <Label htmlFor={`field-multiple-of-${field.id}`}>Multiple Of (Optional)</Label>
+                <Input
+                  id={`field-multiple-of-${field.id}`}
+                  type="number"
+                  value={field.multipleOf === undefined ? "" : field.multipleOf}
+                  onChange={handleMultipleOfChange}
+                  placeholder="e.g., 0.01"
+                  min="0"
+                />
+                <p className="text-sm text-muted-foreground">
+                  The value must be a whole multiple of this step, e.g. 0.01 for amounts in cents.
+                </p>
+              </div>
             </>
           )}
 
+          <FieldDateRange field={field} onFieldChange={onFieldChange} />
+          {field.type === "file" && <FieldFileOptions field={field} onFieldChange={onFieldChange} />}
+
           {field.isMultiple && (
             <>
               <div className="grid gap-2">
@@ -202,6 +324,11 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
                   min="0"
                 />
               </div>
+              <FieldArrayLevels field={field} onFieldChange={onFieldChange} />
+              {/* Contains tests whole items, so it is only offered for simple and object items that are not lists themselves */}
+              {!field.innerArrays?.length && !["union", "map", "tuple"].includes(field.type) && (
+                <FieldArrayContains field={field} onFieldChange={onFieldChange} />
+              )}
             </>
           )}
 
@@ -228,37 +355,36 @@ const FieldAdvancedOptions: React.FC<FieldAdvancedOptionsProps> = React.memo(({
 
           {field.type === "string" && (
             <>
+              <div className="grid gap-2 col-span-full">
+                <Label htmlFor={`field-format-${field.id}`}>Format (Optional)</Label>
+                <Select
+                  value={field.format || NO_FORMAT}
+                  onValueChange={handleFormatChange}
+                >
+                  <SelectTrigger id={`field-format-${field.id}`}>
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FORMAT}>None</SelectItem>
+                    {STRING_FORMAT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Standard format keyword, validated by JSON Schema tools and mapped to typed values in generated code.
+                </p>
+              </div>
               <div className="grid gap-2 col-span-full">
                 <Label htmlFor={`field-pattern-${field.id}`}>Pattern (Regex, Optional)</Label>
-                <div className="flex gap-2">
-                  <Input
-                    id={`field-pattern-${field.id}`}
-                    value={field.pattern || ""}
-                    onChange={handlePatternChange}
-                    placeholder="e.g., ^[A-Z]{2}\\d{4}$"
-                  />
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="outline" size="icon" aria-label="Select predefined pattern">
-                        <ListPlus className="h-4 w-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onSelect={() => handleSelectPredefinedPattern(REGEX_URL, "URL")}>
-                        URL
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onSelect={() => handleSelectPredefinedPattern(REGEX_EMAIL, "Email")}>
-                        Email
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onSelect={() => handleSelectPredefinedPattern(REGEX_IPV4, "IPv4")}>
-                        IPv4
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onSelect={() => handleSelectPredefinedPattern(REGEX_IPV6, "IPv6")}>
-                        IPv6
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
+                <Input
+                  id={`field-pattern-${field.id}`}
+                  value={field.pattern || ""}
+                  onChange={handlePatternChange}
+                  placeholder="e.g., ^[A-Z]{2}\\d{4}$"
+                />
                 <p className="text-sm text-muted-foreground">
                   Regular expression to validate string format.
                 </p>
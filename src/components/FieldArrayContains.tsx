@@ -0,0 +1,151 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { ContainsCondition, RuleConditionOperator, SchemaField } from "./FieldEditor";
+
+interface FieldArrayContainsProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+}
+
+const OPERATOR_OPTIONS: { value: RuleConditionOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "oneOf", label: "is one of" },
+  { value: "present", label: "is present" },
+];
+
+// Sentinel for the property select: the condition tests the whole item rather than one of its properties
+const WHOLE_ITEM = "__item__";
+
+// Editor for the `contains` condition of a multiple field: "at least <min> and at most <max> items where <condition>"
+const FieldArrayContains: React.FC<FieldArrayContainsProps> = ({ field, onFieldChange }) => {
+  const condition = field.contains;
+  const propertyNames = field.type === "object" ? (field.children || []).map((f) => f.name).filter((name) => name !== "") : [];
+
+  const updateCondition = (changes: Partial<ContainsCondition>) => {
+    if (!condition) return;
+    onFieldChange({ ...field, contains: { ...condition, ...changes } });
+  };
+
+  const addCondition = () => {
+    onFieldChange({ ...field, contains: { fieldName: propertyNames[0], operator: "equals", values: [""] } });
+  };
+
+  const parseCount = (value: string): number | undefined => (value === "" ? undefined : parseInt(value, 10));
+
+  if (!condition) {
+    return (
+      <div className="grid gap-2 col-span-full">
+        <Label>Contains</Label>
+        <p className="text-sm text-muted-foreground">
+          Require some items to match a condition, e.g. at least one address marked as primary.
+        </p>
+        <Button variant="outline" size="sm" className="w-fit" onClick={addCondition}>
+          <PlusCircle className="h-4 w-4 mr-2" /> Add Contains Condition
+        </Button>
+      </div>
+    );
+  }
+
+  const isUnknownProperty = !!condition.fieldName && !propertyNames.includes(condition.fieldName);
+
+  return (
+    <div className="grid gap-2 col-span-full">
+      <Label>Contains</Label>
+      <div className="space-y-2 rounded-md border border-dashed p-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-sm">Items where</Label>
+          {(propertyNames.length > 0 || condition.fieldName) && (
+            <Select
+              value={condition.fieldName || WHOLE_ITEM}
+              onValueChange={(value) => updateCondition({ fieldName: value === WHOLE_ITEM ? undefined : value })}
+            >
+              <SelectTrigger id={`field-contains-field-${field.id}`} className="w-[180px]">
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_ITEM}>the item</SelectItem>
+                {propertyNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+                {isUnknownProperty && (
+                  <SelectItem value={condition.fieldName!}>{condition.fieldName} (unknown)</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={condition.operator}
+            onValueChange={(value: RuleConditionOperator) =>
+              updateCondition({ operator: value, values: value === "present" ? undefined : condition.values || [""] })
+            }
+          >
+            <SelectTrigger id={`field-contains-operator-${field.id}`} className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPERATOR_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {condition.operator !== "present" && (
+            <Input
+              id={`field-contains-values-${field.id}`}
+              className="flex-1 min-w-[160px]"
+              value={condition.operator === "oneOf" ? (condition.values || []).join(",") : (condition.values || [""])[0]}
+              onChange={(e) =>
+                updateCondition({ values: condition.operator === "oneOf" ? e.target.value.split(",") : [e.target.value] })
+              }
+              placeholder={condition.operator === "oneOf" ? "e.g., home,work" : "e.g., true"}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onFieldChange({ ...field, contains: undefined })}
+            className="text-red-500 hover:text-red-600"
+            aria-label="Remove contains condition"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="grid gap-1 flex-1 min-w-[100px]">
+            <Label htmlFor={`field-min-contains-${field.id}`} className="text-xs">Min Matching Items</Label>
+            <Input
+              id={`field-min-contains-${field.id}`}
+              type="number"
+              value={condition.minContains === undefined ? "" : condition.minContains}
+              onChange={(e) => updateCondition({ minContains: parseCount(e.target.value) })}
+              placeholder="1"
+              min="0"
+            />
+          </div>
+          <div className="grid gap-1 flex-1 min-w-[100px]">
+            <Label htmlFor={`field-max-contains-${field.id}`} className="text-xs">Max Matching Items</Label>
+            <Input
+              id={`field-max-contains-${field.id}`}
+              type="number"
+              value={condition.maxContains === undefined ? "" : condition.maxContains}
+              onChange={(e) => updateCondition({ maxContains: parseCount(e.target.value) })}
+              placeholder="e.g., 1"
+              min="0"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FieldArrayContains;
@@ -0,0 +1,96 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { ArrayLevel, SchemaField } from "./FieldEditor";
+
+interface FieldArrayLevelsProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+}
+
+// Editor for the uniqueness of a multiple field's items and for the arrays nested inside it (lists of lists)
+const FieldArrayLevels: React.FC<FieldArrayLevelsProps> = ({ field, onFieldChange }) => {
+  const innerArrays = field.innerArrays || [];
+
+  const updateInnerArrays = (levels: ArrayLevel[]) => {
+    onFieldChange({ ...field, innerArrays: levels.length > 0 ? levels : undefined });
+  };
+
+  const updateLevel = (index: number, changes: Partial<ArrayLevel>) => {
+    updateInnerArrays(innerArrays.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+  };
+
+  const parseCount = (value: string): number | undefined => (value === "" ? undefined : parseInt(value, 10));
+
+  return (
+    <div className="grid gap-4 col-span-full">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`field-unique-items-${field.id}`}
+          checked={!!field.uniqueItems}
+          onCheckedChange={(checked) => onFieldChange({ ...field, uniqueItems: checked || undefined })}
+        />
+        <Label htmlFor={`field-unique-items-${field.id}`}>Unique Items</Label>
+      </div>
+
+      <div className="grid gap-2">
+        <Label>Nested Arrays</Label>
+        <p className="text-sm text-muted-foreground">
+          Each nested level makes every item a list itself, e.g. one level turns a list of numbers into a matrix.
+        </p>
+        {innerArrays.map((level, index) => (
+          <div key={index} className="flex flex-wrap items-end gap-2 rounded-md border border-dashed p-3">
+            <span className="text-sm font-medium w-full">Level {index + 2}: lists inside level {index + 1}</span>
+            <div className="grid gap-1 flex-1 min-w-[100px]">
+              <Label htmlFor={`field-level-min-items-${field.id}-${index}`} className="text-xs">Min Items</Label>
+              <Input
+                id={`field-level-min-items-${field.id}-${index}`}
+                type="number"
+                value={level.minItems === undefined ? "" : level.minItems}
+                onChange={(e) => updateLevel(index, { minItems: parseCount(e.target.value) })}
+                placeholder="e.g., 1"
+                min="0"
+              />
+            </div>
+            <div className="grid gap-1 flex-1 min-w-[100px]">
+              <Label htmlFor={`field-level-max-items-${field.id}-${index}`} className="text-xs">Max Items</Label>
+              <Input
+                id={`field-level-max-items-${field.id}-${index}`}
+                type="number"
+                value={level.maxItems === undefined ? "" : level.maxItems}
+                onChange={(e) => updateLevel(index, { maxItems: parseCount(e.target.value) })}
+                placeholder="e.g., 10"
+                min="0"
+              />
+            </div>
+            <div className="flex items-center space-x-2 h-10">
+              <Switch
+                id={`field-level-unique-items-${field.id}-${index}`}
+                checked={!!level.uniqueItems}
+                onCheckedChange={(checked) => updateLevel(index, { uniqueItems: checked || undefined })}
+              />
+              <Label htmlFor={`field-level-unique-items-${field.id}-${index}`} className="text-xs">Unique</Label>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => updateInnerArrays(innerArrays.filter((_, i) => i !== index))}
+              className="text-red-500 hover:text-red-600"
+              aria-label={`Remove nested level ${index + 2}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="w-fit" onClick={() => updateInnerArrays([...innerArrays, {}])}>
+          <PlusCircle className="h-4 w-4 mr-2" /> Add Nested Level
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FieldArrayLevels;
@@ -0,0 +1,177 @@
+import React from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { ConditionalRule, RuleConditionOperator, SchemaField } from "./FieldEditor";
+
+interface FieldConditionalRulesProps {
+  rules: ConditionalRule[];
+  fields: SchemaField[]; // Properties of the object the rules belong to
+  onRulesChange: (rules: ConditionalRule[] | undefined) => void;
+  idPrefix: string;
+}
+
+const OPERATOR_OPTIONS: { value: RuleConditionOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "oneOf", label: "is one of" },
+  { value: "present", label: "is present" },
+];
+
+interface RequiredFieldsPickerProps {
+  label: string;
+  fieldNames: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Toggleable badges for picking the properties a rule or dependency requires
+export const RequiredFieldsPicker: React.FC<RequiredFieldsPickerProps> = ({ label, fieldNames, selected, onChange }) => {
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((n) => n !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      {fieldNames.length > 0 ? (
+        fieldNames.map((name) => (
+          <Badge
+            key={name}
+            variant={selected.includes(name) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggle(name)}
+          >
+            {name}
+          </Badge>
+        ))
+      ) : (
+        <span className="text-xs text-muted-foreground italic">No other properties.</span>
+      )}
+      {selected.filter((name) => !fieldNames.includes(name)).map((name) => (
+        <Badge key={name} variant="destructive" className="cursor-pointer" onClick={() => toggle(name)}>
+          {name} (unknown)
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+// Editor for the if/then/else rules of an object: "if <property> <condition> then require <properties>"
+const FieldConditionalRules: React.FC<FieldConditionalRulesProps> = ({ rules, fields, onRulesChange, idPrefix }) => {
+  const fieldNames = fields.map((f) => f.name).filter((name) => name !== "");
+
+  const updateRule = (updatedRule: ConditionalRule) => {
+    onRulesChange(rules.map((rule) => (rule.id === updatedRule.id ? updatedRule : rule)));
+  };
+
+  const addRule = () => {
+    onRulesChange([
+      ...rules,
+      { id: uuidv4(), fieldName: fieldNames[0] || "", operator: "equals", values: [""], thenRequired: [] },
+    ]);
+  };
+
+  const removeRule = (ruleId: string) => {
+    const remainingRules = rules.filter((rule) => rule.id !== ruleId);
+    onRulesChange(remainingRules.length > 0 ? remainingRules : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold">Conditional Rules</h4>
+        <p className="text-xs text-muted-foreground">
+          Require properties only when another property has a given value. Emitted as if/then/else.
+        </p>
+      </div>
+      {rules.map((rule) => {
+        const otherFieldNames = fieldNames.filter((name) => name !== rule.fieldName);
+        const isUnknownField = rule.fieldName !== "" && !fieldNames.includes(rule.fieldName);
+        return (
+          <div key={rule.id} className="space-y-2 rounded-md border border-dashed p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Label className="text-sm">If</Label>
+              <Select
+                value={rule.fieldName}
+                onValueChange={(value) => updateRule({ ...rule, fieldName: value })}
+              >
+                <SelectTrigger id={`${idPrefix}-rule-field-${rule.id}`} className="w-[180px]">
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldNames.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                  {isUnknownField && (
+                    <SelectItem value={rule.fieldName}>{rule.fieldName} (unknown)</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.operator}
+                onValueChange={(value: RuleConditionOperator) =>
+                  updateRule({ ...rule, operator: value, values: value === "present" ? undefined : rule.values || [""] })
+                }
+              >
+                <SelectTrigger id={`${idPrefix}-rule-operator-${rule.id}`} className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATOR_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rule.operator !== "present" && (
+                <Input
+                  id={`${idPrefix}-rule-values-${rule.id}`}
+                  className="flex-1 min-w-[160px]"
+                  value={rule.operator === "oneOf" ? (rule.values || []).join(",") : (rule.values || [""])[0]}
+                  onChange={(e) =>
+                    updateRule({ ...rule, values: rule.operator === "oneOf" ? e.target.value.split(",") : [e.target.value] })
+                  }
+                  placeholder={rule.operator === "oneOf" ? "e.g., card,paypal" : "e.g., card"}
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeRule(rule.id)}
+                className="text-red-500 hover:text-red-600"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <RequiredFieldsPicker
+              label="then require:"
+              fieldNames={otherFieldNames}
+              selected={rule.thenRequired}
+              onChange={(selected) => updateRule({ ...rule, thenRequired: selected })}
+            />
+            <RequiredFieldsPicker
+              label="otherwise require:"
+              fieldNames={otherFieldNames}
+              selected={rule.elseRequired || []}
+              onChange={(selected) => updateRule({ ...rule, elseRequired: selected.length > 0 ? selected : undefined })}
+            />
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={addRule} disabled={fieldNames.length < 2}>
+        <PlusCircle className="h-4 w-4 mr-2" /> Add Rule
+      </Button>
+    </div>
+  );
+};
+
+export default FieldConditionalRules;
@@ -0,0 +1,79 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { checkDateBounds, isDateTimeType, resolveDateBound } from "@/utils/dateBounds";
+import { SchemaField } from "./FieldEditor";
+
+interface FieldDateRangeProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+}
+
+const BOUND_PLACEHOLDERS = {
+  date: { earliest: "e.g., 2020-01-01 or today-30d", latest: "e.g., today" },
+  datetime: { earliest: "e.g., 2020-01-01T00:00:00Z or now-2h", latest: "e.g., now+1w" },
+  time: { earliest: "e.g., 09:00:00", latest: "e.g., 17:30:00" },
+};
+
+// Editor for the earliest and latest values of a date, datetime or time field, and the timezone requirement of datetimes
+const FieldDateRange: React.FC<FieldDateRangeProps> = ({ field, onFieldChange }) => {
+  if (!isDateTimeType(field.type)) return null;
+  const type = field.type;
+  const rangeError = checkDateBounds(field);
+
+  const renderBound = (key: "earliest" | "latest", label: string) => {
+    const bound = field[key];
+    const resolved = bound ? resolveDateBound(type, bound) : {};
+    return (
+      <div className="grid gap-2">
+        <Label htmlFor={`field-${key}-${field.id}`}>{label} (Optional)</Label>
+        <Input
+          id={`field-${key}-${field.id}`}
+          value={bound || ""}
+          onChange={(e) => onFieldChange({ ...field, [key]: e.target.value || undefined })}
+          placeholder={BOUND_PLACEHOLDERS[type][key]}
+          className={cn((resolved.error || rangeError) && "border-red-500 focus-visible:ring-red-500")}
+        />
+        {resolved.error ? (
+          <p className="text-red-500 text-xs">{resolved.error} It will be left out of the schema.</p>
+        ) : resolved.relative ? (
+          <p className="text-xs text-muted-foreground">Currently {resolved.value} (UTC).</p>
+        ) : null}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {renderBound("earliest", "Earliest")}
+      {renderBound("latest", "Latest")}
+      <div className="grid gap-2 col-span-full">
+        {rangeError && <p className="text-red-500 text-xs">{rangeError}</p>}
+        <p className="text-sm text-muted-foreground">
+          {type === "time"
+            ? "Both bounds are included."
+            : "Both bounds are included. Relative bounds such as today, today-7d or now+2h are resolved in UTC when the schema is built and checked again in generated code."}
+        </p>
+      </div>
+      {type === "datetime" && (
+        <div className="grid gap-2 col-span-full">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`field-require-timezone-${field.id}`}
+              checked={!!field.requireTimezone}
+              onCheckedChange={(checked) => onFieldChange({ ...field, requireTimezone: checked || undefined })}
+            />
+            <Label htmlFor={`field-require-timezone-${field.id}`}>Require Timezone</Label>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Values must end with Z or an offset such as +02:00. Values without one are read as UTC.
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FieldDateRange;
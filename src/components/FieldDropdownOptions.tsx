@@ -8,7 +8,14 @@ import {
 } from "@/components/ui/collapsible";
 import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
 import { PlusCircle, Trash2, ChevronDown, ChevronUp, ListPlus, XCircle } from "lucide-react";
-import { SchemaField } from "./FieldEditor";
+import { DropdownOptionLabel, DropdownOptionType, SchemaField } from "./FieldEditor";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -28,8 +35,16 @@ import {
 } from "@/components/ui/alert-dialog";
 import { showSuccess, showError } from "@/utils/toast"; // Ensure showError is imported if used
 import { COUNTRIES_EN, PRIORITY_OPTIONS, CURRENCY_CODES, DAYS_OF_WEEK, MONTHS_OF_YEAR } from "@/utils/predefinedOptions";
+import { parseOptionValue } from "@/utils/dropdownOptions";
+import { cn } from "@/lib/utils";
 // Removed ScrollArea import
 
+const OPTION_TYPE_OPTIONS: { value: DropdownOptionType; label: string }[] = [
+  { value: "string", label: "Text" },
+  { value: "integer", label: "Integer" },
+  { value: "number", label: "Number" },
+];
+
 interface FieldDropdownOptionsProps {
   field: SchemaField;
   onFieldChange: (field: SchemaField) => void;
@@ -51,27 +66,48 @@ const FieldDropdownOptions: React.FC<FieldDropdownOptionsProps> = React.memo(({
     }
   };
 
+  // Labels are keyed by option value, so they follow renames and go away with their option
+  const withOptionLabel = (option: string, details: DropdownOptionLabel | undefined) => {
+    const { [option]: _previous, ...otherLabels } = field.optionLabels || {};
+    const hasDetails = details && (details.label || details.description);
+    const optionLabels = hasDetails ? { ...otherLabels, [option]: details } : otherLabels;
+    return Object.keys(optionLabels).length > 0 ? optionLabels : undefined;
+  };
+
   const handleRemoveOption = (optionToRemove: string) => {
     const updatedOptions = (field.options || []).filter(
       (option) => option !== optionToRemove
     );
-    onFieldChange({ ...field, options: updatedOptions });
+    onFieldChange({ ...field, options: updatedOptions, optionLabels: withOptionLabel(optionToRemove, undefined) });
   };
 
   const handleEditOption = (oldOption: string, newText: string) => {
+    const newOption = newText.trim();
     const updatedOptions = (field.options || []).map((option) =>
-      option === oldOption ? newText.trim() : option
+      option === oldOption ? newOption : option
     );
-    onFieldChange({ ...field, options: updatedOptions });
+    const details = field.optionLabels?.[oldOption];
+    const { [oldOption]: _renamed, ...otherLabels } = field.optionLabels || {};
+    const optionLabels = details ? { ...otherLabels, [newOption]: details } : field.optionLabels;
+    onFieldChange({ ...field, options: updatedOptions, optionLabels });
+  };
+
+  const handleEditOptionLabel = (option: string, changes: DropdownOptionLabel) => {
+    const details = { ...field.optionLabels?.[option], ...changes };
+    onFieldChange({ ...field, optionLabels: withOptionLabel(option, details) });
+  };
+
+  const handleOptionTypeChange = (value: DropdownOptionType) => {
+    onFieldChange({ ...field, optionType: value === "string" ? undefined : value });
   };
 
   const handlePopulateOptions = (options: string[], collectionName: string) => {
-    onFieldChange({ ...field, options: options });
+    onFieldChange({ ...field, options: options, optionType: undefined, optionLabels: undefined });
     showSuccess(`Dropdown options populated with ${collectionName}!`);
   };
 
   const handleClearAllOptions = () => {
-    onFieldChange({ ...field, options: [] });
+    onFieldChange({ ...field, options: [], optionLabels: undefined });
     showSuccess("All dropdown options cleared!");
     setIsClearConfirmOpen(false);
   };
@@ -93,6 +129,22 @@ const FieldDropdownOptions: React.FC<FieldDropdownOptionsProps> = React.memo(({
         </Button>
       </CollapsibleTrigger>
       <CustomCollapsibleContent className="space-y-4">
+        <div className="grid gap-2 col-span-full px-6">
+          <Label htmlFor={`field-option-type-${field.id}`}>Value Type</Label>
+          <Select value={field.optionType || "string"} onValueChange={handleOptionTypeChange}>
+            <SelectTrigger id={`field-option-type-${field.id}`} className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPTION_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Numeric values are emitted as numbers, e.g. status codes 1, 2 and 3. Labels and descriptions are shown instead of the values.
+          </p>
+        </div>
         <div className="grid gap-2 col-span-full px-6">
           <Label htmlFor={`field-options-${field.id}`}>Dropdown Options</Label>
           <div className="flex gap-2">
@@ -161,11 +213,27 @@ const FieldDropdownOptions: React.FC<FieldDropdownOptionsProps> = React.memo(({
             <div className="rounded-md border p-2 mt-2"> {/* Changed from ScrollArea to div */}
               <div className="space-y-2">
                 {field.options.map((option, index) => (
-                  <div key={index} className="flex items-center gap-2">
+                  <div key={index} className="flex flex-wrap items-center gap-2">
                     <Input
                       value={option}
                       onChange={(e) => handleEditOption(option, e.target.value)}
-                      className="flex-1"
+                      className={cn(
+                        "flex-1 min-w-[100px]",
+                        parseOptionValue(option, field.optionType) === undefined && "border-red-500 focus-visible:ring-red-500"
+                      )}
+                      aria-label="Option value"
+                    />
+                    <Input
+                      value={field.optionLabels?.[option]?.label || ""}
+                      onChange={(e) => handleEditOptionLabel(option, { label: e.target.value || undefined })}
+                      placeholder="Label (optional)"
+                      className="flex-1 min-w-[100px]"
+                    />
+                    <Input
+                      value={field.optionLabels?.[option]?.description || ""}
+                      onChange={(e) => handleEditOptionLabel(option, { description: e.target.value || undefined })}
+                      placeholder="Description (optional)"
+                      className="flex-[2] min-w-[140px]"
                     />
                     <Button
                       variant="destructive"
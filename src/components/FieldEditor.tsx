@@ -1,4 +1,5 @@
 import React from "react";
+import { v4 as uuidv4 } from "uuid";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -10,6 +11,7 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { PlusCircle, Trash2, ChevronDown, ChevronUp, Settings, Link, List, GripVertical, Sparkles } from "lucide-react";
 import { cn, toTitleCase } from "@/lib/utils";
 import {
@@ -45,6 +47,12 @@ import {
 import FieldAdvancedOptions from "./FieldAdvancedOptions";
 import FieldDropdownOptions from "./FieldDropdownOptions";
 import FieldObjectProperties from "./FieldObjectProperties";
+import FieldUnionVariants from "./FieldUnionVariants";
+import FieldMapValue from "./FieldMapValue";
+import FieldTupleItems from "./FieldTupleItems";
+import FieldExtensions from "./FieldExtensions";
+import { getInheritedFields } from "@/utils/schemaFieldTree";
+import { isDateTimeType } from "@/utils/dateBounds";
 
 export type SchemaFieldType =
   | "string"
@@ -57,30 +65,157 @@ export type SchemaFieldType =
   | "object"
   | "ref"
   | "dropdown"
-  | "boolean";
+  | "boolean"
+  | "union"
+  | "map"
+  | "tuple"
+  | "file";
 
-export interface SchemaField {
+export type UnionMode = "anyOf" | "oneOf";
+
+// JSON type of a dropdown's option values
+export type DropdownOptionType = "string" | "integer" | "number";
+
+// Display details of one dropdown option
+export interface DropdownOptionLabel {
+  label?: string; // Shown instead of the value, e.g. "United States" for "US"
+  description?: string;
+}
+
+// Semantic formats of a string field, emitted as the standard `format` keyword
+export type StringFormat = "email" | "uri" | "uuid" | "hostname" | "ipv4" | "ipv6";
+
+// Constraints of one array level of a multiple field
+export interface ArrayLevel {
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
+export type RuleConditionOperator = "equals" | "oneOf" | "present";
+
+// An if/then/else rule between the properties of one object, referenced by name
+export interface ConditionalRule {
+  id: string;
+  fieldName: string; // Property the condition tests
+  operator: RuleConditionOperator;
+  values?: string[]; // Compared values: the first one for "equals", all of them for "oneOf"
+  thenRequired: string[]; // Properties that must have a value when the condition holds
+  elseRequired?: string[]; // Properties that must have a value otherwise
+}
+
+// A test of one property's value, as in conditional rules
+export interface PropertyCondition {
+  fieldName: string;
+  operator: RuleConditionOperator;
+  values?: string[];
+}
+
+// A dependency between the properties of one object, referenced by name: while the trigger property
+// has a value, other properties must have one too and, for a schema dependency, meet value conditions
+export interface PropertyDependency {
+  id: string;
+  fieldName: string; // Trigger property
+  requiredFields: string[]; // Properties that must then have a value
+  conditions?: PropertyCondition[]; // Values other properties must then have; set for a schema dependency
+}
+
+// Condition that items of a multiple field must meet, emitted as `contains` with optional match counts
+export interface ContainsCondition {
+  fieldName?: string; // Property of object items the condition tests; unset to test the items themselves
+  operator: RuleConditionOperator;
+  values?: string[]; // Compared values, as in conditional rules
+  minContains?: number; // At least this many items must match (1 when unset)
+  maxContains?: number; // At most this many items may match
+}
+
+// How an object treats properties it does not declare
+export type AdditionalPropertiesMode = "closed" | "open" | "typed";
+
+// How optional properties are written: "llm-strict" lists every property as required and makes optional ones
+// nullable, as LLM structured outputs require; "standard" leaves optional properties out of `required`
+export type OutputProfile = "llm-strict" | "standard";
+
+// JSON Schema draft the schema is written for. Drafts differ in keyword names (`definitions`/`$defs`,
+// `dependencies`/`dependentRequired`) and in the tuple syntax (`items: [...]`/`prefixItems`)
+export type SchemaDraft = "draft-07" | "2019-09" | "2020-12";
+
+// A vendor extension keyword such as x-pii, read by other tools
+export interface ExtensionKeyword {
+  name: string; // Starts with "x-"
+  value: string; // JSON as typed in the editor
+}
+
+// Undeclared-property handling and property counts, shared by object fields and the root object
+export interface ObjectPropertyOptions {
+  additionalPropertiesMode?: AdditionalPropertiesMode; // Closed when unset: undeclared properties are rejected
+  additionalPropertiesType?: SchemaField; // Typed mode only: type every undeclared property must have
+  minProperties?: number;
+  maxProperties?: number;
+}
+
+export interface SchemaField extends ObjectPropertyOptions {
   id: string;
   name: string;
   type: SchemaFieldType;
   isMultiple: boolean;
-  isRequired: boolean;
+  isRequired: boolean; // Must be present; optional fields may be omitted
+  isNullable?: boolean; // Accepts null as a value, whether required or not
   title?: string;
   description?: string;
-  example?: string;
+  examples?: string[]; // Example values as typed in the editor, parsed like the default value
+  defaultValue?: string; // Default as typed in the editor, parsed according to the field type
+  readOnly?: boolean; // Set by the server only, e.g. an ID: left out of request bodies
+  writeOnly?: boolean; // Sent by clients only, e.g. a password: left out of responses
+  deprecated?: boolean; // Still accepted but retired, kept for existing clients
   children?: SchemaField[];
   refId?: string;
   minValue?: number;
   maxValue?: number;
+  exclusiveMinValue?: number; // Numbers only: the value must be strictly greater
+  exclusiveMaxValue?: number; // Numbers only: the value must be strictly less
+  multipleOf?: number; // Numbers only: the value must be a multiple of this step (e.g., 0.01)
   minItems?: number;
   maxItems?: number;
+  uniqueItems?: boolean; // Multiple only: items of the outermost array must be distinct
+  innerArrays?: ArrayLevel[]; // Multiple only: array levels nested inside the outermost one, outermost first (one level makes number[][])
+  contains?: ContainsCondition; // Multiple only: condition some items of the outermost array must meet
   currency?: string;
-  options?: string[];
+  options?: string[]; // Dropdown only: option values as typed, converted according to optionType
+  optionType?: DropdownOptionType; // Dropdown only: JSON type of the option values (string when unset)
+  optionLabels?: Record<string, DropdownOptionLabel>; // Dropdown only: display details keyed by option value
   parentId?: string;
   isValidName?: boolean;
   pattern?: string;
+  format?: StringFormat; // String only: semantic format such as email or uuid
   minLength?: number; // New: Minimum length for string
   maxLength?: number; // New: Maximum length for string
+  variants?: SchemaField[]; // Union variants, each an inline type or a reference
+  unionMode?: UnionMode; // Emitted as anyOf (default) or oneOf
+  discriminator?: string; // Union only: property whose constant value tags each variant
+  discriminatorValue?: string; // Variant only: tag value, defaults to the variant name
+  extendsIds?: string[]; // Reusable object types only: IDs of the reusable types this one inherits from
+  rules?: ConditionalRule[]; // Object only: conditional rules between its properties
+  dependencies?: PropertyDependency[]; // Object only: properties required by the presence of others
+  mapValue?: SchemaField; // Map only: type of the values, keyed by arbitrary property names
+  keyPattern?: string; // Map only: regex every key must match
+  tupleItems?: SchemaField[]; // Tuple only: the type of each position, in order
+  additionalItems?: boolean; // Tuple only: whether items beyond the listed positions are allowed
+  earliest?: string; // Date, datetime and time only: lowest allowed value, absolute or relative to now (e.g., "today-7d")
+  latest?: string; // Date, datetime and time only: highest allowed value, written like `earliest`
+  requireTimezone?: boolean; // Datetime only: values must end with Z or an offset
+  mediaTypes?: string[]; // File only: accepted media types, e.g. "application/pdf" or "image/*"
+  maxFileSize?: number; // File only: largest file in bytes, before base64 encoding
+  extensions?: ExtensionKeyword[]; // Vendor keywords (x-*) emitted as they are
+}
+
+// Settings of the root schema object, which has no SchemaField of its own
+export interface SchemaSettings extends ObjectPropertyOptions {
+  rules?: ConditionalRule[];
+  dependencies?: PropertyDependency[];
+  outputProfile?: OutputProfile; // Defaults to "llm-strict"
+  draft?: SchemaDraft; // Defaults to "draft-07"
+  extensions?: ExtensionKeyword[];
 }
 
 interface FieldEditorProps {
@@ -92,6 +227,7 @@ interface FieldEditorProps {
   isRoot?: boolean;
   level?: number;
   reusableTypes?: SchemaField[];
+  outputProfile?: OutputProfile; // Profile of the built schema, deciding where null and missing properties are accepted
   hideRefTypeOption?: boolean;
   dragHandleAttributes?: React.HTMLAttributes<HTMLButtonElement>;
   dragHandleListeners?: React.HTMLAttributes<HTMLButtonElement>;
@@ -100,6 +236,7 @@ interface FieldEditorProps {
   onManageReusableTypes?: () => void;
   onConvertToReusableType?: (fieldId: string) => void;
   onRefineFieldWithAI?: (field: SchemaField) => void;
+  discriminator?: string; // Set when this field is a variant of a discriminated union
 }
 
 const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
@@ -111,6 +248,7 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
   isRoot = false,
   level = 0,
   reusableTypes = [],
+  outputProfile = "llm-strict",
   hideRefTypeOption = false,
   dragHandleAttributes,
   dragHandleListeners,
@@ -119,8 +257,10 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
   onManageReusableTypes,
   onConvertToReusableType,
   onRefineFieldWithAI,
+  discriminator,
 }) => {
   const [nameError, setNameError] = React.useState<string | null>(null);
+  const isReusableTypeRoot = isRoot && reusableTypes.some((rt) => rt.id === field.id);
 
   const borderColors = [
     "border-blue-400",
@@ -170,17 +310,47 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
       ...field,
       type: value,
       children: value === "object" ? field.children || [] : undefined,
+      rules: value === "object" ? field.rules : undefined,
+      dependencies: value === "object" ? field.dependencies : undefined,
+      additionalPropertiesMode: value === "object" ? field.additionalPropertiesMode : undefined,
+      additionalPropertiesType: value === "object" ? field.additionalPropertiesType : undefined,
+      minProperties: value === "object" ? field.minProperties : undefined,
+      maxProperties: value === "object" ? field.maxProperties : undefined,
+      variants: value === "union" ? field.variants || [] : undefined,
+      unionMode: value === "union" ? field.unionMode : undefined,
+      discriminator: value === "union" ? field.discriminator : undefined,
+      mapValue: value === "map"
+        ? field.mapValue || { id: uuidv4(), name: "value", type: "string", isMultiple: false, isRequired: true, parentId: field.id }
+        : undefined,
+      keyPattern: value === "map" ? field.keyPattern : undefined,
+      tupleItems: value === "tuple" ? field.tupleItems || [] : undefined,
+      additionalItems: value === "tuple" ? field.additionalItems : undefined,
       refId: value === "ref" ? field.refId : undefined,
       minValue: (value === "int" || value === "float" || value === "currency") ? field.minValue : undefined,
       maxValue: (value === "int" || value === "float" || value === "currency") ? field.maxValue : undefined,
+      exclusiveMinValue: (value === "int" || value === "float" || value === "currency") ? field.exclusiveMinValue : undefined,
+      exclusiveMaxValue: (value === "int" || value === "float" || value === "currency") ? field.exclusiveMaxValue : undefined,
+      multipleOf: (value === "int" || value === "float" || value === "currency") ? field.multipleOf : undefined,
       currency: value === "currency" ? field.currency : undefined,
       options: value === "dropdown" ? field.options || [] : undefined,
+      optionType: value === "dropdown" ? field.optionType : undefined,
+      optionLabels: value === "dropdown" ? field.optionLabels : undefined,
       pattern: (value === "string" || value === "date" || value === "datetime" || value === "time") ? field.pattern : undefined, // Keep pattern for string, date, datetime, time
+      earliest: isDateTimeType(value) ? field.earliest : undefined,
+      latest: isDateTimeType(value) ? field.latest : undefined,
+      requireTimezone: value === "datetime" ? field.requireTimezone : undefined,
+      mediaTypes: value === "file" ? field.mediaTypes : undefined,
+      maxFileSize: value === "file" ? field.maxFileSize : undefined,
+      format: value === "string" ? field.format : undefined,
       minLength: value === "string" ? field.minLength : undefined, // Preserve minLength for string, clear for others
       maxLength: value === "string" ? field.maxLength : undefined, // Preserve maxLength for string, clear for others
     });
   };
 
+  const handleDiscriminatorValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFieldChange({ ...field, discriminatorValue: e.target.value || undefined });
+  };
+
   const handleRefChange = (refId: string) => {
     onFieldChange({ ...field, refId: refId });
   };
@@ -191,6 +361,9 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
       isMultiple: checked,
       minItems: checked ? field.minItems : undefined,
       maxItems: checked ? field.maxItems : undefined,
+      uniqueItems: checked ? field.uniqueItems : undefined,
+      innerArrays: checked ? field.innerArrays : undefined,
+      contains: checked ? field.contains : undefined,
     });
   };
 
@@ -198,6 +371,10 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
     onFieldChange({ ...field, isRequired: checked });
   };
 
+  const handleNullableChange = (checked: boolean) => {
+    onFieldChange({ ...field, isNullable: checked || undefined });
+  };
+
   const handleMoveUp = () => {
     if (onMoveField) {
       onMoveField(field.id, "up", field.parentId);
@@ -210,6 +387,21 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
     }
   };
 
+  // Only object-shaped variants can carry a discriminator property
+  let discriminatorWarning: string | null = null;
+  if (discriminator) {
+    const referencedType = field.type === "ref" ? reusableTypes.find(rt => rt.id === field.refId) : undefined;
+    if (field.isMultiple || (field.type !== "object" && field.type !== "ref")) {
+      discriminatorWarning = "Only single object or reference variants can be tagged; this variant will be emitted without the discriminator.";
+    } else if (
+      referencedType &&
+      ![...(referencedType.children || []), ...getInheritedFields(referencedType, reusableTypes).map(inherited => inherited.field)]
+        .some(child => child.name === discriminator)
+    ) {
+      discriminatorWarning = `Reusable type "${referencedType.name}" should declare a "${discriminator}" property, otherwise its closed object rejects the tag.`;
+    }
+  }
+
   const typeOptions: { value: SchemaFieldType; label: string }[] = [
     { value: "string", label: "String" },
     { value: "int", label: "Integer" },
@@ -221,6 +413,10 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
     { value: "object", label: "Object" },
     { value: "dropdown", label: "Dropdown" },
     { value: "boolean", label: "Boolean" },
+    { value: "union", label: "Union (anyOf/oneOf)" },
+    { value: "map", label: "Map (key/value)" },
+    { value: "tuple", label: "Tuple (positional array)" },
+    { value: "file", label: "File (base64)" },
     { value: "ref", label: "Reference ($ref)" },
   ];
 
@@ -277,7 +473,8 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
           </DropdownMenuTrigger>
           <DropdownMenuContent className="w-auto p-0">
             {typeOptions.map((option) => {
-              if (hideRefTypeOption && option.value === "ref") return null;
+              // A reusable type cannot itself be a reference, but its properties may reference any type, itself included
+              if ((hideRefTypeOption || isReusableTypeRoot) && option.value === "ref") return null;
               return (
                 <DropdownMenuItem
                   key={option.value}
@@ -308,6 +505,13 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
           {nameError && (
             <p className="text-red-500 text-xs mt-1">{nameError}</p>
           )}
+          {(field.readOnly || field.writeOnly || field.deprecated) && (
+            <div className="flex flex-wrap gap-1">
+              {field.readOnly && <Badge variant="secondary">Read-only</Badge>}
+              {field.writeOnly && <Badge variant="secondary">Write-only</Badge>}
+              {field.deprecated && <Badge variant="destructive">Deprecated</Badge>}
+            </div>
+          )}
         </div>
 
         {onConvertToReusableType && !isRoot && !hideRefTypeOption && field.type !== "ref" && (
@@ -356,6 +560,27 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
               </TooltipTrigger>
               <TooltipContent>
                 <p>If enabled, this field must be present in the data.</p>
+                <p>In the LLM strict output profile, fields that are not required accept null instead.</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        )}
+
+        {!isRoot && field.type !== "ref" && (
+          <div className="flex items-center space-x-2 min-w-[100px]">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div className="flex items-center space-x-2 cursor-pointer">
+                  <Switch
+                    id={`nullable-switch-${field.id}`}
+                    checked={!!field.isNullable}
+                    onCheckedChange={handleNullableChange}
+                  />
+                  <Label htmlFor={`nullable-switch-${field.id}`}>Nullable</Label>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>If enabled, this field accepts null as a value, whether it is required or not.</p>
               </TooltipContent>
             </Tooltip>
           </div>
@@ -408,6 +633,21 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
         )}
       </div>
 
+      {discriminator && (
+        <div className="grid gap-2">
+          <Label htmlFor={`field-discriminator-value-${field.id}`}>Value of "{discriminator}" for this variant</Label>
+          <Input
+            id={`field-discriminator-value-${field.id}`}
+            value={field.discriminatorValue || ""}
+            onChange={handleDiscriminatorValueChange}
+            placeholder={field.name || "e.g., card"}
+          />
+          {discriminatorWarning && (
+            <p className="text-yellow-600 dark:text-yellow-400 text-xs">{discriminatorWarning}</p>
+          )}
+        </div>
+      )}
+
       {field.type === "ref" && (
         <div className="grid gap-2 mt-2">
           <div className="flex items-center justify-between">
@@ -446,8 +686,16 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
         </div>
       )}
 
+      {field.type === "ref" && (
+        <FieldExtensions
+          extensions={field.extensions || []}
+          onExtensionsChange={(extensions) => onFieldChange({ ...field, extensions })}
+          idPrefix={`field-${field.id}`}
+        />
+      )}
+
       {field.type !== "ref" && (
-        <FieldAdvancedOptions field={field} onFieldChange={onFieldChange} />
+        <FieldAdvancedOptions field={field} onFieldChange={onFieldChange} outputProfile={outputProfile} />
       )}
 
       {field.type === "dropdown" && (
@@ -463,6 +711,58 @@ const FieldEditor: React.FC<FieldEditorProps> = React.memo(({
           onMoveField={onMoveField}
           level={level}
           reusableTypes={reusableTypes}
+          outputProfile={outputProfile}
+          hideRefTypeOption={hideRefTypeOption}
+          onManageReusableTypes={onManageReusableTypes}
+          onConvertToReusableType={onConvertToReusableType}
+          onRefineFieldWithAI={onRefineFieldWithAI}
+        />
+      )}
+
+      {field.type === "union" && (
+        <FieldUnionVariants
+          field={field}
+          onFieldChange={onFieldChange}
+          onAddField={onAddField}
+          onRemoveField={onRemoveField}
+          onMoveField={onMoveField}
+          level={level}
+          reusableTypes={reusableTypes}
+          outputProfile={outputProfile}
+          hideRefTypeOption={hideRefTypeOption}
+          onManageReusableTypes={onManageReusableTypes}
+          onConvertToReusableType={onConvertToReusableType}
+          onRefineFieldWithAI={onRefineFieldWithAI}
+        />
+      )}
+
+      {field.type === "tuple" && (
+        <FieldTupleItems
+          field={field}
+          onFieldChange={onFieldChange}
+          onAddField={onAddField}
+          onRemoveField={onRemoveField}
+          onMoveField={onMoveField}
+          level={level}
+          reusableTypes={reusableTypes}
+          outputProfile={outputProfile}
+          hideRefTypeOption={hideRefTypeOption}
+          onManageReusableTypes={onManageReusableTypes}
+          onConvertToReusableType={onConvertToReusableType}
+          onRefineFieldWithAI={onRefineFieldWithAI}
+        />
+      )}
+
+      {field.type === "map" && (
+        <FieldMapValue
+          field={field}
+          onFieldChange={onFieldChange}
+          onAddField={onAddField}
+          onRemoveField={onRemoveField}
+          onMoveField={onMoveField}
+          level={level}
+          reusableTypes={reusableTypes}
+          outputProfile={outputProfile}
           hideRefTypeOption={hideRefTypeOption}
           onManageReusableTypes={onManageReusableTypes}
           onConvertToReusableType={onConvertToReusableType}
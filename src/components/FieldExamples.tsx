@@ -0,0 +1,74 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isJsonDefault, parseExampleValues } from "@/utils/fieldDefaultValue";
+import { OutputProfile, SchemaField } from "./FieldEditor";
+
+interface FieldExamplesProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+  outputProfile: OutputProfile;
+}
+
+// Editor for the example values of a field, each checked against the field's schema as it is typed
+const FieldExamples: React.FC<FieldExamplesProps> = ({ field, onFieldChange, outputProfile }) => {
+  const examples = field.examples || [];
+  const results = parseExampleValues(field, outputProfile);
+  const isJson = isJsonDefault(field);
+
+  const updateExamples = (entries: string[]) => {
+    onFieldChange({ ...field, examples: entries.length > 0 ? entries : undefined });
+  };
+
+  const updateExample = (index: number, text: string) => {
+    updateExamples(examples.map((example, i) => (i === index ? text : example)));
+  };
+
+  return (
+    <div className="grid gap-2 col-span-full">
+      <Label>Examples (Optional)</Label>
+      <p className="text-sm text-muted-foreground">
+        Sample values shown to users and LLMs. {isJson ? "Enter each one as JSON." : "Enter each one as a plain value of this field's type."}
+      </p>
+      {examples.map((example, index) => {
+        const error = results[index]?.error;
+        const inputProps = {
+          id: `field-example-${field.id}-${index}`,
+          value: example,
+          placeholder: isJson ? "JSON, e.g., [] or {\"key\": \"value\"}" : "e.g., 'Laptop', 123, '2023-10-26'",
+          className: cn(isJson && "font-mono text-sm", error && "border-red-500 focus-visible:ring-red-500"),
+        };
+        return (
+          <div key={index} className="grid gap-1">
+            <div className="flex items-start gap-2">
+              {isJson ? (
+                <Textarea {...inputProps} rows={3} onChange={(e) => updateExample(index, e.target.value)} />
+              ) : (
+                <Input {...inputProps} onChange={(e) => updateExample(index, e.target.value)} />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => updateExamples(examples.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-600"
+                aria-label={`Remove example ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {error && <p className="text-red-500 text-xs">{error} It will be left out of the schema.</p>}
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" className="w-fit" onClick={() => updateExamples([...examples, ""])}>
+        <PlusCircle className="h-4 w-4 mr-2" /> Add Example
+      </Button>
+    </div>
+  );
+};
+
+export default FieldExamples;
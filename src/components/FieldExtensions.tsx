@@ -0,0 +1,79 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { parseExtensionKeywords } from "@/utils/extensionKeywords";
+import { ExtensionKeyword } from "./FieldEditor";
+
+interface FieldExtensionsProps {
+  extensions: ExtensionKeyword[];
+  onExtensionsChange: (extensions: ExtensionKeyword[] | undefined) => void;
+  idPrefix: string;
+}
+
+// Editor for the vendor extension keywords (x-*) of a field or of the root, each a name and a JSON value
+const FieldExtensions: React.FC<FieldExtensionsProps> = ({ extensions, onExtensionsChange, idPrefix }) => {
+  const results = parseExtensionKeywords(extensions);
+
+  const updateExtensions = (entries: ExtensionKeyword[]) => {
+    onExtensionsChange(entries.length > 0 ? entries : undefined);
+  };
+
+  const updateExtension = (index: number, changes: Partial<ExtensionKeyword>) => {
+    updateExtensions(extensions.map((extension, i) => (i === index ? { ...extension, ...changes } : extension)));
+  };
+
+  return (
+    <div className="grid gap-2 col-span-full">
+      <Label>Extensions (Optional)</Label>
+      <p className="text-sm text-muted-foreground">
+        Vendor keywords such as x-pii or x-db-column, read by other tools and ignored by validators. Enter each value as JSON.
+      </p>
+      {extensions.map((extension, index) => {
+        const error = results[index]?.error;
+        return (
+          <div key={index} className="grid gap-1">
+            <div className="flex items-start gap-2">
+              <Input
+                id={`${idPrefix}-extension-name-${index}`}
+                value={extension.name}
+                onChange={(e) => updateExtension(index, { name: e.target.value })}
+                placeholder="e.g., x-db-column"
+                className={cn("w-1/3 font-mono text-sm", error && "border-red-500 focus-visible:ring-red-500")}
+              />
+              <Input
+                id={`${idPrefix}-extension-value-${index}`}
+                value={extension.value}
+                onChange={(e) => updateExtension(index, { value: e.target.value })}
+                placeholder='JSON, e.g., true or "user_id"'
+                className={cn("flex-1 font-mono text-sm", error && "border-red-500 focus-visible:ring-red-500")}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => updateExtensions(extensions.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-600"
+                aria-label={`Remove extension ${extension.name || index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {error && <p className="text-red-500 text-xs">{error} It will be left out of the schema.</p>}
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-fit"
+        onClick={() => updateExtensions([...extensions, { name: "x-", value: "" }])}
+      >
+        <PlusCircle className="h-4 w-4 mr-2" /> Add Extension
+      </Button>
+    </div>
+  );
+};
+
+export default FieldExtensions;
@@ -0,0 +1,65 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatFileSize, getBase64Length } from "@/utils/fileContent";
+import { SchemaField } from "./FieldEditor";
+
+interface FieldFileOptionsProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+}
+
+// Parses the comma-separated media types typed in the editor
+const parseMediaTypes = (text: string): string[] | undefined => {
+  const mediaTypes = text.split(",").map((mediaType) => mediaType.trim()).filter(Boolean);
+  return mediaTypes.length > 0 ? mediaTypes : undefined;
+};
+
+// Editor for the accepted media types and the size limit of a file field
+const FieldFileOptions: React.FC<FieldFileOptionsProps> = ({ field, onFieldChange }) => {
+  // The text is kept as typed, so a trailing comma is not removed while the next type is being entered
+  const [mediaTypesText, setMediaTypesText] = React.useState((field.mediaTypes || []).join(", "));
+
+  const handleMediaTypesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMediaTypesText(e.target.value);
+    onFieldChange({ ...field, mediaTypes: parseMediaTypes(e.target.value) });
+  };
+
+  const handleMaxFileSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value === "" ? undefined : parseInt(e.target.value, 10);
+    onFieldChange({ ...field, maxFileSize: value !== undefined && !isNaN(value) && value >= 0 ? value : undefined });
+  };
+
+  return (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor={`field-media-types-${field.id}`}>Media Types (Optional)</Label>
+        <Input
+          id={`field-media-types-${field.id}`}
+          value={mediaTypesText}
+          onChange={handleMediaTypesChange}
+          placeholder="e.g., application/pdf, image/*"
+        />
+        <p className="text-sm text-muted-foreground">Comma-separated. Leave empty to accept any file.</p>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`field-max-file-size-${field.id}`}>Max Size in Bytes (Optional)</Label>
+        <Input
+          id={`field-max-file-size-${field.id}`}
+          type="number"
+          value={field.maxFileSize === undefined ? "" : field.maxFileSize}
+          onChange={handleMaxFileSizeChange}
+          placeholder="e.g., 5242880"
+          min="0"
+        />
+        {field.maxFileSize !== undefined && (
+          <p className="text-sm text-muted-foreground">
+            {formatFileSize(field.maxFileSize)}, at most {getBase64Length(field.maxFileSize)} characters once encoded.
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default FieldFileOptions;
@@ -0,0 +1,109 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import FieldEditor, { OutputProfile, SchemaField } from "./FieldEditor";
+
+interface FieldMapValueProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+  onAddField?: (parentId: string) => void;
+  onRemoveField?: (fieldId: string) => void;
+  onMoveField?: (fieldId: string, direction: "up" | "down", parentId?: string) => void;
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  hideRefTypeOption: boolean;
+  onManageReusableTypes?: () => void;
+  onConvertToReusableType?: (fieldId: string) => void;
+  onRefineFieldWithAI?: (field: SchemaField) => void;
+}
+
+// Editor for a map field: the optional key pattern and the type shared by all of its values
+const FieldMapValue: React.FC<FieldMapValueProps> = React.memo(({
+  field,
+  onFieldChange,
+  onAddField,
+  onRemoveField,
+  onMoveField,
+  level,
+  reusableTypes,
+  outputProfile,
+  hideRefTypeOption,
+  onManageReusableTypes,
+  onConvertToReusableType,
+  onRefineFieldWithAI,
+}) => {
+  const [isValueOpen, setIsValueOpen] = React.useState(true);
+
+  const handleKeyPatternChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFieldChange({ ...field, keyPattern: e.target.value || undefined });
+  };
+
+  return (
+    <Collapsible
+      open={isValueOpen}
+      onOpenChange={setIsValueOpen}
+      className="flex flex-col gap-4 mt-4 border-t pt-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start px-6 -mt-4">
+          {isValueOpen ? (
+            <ChevronUp className="h-4 w-4 mr-2" />
+          ) : (
+            <ChevronDown className="h-4 w-4 mr-2" />
+          )}
+          <h3 className="text-md font-semibold">Entries of {field.name || "Unnamed Map"}:</h3>
+        </Button>
+      </CollapsibleTrigger>
+      <CustomCollapsibleContent className="space-y-4">
+        <div className="grid gap-2 px-6">
+          <Label htmlFor={`field-key-pattern-${field.id}`}>Key Pattern (Regex, Optional)</Label>
+          <Input
+            id={`field-key-pattern-${field.id}`}
+            value={field.keyPattern || ""}
+            onChange={handleKeyPatternChange}
+            placeholder="e.g., ^SKU-[0-9]+$"
+          />
+          <p className="text-sm text-muted-foreground">
+            Keys are free-form strings. When set, every key must match this pattern.
+          </p>
+        </div>
+        {field.mapValue ? (
+          <div className="space-y-2">
+            <Label className="px-6">Value Type</Label>
+            <FieldEditor
+              field={field.mapValue}
+              onFieldChange={onFieldChange}
+              onAddField={onAddField}
+              onRemoveField={onRemoveField}
+              onMoveField={onMoveField}
+              isRoot={true} // The value type cannot be moved, made optional or removed on its own
+              level={level + 1}
+              reusableTypes={reusableTypes}
+              outputProfile={outputProfile}
+              hideRefTypeOption={hideRefTypeOption}
+              onManageReusableTypes={onManageReusableTypes}
+              onConvertToReusableType={onConvertToReusableType}
+              onRefineFieldWithAI={onRefineFieldWithAI}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground px-6">
+            No value type defined for this map.
+          </p>
+        )}
+      </CustomCollapsibleContent>
+    </Collapsible>
+  );
+});
+
+FieldMapValue.displayName = "FieldMapValue";
+
+export default FieldMapValue;
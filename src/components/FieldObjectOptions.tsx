@@ -0,0 +1,137 @@
+import React from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { addFieldToTree, moveFieldInTree, removeFieldFromTree, updateFieldInTree } from "@/utils/schemaFieldTree";
+import FieldEditor, { AdditionalPropertiesMode, ObjectPropertyOptions, OutputProfile, SchemaField } from "./FieldEditor";
+
+interface FieldObjectOptionsProps {
+  options: ObjectPropertyOptions;
+  onOptionsChange: (options: ObjectPropertyOptions) => void;
+  idPrefix: string;
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  hideRefTypeOption: boolean;
+  onManageReusableTypes?: () => void;
+}
+
+const MODE_OPTIONS: { value: AdditionalPropertiesMode; label: string; description: string }[] = [
+  { value: "closed", label: "Closed", description: "Only the listed properties are allowed." },
+  { value: "open", label: "Open", description: "Any other property is allowed, with any value." },
+  { value: "typed", label: "Open with typed values", description: "Any other property is allowed, with values of the type below." },
+];
+
+// Editor for how an object treats properties it does not list, and for its property counts.
+// Used by object fields and by the root object, so the value type's nested fields are edited here.
+const FieldObjectOptions: React.FC<FieldObjectOptionsProps> = ({
+  options,
+  onOptionsChange,
+  idPrefix,
+  level,
+  reusableTypes,
+  outputProfile,
+  hideRefTypeOption,
+  onManageReusableTypes,
+}) => {
+  const mode = options.additionalPropertiesMode || "closed";
+  const valueType = options.additionalPropertiesType;
+
+  const handleModeChange = (value: AdditionalPropertiesMode) => {
+    onOptionsChange({
+      ...options,
+      additionalPropertiesMode: value === "closed" ? undefined : value,
+      additionalPropertiesType: value === "typed"
+        ? valueType || { id: uuidv4(), name: "value", type: "string", isMultiple: false, isRequired: true }
+        : undefined,
+    });
+  };
+
+  const updateValueType = (fields: SchemaField[]) => {
+    onOptionsChange({ ...options, additionalPropertiesType: fields[0] });
+  };
+
+  const parseCount = (value: string): number | undefined => (value === "" ? undefined : parseInt(value, 10));
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-additional-properties`}>Other Properties</Label>
+          <Select value={mode} onValueChange={handleModeChange}>
+            <SelectTrigger id={`${idPrefix}-additional-properties`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-min-properties`}>Min Properties (Optional)</Label>
+          <Input
+            id={`${idPrefix}-min-properties`}
+            type="number"
+            value={options.minProperties === undefined ? "" : options.minProperties}
+            onChange={(e) => onOptionsChange({ ...options, minProperties: parseCount(e.target.value) })}
+            placeholder="e.g., 1"
+            min="0"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-max-properties`}>Max Properties (Optional)</Label>
+          <Input
+            id={`${idPrefix}-max-properties`}
+            type="number"
+            value={options.maxProperties === undefined ? "" : options.maxProperties}
+            onChange={(e) => onOptionsChange({ ...options, maxProperties: parseCount(e.target.value) })}
+            placeholder="e.g., 20"
+            min="0"
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {MODE_OPTIONS.find((option) => option.value === mode)?.description}
+        {mode !== "closed" && " LLM strict modes require closed objects."}
+      </p>
+      {mode === "typed" && valueType && (
+        <div className="space-y-2">
+          <Label>Type of Other Properties</Label>
+          <FieldEditor
+            field={valueType}
+            onFieldChange={(updated) => updateValueType(updateFieldInTree([valueType], updated))}
+            onAddField={(parentId) =>
+              updateValueType(addFieldToTree([valueType], parentId, {
+                id: uuidv4(),
+                name: "",
+                type: "string",
+                isMultiple: false,
+                isRequired: true,
+                parentId,
+              }))
+            }
+            onRemoveField={(fieldId) => updateValueType(removeFieldFromTree([valueType], fieldId))}
+            onMoveField={(fieldId, direction) => updateValueType(moveFieldInTree([valueType], fieldId, direction))}
+            isRoot={true} // The value type cannot be moved, made optional or removed on its own
+            level={level + 1}
+            reusableTypes={reusableTypes}
+            outputProfile={outputProfile}
+            hideRefTypeOption={hideRefTypeOption}
+            onManageReusableTypes={onManageReusableTypes}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldObjectOptions;
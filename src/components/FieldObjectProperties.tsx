@@ -8,7 +8,10 @@ import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent"
 import { PlusCircle, ChevronDown, ChevronUp } from "lucide-react";
 import { cn } from "@/lib/utils";
 import SortableFieldEditor from "./SortableFieldEditor";
-import { SchemaField } from "./FieldEditor";
+import FieldConditionalRules from "./FieldConditionalRules";
+import FieldPropertyDependencies from "./FieldPropertyDependencies";
+import FieldObjectOptions from "./FieldObjectOptions";
+import { OutputProfile, SchemaField } from "./FieldEditor";
 import {
   DndContext,
   closestCenter,
@@ -33,6 +36,7 @@ interface FieldObjectPropertiesProps {
   onMoveField?: (fieldId: string, direction: "up" | "down", parentId?: string) => void;
   level: number;
   reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
   hideRefTypeOption: boolean;
   onManageReusableTypes?: () => void;
   onConvertToReusableType?: (fieldId: string) => void;
@@ -47,6 +51,7 @@ const FieldObjectProperties: React.FC<FieldObjectPropertiesProps> = React.memo((
   onMoveField,
   level,
   reusableTypes,
+  outputProfile,
   hideRefTypeOption,
   onManageReusableTypes,
   onConvertToReusableType,
@@ -121,6 +126,7 @@ const FieldObjectProperties: React.FC<FieldObjectPropertiesProps> = React.memo((
                     onMoveField={onMoveField}
                     level={level + 1}
                     reusableTypes={reusableTypes}
+                    outputProfile={outputProfile}
                     hideRefTypeOption={hideRefTypeOption}
                     isFirst={index === 0}
                     isLast={index === (field.children?.length || 0) - 1}
@@ -150,6 +156,38 @@ const FieldObjectProperties: React.FC<FieldObjectPropertiesProps> = React.memo((
             <PlusCircle className="h-4 w-4 mr-2" /> Add Property to {field.name || "Unnamed Object"}
           </Button>
         )}
+        {((field.children?.length || 0) > 1 || (field.rules?.length || 0) > 0) && (
+          <div className="px-6">
+            <FieldConditionalRules
+              rules={field.rules || []}
+              fields={field.children || []}
+              onRulesChange={(rules) => onFieldChange({ ...field, rules })}
+              idPrefix={`field-${field.id}`}
+            />
+          </div>
+        )}
+        {((field.children?.length || 0) > 1 || (field.dependencies?.length || 0) > 0) && (
+          <div className="px-6">
+            <FieldPropertyDependencies
+              dependencies={field.dependencies || []}
+              fields={field.children || []}
+              onDependenciesChange={(dependencies) => onFieldChange({ ...field, dependencies })}
+              idPrefix={`field-${field.id}`}
+            />
+          </div>
+        )}
+        <div className="px-6">
+          <FieldObjectOptions
+            options={field}
+            onOptionsChange={(options) => onFieldChange({ ...field, ...options })}
+            idPrefix={`field-${field.id}`}
+            level={level}
+            reusableTypes={reusableTypes}
+            outputProfile={outputProfile}
+            hideRefTypeOption={hideRefTypeOption}
+            onManageReusableTypes={onManageReusableTypes}
+          />
+        </div>
       </CustomCollapsibleContent>
     </Collapsible>
   );
@@ -0,0 +1,178 @@
+import React from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlusCircle, Trash2, X } from "lucide-react";
+import { RequiredFieldsPicker } from "./FieldConditionalRules";
+import { PropertyCondition, PropertyDependency, RuleConditionOperator, SchemaField } from "./FieldEditor";
+
+interface FieldPropertyDependenciesProps {
+  dependencies: PropertyDependency[];
+  fields: SchemaField[]; // Properties of the object the dependencies belong to
+  onDependenciesChange: (dependencies: PropertyDependency[] | undefined) => void;
+  idPrefix: string;
+}
+
+// Requiring a property to be present is done through the required properties, so conditions test values only
+const CONDITION_OPERATOR_OPTIONS: { value: RuleConditionOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "oneOf", label: "is one of" },
+];
+
+// Editor for the dependencies of an object: "when <property> is set, require <properties> and <value conditions>"
+const FieldPropertyDependencies: React.FC<FieldPropertyDependenciesProps> = ({
+  dependencies,
+  fields,
+  onDependenciesChange,
+  idPrefix,
+}) => {
+  const fieldNames = fields.map((f) => f.name).filter((name) => name !== "");
+
+  const updateDependency = (updatedDependency: PropertyDependency) => {
+    onDependenciesChange(dependencies.map((dependency) => (dependency.id === updatedDependency.id ? updatedDependency : dependency)));
+  };
+
+  const addDependency = () => {
+    onDependenciesChange([...dependencies, { id: uuidv4(), fieldName: fieldNames[0] || "", requiredFields: [] }]);
+  };
+
+  const removeDependency = (dependencyId: string) => {
+    const remainingDependencies = dependencies.filter((dependency) => dependency.id !== dependencyId);
+    onDependenciesChange(remainingDependencies.length > 0 ? remainingDependencies : undefined);
+  };
+
+  const updateConditions = (dependency: PropertyDependency, conditions: PropertyCondition[]) => {
+    updateDependency({ ...dependency, conditions: conditions.length > 0 ? conditions : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold">Property Dependencies</h4>
+        <p className="text-xs text-muted-foreground">
+          Require properties, or specific values, whenever another property is set. Emitted as dependencies, or as if/then clauses under the LLM strict profile.
+        </p>
+      </div>
+      {dependencies.map((dependency) => {
+        const otherFieldNames = fieldNames.filter((name) => name !== dependency.fieldName);
+        const isUnknownField = dependency.fieldName !== "" && !fieldNames.includes(dependency.fieldName);
+        const conditions = dependency.conditions || [];
+        return (
+          <div key={dependency.id} className="space-y-2 rounded-md border border-dashed p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Label className="text-sm">When</Label>
+              <Select
+                value={dependency.fieldName}
+                onValueChange={(value) => updateDependency({ ...dependency, fieldName: value })}
+              >
+                <SelectTrigger id={`${idPrefix}-dependency-field-${dependency.id}`} className="w-[180px]">
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldNames.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                  {isUnknownField && (
+                    <SelectItem value={dependency.fieldName}>{dependency.fieldName} (unknown)</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <span className="text-sm">is set</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeDependency(dependency.id)}
+                className="ml-auto text-red-500 hover:text-red-600"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <RequiredFieldsPicker
+              label="require:"
+              fieldNames={otherFieldNames}
+              selected={dependency.requiredFields}
+              onChange={(selected) => updateDependency({ ...dependency, requiredFields: selected })}
+            />
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">and</span>
+                <Select
+                  value={condition.fieldName}
+                  onValueChange={(value) =>
+                    updateConditions(dependency, conditions.map((c, i) => (i === index ? { ...c, fieldName: value } : c)))
+                  }
+                >
+                  <SelectTrigger id={`${idPrefix}-dependency-condition-field-${dependency.id}-${index}`} className="w-[180px]">
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherFieldNames.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value: RuleConditionOperator) =>
+                    updateConditions(dependency, conditions.map((c, i) => (i === index ? { ...c, operator: value } : c)))
+                  }
+                >
+                  <SelectTrigger id={`${idPrefix}-dependency-condition-operator-${dependency.id}-${index}`} className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_OPERATOR_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  id={`${idPrefix}-dependency-condition-values-${dependency.id}-${index}`}
+                  className="flex-1 min-w-[160px]"
+                  value={condition.operator === "oneOf" ? (condition.values || []).join(",") : (condition.values || [""])[0]}
+                  onChange={(e) => {
+                    const values = condition.operator === "oneOf" ? e.target.value.split(",") : [e.target.value];
+                    updateConditions(dependency, conditions.map((c, i) => (i === index ? { ...c, values } : c)));
+                  }}
+                  placeholder={condition.operator === "oneOf" ? "e.g., US,CA" : "e.g., US"}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateConditions(dependency, conditions.filter((_, i) => i !== index))}
+                  className="text-muted-foreground"
+                  aria-label="Remove value condition"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateConditions(dependency, [...conditions, { fieldName: otherFieldNames[0] || "", operator: "equals", values: [""] }])
+              }
+              disabled={otherFieldNames.length === 0}
+            >
+              <PlusCircle className="h-4 w-4 mr-2" /> Add Value Condition
+            </Button>
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={addDependency} disabled={fieldNames.length < 2}>
+        <PlusCircle className="h-4 w-4 mr-2" /> Add Dependency
+      </Button>
+    </div>
+  );
+};
+
+export default FieldPropertyDependencies;
@@ -0,0 +1,182 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
+import { PlusCircle, ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import SortableFieldEditor from "./SortableFieldEditor";
+import { OutputProfile, SchemaField } from "./FieldEditor";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  arrayMove,
+} from "@dnd-kit/sortable";
+
+interface FieldTupleItemsProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+  onAddField?: (parentId: string) => void;
+  onRemoveField?: (fieldId: string) => void;
+  onMoveField?: (fieldId: string, direction: "up" | "down", parentId?: string) => void;
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  hideRefTypeOption: boolean;
+  onManageReusableTypes?: () => void;
+  onConvertToReusableType?: (fieldId: string) => void;
+  onRefineFieldWithAI?: (field: SchemaField) => void;
+}
+
+// Editor for the positions of a tuple: an ordered list of item types, plus whether extra items are allowed
+const FieldTupleItems: React.FC<FieldTupleItemsProps> = React.memo(({
+  field,
+  onFieldChange,
+  onAddField,
+  onRemoveField,
+  onMoveField,
+  level,
+  reusableTypes,
+  outputProfile,
+  hideRefTypeOption,
+  onManageReusableTypes,
+  onConvertToReusableType,
+  onRefineFieldWithAI,
+}) => {
+  const [isItemsOpen, setIsItemsOpen] = React.useState(true);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  const borderColors = [
+    "border-blue-400",
+    "border-green-400",
+    "border-purple-400",
+    "border-yellow-400",
+    "border-red-400",
+  ];
+
+  const handleAdditionalItemsChange = (checked: boolean) => {
+    onFieldChange({ ...field, additionalItems: checked || undefined });
+  };
+
+  const handleItemDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (active.id !== over?.id && field.tupleItems) {
+      const oldIndex = field.tupleItems.findIndex((item) => item.id === active.id);
+      const newIndex = field.tupleItems.findIndex((item) => item.id === over?.id);
+
+      if (oldIndex !== -1 && newIndex !== -1) {
+        onFieldChange({ ...field, tupleItems: arrayMove(field.tupleItems, oldIndex, newIndex) });
+      }
+    }
+  };
+
+  return (
+    <Collapsible
+      open={isItemsOpen}
+      onOpenChange={setIsItemsOpen}
+      className="flex flex-col gap-4 mt-4 border-t pt-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start px-6 -mt-4">
+          {isItemsOpen ? (
+            <ChevronUp className="h-4 w-4 mr-2" />
+          ) : (
+            <ChevronDown className="h-4 w-4 mr-2" />
+          )}
+          <h3 className="text-md font-semibold">Positions for {field.name || "Unnamed Tuple"}:</h3>
+        </Button>
+      </CollapsibleTrigger>
+      <CustomCollapsibleContent className="space-y-4">
+        <div className="grid gap-2 px-6">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`field-additional-items-${field.id}`}
+              checked={!!field.additionalItems}
+              onCheckedChange={handleAdditionalItemsChange}
+            />
+            <Label htmlFor={`field-additional-items-${field.id}`}>Allow Additional Items</Label>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Each position has its own type, in order. When disabled, the tuple has exactly this many items.
+          </p>
+        </div>
+        {field.tupleItems && field.tupleItems.length > 0 ? (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleItemDragEnd}
+          >
+            <SortableContext
+              items={field.tupleItems.map((item) => item.id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="space-y-4">
+                {field.tupleItems.map((item, index) => (
+                  <SortableFieldEditor
+                    key={item.id}
+                    field={item}
+                    onFieldChange={onFieldChange}
+                    onAddField={onAddField}
+                    onRemoveField={onRemoveField}
+                    onMoveField={onMoveField}
+                    level={level + 1}
+                    reusableTypes={reusableTypes}
+                    outputProfile={outputProfile}
+                    hideRefTypeOption={hideRefTypeOption}
+                    isFirst={index === 0}
+                    isLast={index === (field.tupleItems?.length || 0) - 1}
+                    onManageReusableTypes={onManageReusableTypes}
+                    onConvertToReusableType={onConvertToReusableType}
+                    onRefineFieldWithAI={onRefineFieldWithAI}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+        ) : (
+          <p className="text-sm text-muted-foreground px-6">
+            No positions defined for this tuple.
+          </p>
+        )}
+        {onAddField && (
+          <Button
+            variant="outline"
+            onClick={() => onAddField(field.id)}
+            className={cn(
+              "w-full px-6",
+              level > 0 && borderColors[level % borderColors.length],
+              "text-foreground hover:bg-accent hover:text-accent-foreground"
+            )}
+          >
+            <PlusCircle className="h-4 w-4 mr-2" /> Add Position to {field.name || "Unnamed Tuple"}
+          </Button>
+        )}
+      </CustomCollapsibleContent>
+    </Collapsible>
+  );
+});
+
+FieldTupleItems.displayName = "FieldTupleItems";
+
+export default FieldTupleItems;
@@ -11,6 +11,10 @@ import {
   LucideIcon,
   List,
   ToggleLeft, // Import ToggleLeft icon for boolean
+  Split,
+  KeyRound,
+  Brackets,
+  FileText,
 } from "lucide-react";
 import {
   Tooltip,
@@ -40,6 +44,10 @@ const typeIconMap: Record<
   ref: { icon: Link, name: "Reference" },
   dropdown: { icon: List, name: "Dropdown" },
   boolean: { icon: ToggleLeft, name: "Boolean" }, // Added icon for boolean
+  union: { icon: Split, name: "Union" },
+  map: { icon: KeyRound, name: "Map" },
+  tuple: { icon: Brackets, name: "Tuple" },
+  file: { icon: FileText, name: "File" },
 };
 
 const FieldTypeIcon: React.FC<FieldTypeIconProps> = ({ type, className }) => {
@@ -0,0 +1,215 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
+import { PlusCircle, ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import SortableFieldEditor from "./SortableFieldEditor";
+import { OutputProfile, SchemaField, UnionMode } from "./FieldEditor";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  arrayMove,
+} from "@dnd-kit/sortable";
+
+interface FieldUnionVariantsProps {
+  field: SchemaField;
+  onFieldChange: (field: SchemaField) => void;
+  onAddField?: (parentId: string) => void;
+  onRemoveField?: (fieldId: string) => void;
+  onMoveField?: (fieldId: string, direction: "up" | "down", parentId?: string) => void;
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  hideRefTypeOption: boolean;
+  onManageReusableTypes?: () => void;
+  onConvertToReusableType?: (fieldId: string) => void;
+  onRefineFieldWithAI?: (field: SchemaField) => void;
+}
+
+const UNION_MODE_OPTIONS: { value: UnionMode; label: string }[] = [
+  { value: "anyOf", label: "anyOf - matches at least one variant" },
+  { value: "oneOf", label: "oneOf - matches exactly one variant" },
+];
+
+const FieldUnionVariants: React.FC<FieldUnionVariantsProps> = React.memo(({
+  field,
+  onFieldChange,
+  onAddField,
+  onRemoveField,
+  onMoveField,
+  level,
+  reusableTypes,
+  outputProfile,
+  hideRefTypeOption,
+  onManageReusableTypes,
+  onConvertToReusableType,
+  onRefineFieldWithAI,
+}) => {
+  const [isVariantsOpen, setIsVariantsOpen] = React.useState(true);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  const borderColors = [
+    "border-blue-400",
+    "border-green-400",
+    "border-purple-400",
+    "border-yellow-400",
+    "border-red-400",
+  ];
+
+  const handleUnionModeChange = (value: UnionMode) => {
+    onFieldChange({ ...field, unionMode: value });
+  };
+
+  const handleDiscriminatorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFieldChange({ ...field, discriminator: e.target.value.trim() || undefined });
+  };
+
+  const handleVariantDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (active.id !== over?.id && field.variants) {
+      const oldIndex = field.variants.findIndex((v) => v.id === active.id);
+      const newIndex = field.variants.findIndex((v) => v.id === over?.id);
+
+      if (oldIndex !== -1 && newIndex !== -1) {
+        onFieldChange({ ...field, variants: arrayMove(field.variants, oldIndex, newIndex) });
+      }
+    }
+  };
+
+  return (
+    <Collapsible
+      open={isVariantsOpen}
+      onOpenChange={setIsVariantsOpen}
+      className="flex flex-col gap-4 mt-4 border-t pt-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start px-6 -mt-4">
+          {isVariantsOpen ? (
+            <ChevronUp className="h-4 w-4 mr-2" />
+          ) : (
+            <ChevronDown className="h-4 w-4 mr-2" />
+          )}
+          <h3 className="text-md font-semibold">Variants for {field.name || "Unnamed Union"}:</h3>
+        </Button>
+      </CollapsibleTrigger>
+      <CustomCollapsibleContent className="space-y-4">
+        <div className="grid gap-2 px-6">
+          <Label htmlFor={`field-union-mode-${field.id}`}>Union Mode</Label>
+          <Select value={field.unionMode || "anyOf"} onValueChange={handleUnionModeChange}>
+            <SelectTrigger id={`field-union-mode-${field.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNION_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Each variant is an alternative shape for this value. Use the variant name as its label.
+          </p>
+        </div>
+        <div className="grid gap-2 px-6">
+          <Label htmlFor={`field-union-discriminator-${field.id}`}>Discriminator Property (Optional)</Label>
+          <Input
+            id={`field-union-discriminator-${field.id}`}
+            value={field.discriminator || ""}
+            onChange={handleDiscriminatorChange}
+            placeholder="e.g., type or kind"
+          />
+          <p className="text-sm text-muted-foreground">
+            Tags every object variant with a constant value for this property, so consumers can tell variants apart.
+          </p>
+        </div>
+        {field.variants && field.variants.length > 0 ? (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleVariantDragEnd}
+          >
+            <SortableContext
+              items={field.variants.map((variant) => variant.id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="space-y-4">
+                {field.variants.map((variant, index) => (
+                  <SortableFieldEditor
+                    key={variant.id}
+                    field={variant}
+                    onFieldChange={onFieldChange}
+                    onAddField={onAddField}
+                    onRemoveField={onRemoveField}
+                    onMoveField={onMoveField}
+                    level={level + 1}
+                    reusableTypes={reusableTypes}
+                    outputProfile={outputProfile}
+                    hideRefTypeOption={hideRefTypeOption}
+                    isFirst={index === 0}
+                    isLast={index === (field.variants?.length || 0) - 1}
+                    onManageReusableTypes={onManageReusableTypes}
+                    onConvertToReusableType={onConvertToReusableType}
+                    onRefineFieldWithAI={onRefineFieldWithAI}
+                    discriminator={field.discriminator}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+        ) : (
+          <p className="text-sm text-muted-foreground px-6">
+            No variants defined for this union.
+          </p>
+        )}
+        {onAddField && (
+          <Button
+            variant="outline"
+            onClick={() => onAddField(field.id)}
+            className={cn(
+              "w-full px-6",
+              level > 0 && borderColors[level % borderColors.length],
+              "text-foreground hover:bg-accent hover:text-accent-foreground"
+            )}
+          >
+            <PlusCircle className="h-4 w-4 mr-2" /> Add Variant to {field.name || "Unnamed Union"}
+          </Button>
+        )}
+      </CustomCollapsibleContent>
+    </Collapsible>
+  );
+});
+
+FieldUnionVariants.displayName = "FieldUnionVariants";
+
+export default FieldUnionVariants;
@@ -0,0 +1,22 @@
+import React from "react";
+
+interface GeminiSchemaWarningsProps {
+  warnings: string[];
+}
+
+// Lists what Gemini's response schema could not express from the JSON Schema
+const GeminiSchemaWarnings: React.FC<GeminiSchemaWarningsProps> = ({ warnings }) => {
+  if (warnings.length === 0) return null;
+  return (
+    <div className="text-yellow-600 dark:text-yellow-400 text-xs space-y-1">
+      <p>Gemini's response schema cannot express all of this schema, so its answers are less constrained:</p>
+      <ul className="list-disc pl-4">
+        {warnings.map((warning) => (
+          <li key={warning}>{warning}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GeminiSchemaWarnings;
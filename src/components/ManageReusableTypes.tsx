@@ -1,7 +1,8 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { PlusCircle, Trash2 } from "lucide-react";
-import FieldEditor, { SchemaField } from "./FieldEditor";
+import FieldEditor, { OutputProfile, SchemaField } from "./FieldEditor";
+import ReusableTypeInheritance from "./ReusableTypeInheritance";
 import { v4 as uuidv4 } from "uuid";
 import {
   AlertDialog,
@@ -15,21 +16,36 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { showSuccess, showError } from "@/utils/toast";
-import { arrayMove } from "@dnd-kit/sortable"; // Import arrayMove
+import { buildFullJsonSchema } from "@/utils/jsonSchemaBuilder";
+import { findDefinitionCycles } from "@/utils/definitionCycles";
+import {
+  addFieldToTree,
+  moveFieldInTree,
+  removeFieldFromTree,
+  updateFieldInTree,
+} from "@/utils/schemaFieldTree";
 
 interface ManageReusableTypesProps {
   reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
   setReusableTypes: React.Dispatch<React.SetStateAction<SchemaField[]>>;
   onClose: () => void;
 }
 
 const ManageReusableTypes: React.FC<ManageReusableTypesProps> = ({
   reusableTypes,
+  outputProfile,
   setReusableTypes,
   onClose,
 }) => {
   const [activeAdvancedFieldId, setActiveAdvancedFieldId] = React.useState<string | null>(null);
 
+  // Types referencing themselves, directly or through each other, explained so unsatisfiable loops can be fixed
+  const cycles = React.useMemo(
+    () => findDefinitionCycles(buildFullJsonSchema([], reusableTypes).definitions || {}),
+    [reusableTypes]
+  );
+
   const addReusableType = () => {
     const newType: SchemaField = {
       id: uuidv4(),
@@ -43,27 +59,12 @@ const ManageReusableTypes: React.FC<ManageReusableTypesProps> = ({
     showSuccess("New reusable type added!");
   };
 
-  // Helper to update a field anywhere in the schema tree (used for onFieldChange)
-  const updateFieldInTree = (fields: SchemaField[], updatedField: SchemaField): SchemaField[] => {
-    return fields.map((field) => {
-      if (field.id === updatedField.id) {
-        return updatedField;
-      } else if (field.type === "object" && field.children) {
-        return {
-          ...field,
-          children: updateFieldInTree(field.children, updatedField),
-        };
-      }
-      return field;
-    });
-  };
-
   const handleReusableTypeChange = (updatedField: SchemaField) => {
     setReusableTypes((prev) => updateFieldInTree(prev, updatedField));
   };
 
-  // Helper to add a new field to a specific parent within a reusable type's children
-  const addFieldToReusableType = (reusableTypeId: string, parentId: string) => {
+  // Adds a new field to a specific parent within a reusable type's tree
+  const addFieldToReusableType = (parentId: string) => {
     const newField: SchemaField = {
       id: uuidv4(),
       name: "",
@@ -72,124 +73,28 @@ const ManageReusableTypes: React.FC<ManageReusableTypesProps> = ({
       isRequired: true,
     };
 
-    setReusableTypes((prevReusableTypes) =>
-      prevReusableTypes.map((rt) => {
-        if (rt.id === reusableTypeId) {
-          // If the parentId is the reusable type itself, add the new field directly to its children
-          if (rt.id === parentId) {
-            return {
-              ...rt,
-              children: rt.children ? [...rt.children, newField] : [newField],
-            };
-          }
-
-          // Otherwise, find the nested parent and add the field
-          const addNested = (fields: SchemaField[]): SchemaField[] => {
-            return fields.map((field) => {
-              if (field.id === parentId) {
-                return {
-                  ...field,
-                  children: field.children ? [...field.children, newField] : [newField],
-                };
-              } else if (field.type === "object" && field.children) {
-                return {
-                  ...field,
-                  children: addNested(field.children),
-                };
-              }
-              return field;
-            });
-          };
-          return { ...rt, children: addNested(rt.children || []) };
-        }
-        return rt;
-      })
-    );
+    setReusableTypes((prevReusableTypes) => addFieldToTree(prevReusableTypes, parentId, newField));
   };
 
-  // Helper to remove a field from anywhere within a reusable type's children
-  const removeFieldFromReusableType = (reusableTypeId: string, fieldIdToRemove: string) => {
-    setReusableTypes((prevReusableTypes) =>
-      prevReusableTypes.map((rt) => {
-        if (rt.id === reusableTypeId) {
-          const filterNested = (fields: SchemaField[]): SchemaField[] => {
-            return fields.filter((field) => {
-              if (field.id === fieldIdToRemove) {
-                return false;
-              }
-              if (field.type === "object" && field.children) {
-                field.children = filterNested(field.children);
-              }
-              return true;
-            });
-          };
-          return { ...rt, children: filterNested(rt.children || []) };
-        }
-        return rt;
-      })
-    );
+  // Removes a field from anywhere within a reusable type's tree
+  const removeFieldFromReusableType = (fieldIdToRemove: string) => {
+    setReusableTypes((prevReusableTypes) => removeFieldFromTree(prevReusableTypes, fieldIdToRemove));
   };
 
-  // New function to handle moving fields within a reusable type's children
-  const handleMoveFieldInReusableType = (
-    reusableTypeId: string,
-    fieldId: string,
-    direction: "up" | "down",
-    parentId?: string,
-  ) => {
-    setReusableTypes((prevReusableTypes) =>
-      prevReusableTypes.map((rt) => {
-        if (rt.id === reusableTypeId) {
-          const updateChildren = (fields: SchemaField[]): SchemaField[] => {
-            const index = fields.findIndex((f) => f.id === fieldId);
-            if (index === -1) {
-              // Field not found at this level, check children of objects
-              return fields.map((f) => {
-                if (f.type === "object" && f.children) {
-                  return { ...f, children: updateChildren(f.children) };
-                }
-                return f;
-              });
-            }
-
-            let newIndex = index;
-            if (direction === "up") {
-              newIndex = Math.max(0, index - 1);
-            } else {
-              newIndex = Math.min(fields.length - 1, index + 1);
-            }
-
-            if (newIndex === index) return fields; // No change
-
-            return arrayMove(fields, index, newIndex);
-          };
-
-          // If parentId is the reusable type itself, or undefined (meaning it's a direct child of the reusable type object)
-          // then update its direct children. Otherwise, find the nested parent.
-          if (!parentId || rt.id === parentId) {
-            return { ...rt, children: updateChildren(rt.children || []) };
-          } else {
-            // Find the nested parent and update its children
-            const findAndMoveInNested = (currentFields: SchemaField[]): SchemaField[] => {
-              return currentFields.map((field) => {
-                if (field.id === parentId && field.type === "object" && field.children) {
-                  return { ...field, children: updateChildren(field.children) };
-                } else if (field.type === "object" && field.children) {
-                  return { ...field, children: findAndMoveInNested(field.children) };
-                }
-                return field;
-              });
-            };
-            return { ...rt, children: findAndMoveInNested(rt.children || []) };
-          }
-        }
-        return rt;
-      })
-    );
+  // Moves a field up or down within its list inside a reusable type
+  const handleMoveFieldInReusableType = (fieldId: string, direction: "up" | "down") => {
+    setReusableTypes((prevReusableTypes) => moveFieldInTree(prevReusableTypes, fieldId, direction));
   };
 
   const removeReusableType = (typeId: string) => {
-    setReusableTypes((prev) => prev.filter((type) => type.id !== typeId));
+    setReusableTypes((prev) =>
+      prev
+        .filter((type) => type.id !== typeId)
+        // Types extending the removed one stop inheriting from it
+        .map((type) => type.extendsIds?.includes(typeId)
+          ? { ...type, extendsIds: type.extendsIds.filter((id) => id !== typeId) }
+          : type)
+    );
     showSuccess("Reusable type removed!");
   };
 
@@ -198,8 +103,26 @@ const ManageReusableTypes: React.FC<ManageReusableTypesProps> = ({
       <h2 className="text-2xl font-semibold">Manage Reusable Types</h2>
       <p className="text-muted-foreground">
         Define object schemas here that can be reused as references ($ref) in your main schema.
+        Properties of a type may reference other types or the type itself, to describe trees and other recursive data.
       </p>
 
+      {cycles.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {cycles.map((cycle) =>
+            cycle.isUnsatisfiable ? (
+              <p key={cycle.typeNames.join()} className="text-red-500">
+                {cycle.example}: every step of this loop requires a value, so no finite data can match it.
+                Make a property on the loop optional, nullable or a list.
+              </p>
+            ) : (
+              <p key={cycle.typeNames.join()} className="text-muted-foreground">
+                Recursive: {cycle.example}
+              </p>
+            )
+          )}
+        </div>
+      )}
+
       {reusableTypes.length === 0 ? (
         <p className="text-muted-foreground text-center">
           No reusable types defined yet. Click "Add New Reusable Type" to get started.
@@ -234,18 +157,25 @@ const ManageReusableTypes: React.FC<ManageReusableTypesProps> = ({
                   </AlertDialogContent>
                 </AlertDialog>
               </div>
+              {type.type === "object" && (
+                <ReusableTypeInheritance
+                  reusableType={type}
+                  reusableTypes={reusableTypes}
+                  onFieldChange={handleReusableTypeChange}
+                />
+              )}
               <FieldEditor
                 field={type}
                 onFieldChange={handleReusableTypeChange}
-                onAddField={(parentId) => addFieldToReusableType(type.id, parentId)}
-                onRemoveField={(fieldId) => removeFieldFromReusableType(type.id, fieldId)}
-                onMoveField={(fieldId, direction, parentId) => handleMoveFieldInReusableType(type.id, fieldId, direction, parentId)} // Pass the new move handler
+                onAddField={addFieldToReusableType}
+                onRemoveField={removeFieldFromReusableType}
+                onMoveField={handleMoveFieldInReusableType}
                 isRoot={true} // Treat reusable types as root for their own editing context
                 level={0}
                 activeAdvancedFieldId={activeAdvancedFieldId}
                 setActiveAdvancedFieldId={setActiveAdvancedFieldId}
-                reusableTypes={reusableTypes} // Pass reusable types for nested refs
-                hideRefTypeOption={true} // Hide 'ref' type option for fields within reusable types
+                reusableTypes={reusableTypes} // Properties may reference any type, including their own
+                outputProfile={outputProfile}
               />
             </div>
           ))}
@@ -0,0 +1,137 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { CustomCollapsibleContent } from "@/components/CustomCollapsibleContent";
+import { ChevronDown, ChevronUp, X } from "lucide-react";
+import FieldTypeIcon from "./FieldTypeIcon";
+import { SchemaField } from "./FieldEditor";
+import { getBaseTypes, getInheritedFields } from "@/utils/schemaFieldTree";
+
+interface ReusableTypeInheritanceProps {
+  reusableType: SchemaField;
+  reusableTypes: SchemaField[];
+  onFieldChange: (field: SchemaField) => void;
+}
+
+// Lets a reusable object type extend other reusable types and lists the fields it inherits
+const ReusableTypeInheritance: React.FC<ReusableTypeInheritanceProps> = ({
+  reusableType,
+  reusableTypes,
+  onFieldChange,
+}) => {
+  const [isInheritedOpen, setIsInheritedOpen] = React.useState(false);
+
+  const extendsIds = reusableType.extendsIds || [];
+  const baseTypes = extendsIds
+    .map((baseId) => reusableTypes.find((rt) => rt.id === baseId))
+    .filter((rt): rt is SchemaField => !!rt);
+  const inheritedFields = getInheritedFields(reusableType, reusableTypes);
+  const ownFieldNames = new Set((reusableType.children || []).map((child) => child.name));
+
+  // Only other object types that do not already inherit from this one, to avoid cycles
+  const candidateTypes = reusableTypes.filter((rt) =>
+    rt.id !== reusableType.id &&
+    rt.type === "object" &&
+    !extendsIds.includes(rt.id) &&
+    !getBaseTypes(rt, reusableTypes).some((base) => base.id === reusableType.id)
+  );
+
+  const handleAddBaseType = (baseId: string) => {
+    onFieldChange({ ...reusableType, extendsIds: [...extendsIds, baseId] });
+  };
+
+  const handleRemoveBaseType = (baseId: string) => {
+    const remainingIds = extendsIds.filter((id) => id !== baseId);
+    onFieldChange({ ...reusableType, extendsIds: remainingIds.length > 0 ? remainingIds : undefined });
+  };
+
+  if (baseTypes.length === 0 && candidateTypes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="grid gap-2">
+        <Label htmlFor={`extends-${reusableType.id}`}>Extends</Label>
+        {baseTypes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {baseTypes.map((baseType) => (
+              <Badge key={baseType.id} variant="secondary" className="gap-1">
+                {baseType.name}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveBaseType(baseType.id)}
+                  className="rounded-full hover:text-red-500"
+                  aria-label={`Stop extending ${baseType.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        {candidateTypes.length > 0 && (
+          <Select value="" onValueChange={handleAddBaseType}>
+            <SelectTrigger id={`extends-${reusableType.id}`}>
+              <SelectValue placeholder="Inherit fields from another type..." />
+            </SelectTrigger>
+            <SelectContent>
+              {candidateTypes.map((rt) => (
+                <SelectItem key={rt.id} value={rt.id}>
+                  {rt.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {inheritedFields.length > 0 && (
+        <Collapsible open={isInheritedOpen} onOpenChange={setIsInheritedOpen}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-start px-2">
+              {isInheritedOpen ? (
+                <ChevronUp className="h-4 w-4 mr-2" />
+              ) : (
+                <ChevronDown className="h-4 w-4 mr-2" />
+              )}
+              <span className="text-sm font-semibold">Inherited Fields ({inheritedFields.length})</span>
+            </Button>
+          </CollapsibleTrigger>
+          <CustomCollapsibleContent className="space-y-1 px-2">
+            {inheritedFields.map(({ field, baseType }) => (
+              <div
+                key={`${baseType.id}-${field.id}`}
+                className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm text-muted-foreground"
+              >
+                <FieldTypeIcon type={field.type} className="h-4 w-4" />
+                <span className="font-medium text-foreground">{field.name || "Unnamed Field"}</span>
+                <span className="text-xs">from {baseType.name}</span>
+                {ownFieldNames.has(field.name) && (
+                  <span className="text-xs text-yellow-600 dark:text-yellow-400">(also declared below; both definitions apply)</span>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-1">
+              Inherited fields are read-only here. Edit them on the type that declares them.
+            </p>
+          </CustomCollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
+
+export default ReusableTypeInheritance;
@@ -19,7 +19,7 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-import { SchemaField } from "./FieldEditor";
+import { SchemaField, SchemaSettings } from "./FieldEditor";
 import { convertFullJsonSchemaToSchemaFieldsAndReusableTypes } from "@/utils/schemaConverter";
 import LoadingSpinner from "./LoadingSpinner";
 import LLMConfigInputs from "./LLMConfigInputs"; // Import the new component
@@ -27,7 +27,7 @@ import LLMConfigInputs from "./LLMConfigInputs"; // Import the new component
 interface SchemaAIGenerateDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  onSchemaGenerated: (mainFields: SchemaField[], reusableTypes: SchemaField[]) => void;
+  onSchemaGenerated: (mainFields: SchemaField[], reusableTypes: SchemaField[], settings: SchemaSettings) => void;
 }
 
 type LLMProvider = "openai" | "gemini" | "mistral" | "openrouter";
@@ -233,8 +233,8 @@ const SchemaAIGenerateDialog: React.FC<SchemaAIGenerateDialogProps> = ({
         try {
           parsedSchema = typeof generatedContent === 'string' ? JSON.parse(generatedContent) : generatedContent;
           
-          const { mainFields, reusableTypes } = convertFullJsonSchemaToSchemaFieldsAndReusableTypes(parsedSchema);
-          onSchemaGenerated(mainFields, reusableTypes);
+          const { mainFields, reusableTypes, settings } = convertFullJsonSchemaToSchemaFieldsAndReusableTypes(parsedSchema);
+          onSchemaGenerated(mainFields, reusableTypes, settings);
           showSuccess("Schema generated successfully!");
         } catch (parseError) {
           console.error("Failed to parse generated content as JSON:", parseError);
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { SchemaField } from "./FieldEditor";
+import { SchemaField, SchemaSettings } from "./FieldEditor";
 import ManageReusableTypes from "./ManageReusableTypes";
 import { v4 as uuidv4 } from "uuid";
 import {
@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/dialog";
 import { showSuccess, showError } from "@/utils/toast";
 import { convertFullJsonSchemaToSchemaFieldsAndReusableTypes } from "@/utils/schemaConverter";
+import { findFieldById, mapNestedFieldLists, migrateLegacyExamples, updateFieldInTree } from "@/utils/schemaFieldTree";
 
 // Import new components
 import SchemaBuilderToolbar from "./SchemaBuilderToolbar";
@@ -23,16 +24,23 @@ import SchemaMergeReplaceConfirmation from "./SchemaMergeReplaceConfirmation";
 import FieldRefineDialog from "./FieldRefineDialog";
 import SchemaFieldList from "./SchemaFieldList";
 import ReusableTypeNameDialog from "./ReusableTypeNameDialog"; // Import the new dialog
+import FieldConditionalRules from "./FieldConditionalRules";
+import FieldPropertyDependencies from "./FieldPropertyDependencies";
+import FieldObjectOptions from "./FieldObjectOptions";
+import SchemaOutputProfile from "./SchemaOutputProfile";
+import FieldExtensions from "./FieldExtensions";
 
 interface SchemaBuilderProps {}
 
 const LOCAL_STORAGE_FIELDS_KEY = "jsonSchemaBuilderFields";
 const LOCAL_STORAGE_REUSABLE_TYPES_KEY = "jsonSchemaBuilderReusableTypes";
+const LOCAL_STORAGE_SETTINGS_KEY = "jsonSchemaBuilderSettings";
 const LOCAL_STORAGE_SAVED_SCHEMAS_INDEX_KEY = "jsonSchemaBuilderSavedSchemasIndex";
 
 const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   const [schemaFields, setSchemaFields] = useState<SchemaField[]>([]);
   const [reusableTypes, setReusableTypes] = useState<SchemaField[]>([]);
+  const [schemaSettings, setSchemaSettings] = useState<SchemaSettings>({});
   const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
@@ -52,6 +60,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   const [isMergeReplaceConfirmOpen, setIsMergeReplaceConfirmOpen] = useState(false);
   const [pendingGeneratedFields, setPendingGeneratedFields] = useState<SchemaField[]>([]);
   const [pendingGeneratedReusableTypes, setPendingGeneratedReusableTypes] = useState<SchemaField[]>([]);
+  const [pendingGeneratedSettings, setPendingGeneratedSettings] = useState<SchemaSettings>({});
 
   // New states for Field Refinement
   const [isFieldRefineDialogOpen, setIsFieldRefineDialogOpen] = useState(false);
@@ -68,16 +77,18 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [initialSchemaFields, setInitialSchemaFields] = useState<string>("");
   const [initialReusableTypes, setInitialReusableTypes] = useState<string>("");
+  const [initialSchemaSettings, setInitialSchemaSettings] = useState<string>(JSON.stringify({}));
 
   // Load schema and reusable types from local storage on initial mount
   useEffect(() => {
     const savedSchema = localStorage.getItem(LOCAL_STORAGE_FIELDS_KEY);
     const savedReusableTypes = localStorage.getItem(LOCAL_STORAGE_REUSABLE_TYPES_KEY);
+    const savedSettings = localStorage.getItem(LOCAL_STORAGE_SETTINGS_KEY);
     const savedNames = localStorage.getItem(LOCAL_STORAGE_SAVED_SCHEMAS_INDEX_KEY);
 
     if (savedSchema) {
       try {
-        const parsedSchema = JSON.parse(savedSchema);
+        const parsedSchema = migrateLegacyExamples(JSON.parse(savedSchema));
         setSchemaFields(parsedSchema);
         setInitialSchemaFields(JSON.stringify(parsedSchema));
       } catch (e) {
@@ -87,7 +98,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     }
     if (savedReusableTypes) {
       try {
-        const parsedReusableTypes = JSON.parse(savedReusableTypes);
+        const parsedReusableTypes = migrateLegacyExamples(JSON.parse(savedReusableTypes));
         setReusableTypes(parsedReusableTypes);
         setInitialReusableTypes(JSON.stringify(parsedReusableTypes));
       } catch (e) {
@@ -95,6 +106,16 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
         showError("Failed to load saved reusable types. It might be corrupted.");
       }
     }
+    if (savedSettings) {
+      try {
+        const parsedSettings = JSON.parse(savedSettings);
+        setSchemaSettings(parsedSettings);
+        setInitialSchemaSettings(JSON.stringify(parsedSettings));
+      } catch (e) {
+        console.error("Failed to parse saved schema settings from local storage:", e);
+        showError("Failed to load saved schema settings. They might be corrupted.");
+      }
+    }
 
     if (savedNames) {
       try {
@@ -120,6 +141,12 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     }
   }, [reusableTypes, initialLoadComplete]);
 
+  useEffect(() => {
+    if (initialLoadComplete) { // Only autosave after initial load
+      localStorage.setItem(LOCAL_STORAGE_SETTINGS_KEY, JSON.stringify(schemaSettings));
+    }
+  }, [schemaSettings, initialLoadComplete]);
+
   // Save the index of saved schema names
   useEffect(() => {
     localStorage.setItem(LOCAL_STORAGE_SAVED_SCHEMAS_INDEX_KEY, JSON.stringify(savedSchemaNames));
@@ -128,14 +155,17 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   // Determine if there are unsaved changes
   const hasUnsavedChanges = initialLoadComplete && (
     JSON.stringify(schemaFields) !== initialSchemaFields ||
-    JSON.stringify(reusableTypes) !== initialReusableTypes
+    JSON.stringify(reusableTypes) !== initialReusableTypes ||
+    JSON.stringify(schemaSettings) !== initialSchemaSettings
   );
 
   const handleClearSchema = useCallback(() => {
     setSchemaFields([]);
     setReusableTypes([]); // Also clear reusable types
+    setSchemaSettings({});
     setInitialSchemaFields(JSON.stringify([])); // Reset initial state
     setInitialReusableTypes(JSON.stringify([])); // Reset initial state
+    setInitialSchemaSettings(JSON.stringify({}));
     showSuccess("Schema cleared successfully!");
     setIsClearConfirmOpen(false);
   }, []);
@@ -143,17 +173,20 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   const handleImportSchema = useCallback(() => {
     try {
       const parsedJson = JSON.parse(importJsonInput);
-      const { mainFields, reusableTypes: importedReusableTypes } = convertFullJsonSchemaToSchemaFieldsAndReusableTypes(parsedJson);
+      const { mainFields, reusableTypes: importedReusableTypes, settings: importedSettings } = convertFullJsonSchemaToSchemaFieldsAndReusableTypes(parsedJson);
       
       if (schemaFields.length > 0 || reusableTypes.length > 0) {
         setPendingGeneratedFields(mainFields);
         setPendingGeneratedReusableTypes(importedReusableTypes);
+        setPendingGeneratedSettings(importedSettings);
         setIsMergeReplaceConfirmOpen(true);
       } else {
         setSchemaFields(mainFields);
         setReusableTypes(importedReusableTypes);
+        setSchemaSettings(importedSettings);
         setInitialSchemaFields(JSON.stringify(mainFields));
         setInitialReusableTypes(JSON.stringify(importedReusableTypes));
+        setInitialSchemaSettings(JSON.stringify(importedSettings));
         showSuccess("JSON schema imported successfully!");
         setIsImportDialogOpen(false);
         setImportJsonInput("");
@@ -177,6 +210,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     try {
       localStorage.setItem(`dyad_schema_${saveSchemaName.trim()}_fields`, JSON.stringify(schemaFields));
       localStorage.setItem(`dyad_schema_${saveSchemaName.trim()}_reusableTypes`, JSON.stringify(reusableTypes));
+      localStorage.setItem(`dyad_schema_${saveSchemaName.trim()}_settings`, JSON.stringify(schemaSettings));
       const updatedNames = [...savedSchemaNames, saveSchemaName.trim()];
       setSavedSchemaNames(updatedNames);
       localStorage.setItem(LOCAL_STORAGE_SAVED_SCHEMAS_INDEX_KEY, JSON.stringify(updatedNames));
@@ -184,6 +218,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
       // Update initial state to reflect saved changes
       setInitialSchemaFields(JSON.stringify(schemaFields));
       setInitialReusableTypes(JSON.stringify(reusableTypes));
+      setInitialSchemaSettings(JSON.stringify(schemaSettings));
 
       showSuccess(`Schema "${saveSchemaName.trim()}" saved successfully!`);
       setIsSaveDialogOpen(false);
@@ -192,7 +227,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
       console.error("Failed to save schema by name:", error);
       showError("Failed to save schema. Please try again.");
     }
-  }, [saveSchemaName, savedSchemaNames, schemaFields, reusableTypes]);
+  }, [saveSchemaName, savedSchemaNames, schemaFields, reusableTypes, schemaSettings]);
 
   const handleLoadSchemaByName = useCallback(() => {
     if (!selectedLoadSchemaName) {
@@ -203,9 +238,11 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     try {
       const loadedFields = localStorage.getItem(`dyad_schema_${selectedLoadSchemaName}_fields`);
       const loadedReusableTypes = localStorage.getItem(`dyad_schema_${selectedLoadSchemaName}_reusableTypes`);
+      const loadedSettings = localStorage.getItem(`dyad_schema_${selectedLoadSchemaName}_settings`);
 
       let newFields: SchemaField[] = [];
       let newReusableTypes: SchemaField[] = [];
+      const newSettings: SchemaSettings = loadedSettings ? JSON.parse(loadedSettings) : {};
 
       if (loadedFields) {
         newFields = JSON.parse(loadedFields);
@@ -220,10 +257,12 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
       } else {
         setReusableTypes([]);
       }
+      setSchemaSettings(newSettings);
 
       // Update initial state to reflect loaded schema
       setInitialSchemaFields(JSON.stringify(newFields));
       setInitialReusableTypes(JSON.stringify(newReusableTypes));
+      setInitialSchemaSettings(JSON.stringify(newSettings));
 
       showSuccess(`Schema "${selectedLoadSchemaName}" loaded successfully!`);
       setIsLoadDialogOpen(false);
@@ -238,6 +277,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     try {
       localStorage.removeItem(`dyad_schema_${nameToDelete}_fields`);
       localStorage.removeItem(`dyad_schema_${nameToDelete}_reusableTypes`);
+      localStorage.removeItem(`dyad_schema_${nameToDelete}_settings`);
       const updatedNames = savedSchemaNames.filter((name) => name !== nameToDelete);
       setSavedSchemaNames(updatedNames);
       localStorage.setItem(LOCAL_STORAGE_SAVED_SCHEMAS_INDEX_KEY, JSON.stringify(updatedNames));
@@ -248,37 +288,19 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     }
   }, [savedSchemaNames]);
 
-  // Helper function to deep copy a SchemaField, generating new IDs for all children
+  // Helper function to deep copy a SchemaField, generating new IDs for all nested fields
   const deepCopyField = useCallback((field: SchemaField): SchemaField => {
     const newField: SchemaField = {
       ...field,
       id: uuidv4(), // Generate a new ID for the copied field
       parentId: undefined, // Clear parentId as it's now a root of a reusable type
     };
-    // Recursively copy children if it's an object type
-    if (newField.type === "object" && newField.children) {
-      newField.children = newField.children.map(deepCopyField);
-    } else {
+    if (newField.type !== "object") {
       // Explicitly set children to undefined for non-object types
       newField.children = undefined;
     }
-    return newField;
-  }, []);
-
-  // Helper to find a field by ID recursively in the schemaFields tree
-  const findFieldById = useCallback((fields: SchemaField[], id: string): SchemaField | null => {
-    for (const field of fields) {
-      if (field.id === id) {
-        return field;
-      }
-      if (field.type === "object" && field.children) {
-        const found = findFieldById(field.children, id);
-        if (found) {
-          return found;
-        }
-      }
-    }
-    return null;
+    // Recursively copy nested fields (object properties, union variants, tuple positions, map values)
+    return mapNestedFieldLists(newField, (nested) => nested.map(deepCopyField));
   }, []);
 
   // Function to initiate the conversion process by opening the naming dialog
@@ -290,7 +312,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
     } else {
       showError("Could not find the field to convert.");
     }
-  }, [schemaFields, findFieldById]);
+  }, [schemaFields]);
 
   // Function to perform the actual conversion after naming
   const handleConfirmConvertToReusableType = useCallback((reusableTypeName: string) => {
@@ -326,50 +348,57 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
       type: "ref", // Change type to 'ref'
       refId: newReusableType.id, // Link to the newly created reusable type
       children: undefined, // A reference field does not have children directly
+      variants: undefined,
+      unionMode: undefined,
+      mapValue: undefined,
+      keyPattern: undefined,
+      tupleItems: undefined,
+      additionalItems: undefined,
+      additionalPropertiesMode: undefined,
+      additionalPropertiesType: undefined,
+      minProperties: undefined,
+      maxProperties: undefined,
+      dependencies: undefined,
       // Clear other properties that don't apply to a ref type
       minValue: undefined,
       maxValue: undefined,
       minItems: undefined,
       maxItems: undefined,
+      uniqueItems: undefined,
+      innerArrays: undefined,
+      contains: undefined,
       currency: undefined,
-      example: undefined,
+      earliest: undefined,
+      latest: undefined,
+      requireTimezone: undefined,
+      mediaTypes: undefined,
+      maxFileSize: undefined,
+      examples: undefined,
       description: undefined,
       // Keep original title/name for display in the main schema
       // isMultiple and isRequired should be kept from the original field, as they apply to the *reference* itself
       // e.g., an array of references, or a required reference.
     };
 
-    // Function to update the field in the schemaFields tree
-    const updateFieldInSchema = (fields: SchemaField[]): SchemaField[] => {
-      return fields.map((field) => {
-        if (field.id === fieldToConvertForNaming.id) {
-          return updatedOriginalField;
-        } else if (field.type === "object" && field.children) {
-          return {
-            ...field,
-            children: updateFieldInSchema(field.children),
-          };
-        }
-        return field;
-      });
-    };
-
-    setSchemaFields(updateFieldInSchema(schemaFields));
+    setSchemaFields(updateFieldInTree(schemaFields, updatedOriginalField));
     showSuccess(`Field "${fieldToConvertForNaming.name}" converted to reusable type "${newReusableType.name}"!`);
     setFieldToConvertForNaming(null); // Clear the field after conversion
   }, [fieldToConvertForNaming, reusableTypes, schemaFields, deepCopyField]);
 
 
-  const handleAIGeneratedSchema = useCallback((mainFields: SchemaField[], newReusableTypes: SchemaField[]) => {
+  const handleAIGeneratedSchema = useCallback((mainFields: SchemaField[], newReusableTypes: SchemaField[], newSettings: SchemaSettings) => {
     if (schemaFields.length > 0 || reusableTypes.length > 0) {
       setPendingGeneratedFields(mainFields);
       setPendingGeneratedReusableTypes(newReusableTypes);
+      setPendingGeneratedSettings(newSettings);
       setIsMergeReplaceConfirmOpen(true);
     } else {
       setSchemaFields(mainFields);
       setReusableTypes(newReusableTypes);
+      setSchemaSettings(newSettings);
       setInitialSchemaFields(JSON.stringify(mainFields));
       setInitialReusableTypes(JSON.stringify(newReusableTypes));
+      setInitialSchemaSettings(JSON.stringify(newSettings));
       showSuccess("Schema generated and applied!");
     }
   }, [schemaFields, reusableTypes]);
@@ -377,13 +406,16 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   const handleReplaceSchema = useCallback(() => {
     setSchemaFields(pendingGeneratedFields);
     setReusableTypes(pendingGeneratedReusableTypes);
+    setSchemaSettings(pendingGeneratedSettings);
     setInitialSchemaFields(JSON.stringify(pendingGeneratedFields));
     setInitialReusableTypes(JSON.stringify(pendingGeneratedReusableTypes));
+    setInitialSchemaSettings(JSON.stringify(pendingGeneratedSettings));
     showSuccess("Schema replaced successfully!");
     setIsMergeReplaceConfirmOpen(false);
     setPendingGeneratedFields([]);
     setPendingGeneratedReusableTypes([]);
-  }, [pendingGeneratedFields, pendingGeneratedReusableTypes]);
+    setPendingGeneratedSettings({});
+  }, [pendingGeneratedFields, pendingGeneratedReusableTypes, pendingGeneratedSettings]);
 
   const handleMergeSchema = useCallback(() => {
     // Merge main fields
@@ -396,16 +428,33 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
       mergedReusableTypesMap.set(rt.name, rt);
     });
     const mergedReusableTypes = Array.from(mergedReusableTypesMap.values());
+    // Keep both sets of root rules and dependencies, and the root extensions, existing ones winning on name clashes
+    const mergedRules = [...(schemaSettings.rules || []), ...(pendingGeneratedSettings.rules || [])];
+    const mergedDependencies = [...(schemaSettings.dependencies || []), ...(pendingGeneratedSettings.dependencies || [])];
+    const existingExtensionNames = new Set((schemaSettings.extensions || []).map((extension) => extension.name));
+    const mergedExtensions = [
+      ...(schemaSettings.extensions || []),
+      ...(pendingGeneratedSettings.extensions || []).filter((extension) => !existingExtensionNames.has(extension.name)),
+    ];
+    const mergedSettings: SchemaSettings = {
+      ...schemaSettings,
+      rules: mergedRules.length > 0 ? mergedRules : undefined,
+      dependencies: mergedDependencies.length > 0 ? mergedDependencies : undefined,
+      extensions: mergedExtensions.length > 0 ? mergedExtensions : undefined,
+    };
 
     setSchemaFields(mergedFields);
     setReusableTypes(mergedReusableTypes);
+    setSchemaSettings(mergedSettings);
     setInitialSchemaFields(JSON.stringify(mergedFields));
     setInitialReusableTypes(JSON.stringify(mergedReusableTypes));
+    setInitialSchemaSettings(JSON.stringify(mergedSettings));
     showSuccess("Schema merged successfully!");
     setIsMergeReplaceConfirmOpen(false);
     setPendingGeneratedFields([]);
     setPendingGeneratedReusableTypes([]);
-  }, [schemaFields, reusableTypes, pendingGeneratedFields, pendingGeneratedReusableTypes]);
+    setPendingGeneratedSettings({});
+  }, [schemaFields, reusableTypes, schemaSettings, pendingGeneratedFields, pendingGeneratedReusableTypes, pendingGeneratedSettings]);
 
   const handleRefineFieldWithAI = useCallback((field: SchemaField) => {
     setFieldToRefine(field);
@@ -413,21 +462,9 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
   }, []);
 
   const handleFieldRefined = useCallback((refinedField: SchemaField) => {
-    const updateFields = (fields: SchemaField[]): SchemaField[] => {
-      return fields.map((field) => {
-        if (field.id === refinedField.id) {
-          return refinedField;
-        } else if (field.type === "object" && field.children) {
-          return {
-            ...field,
-            children: updateFields(field.children),
-          };
-        }
-        return field;
-      });
-    };
-    setSchemaFields(updateFields(schemaFields));
-    setInitialSchemaFields(JSON.stringify(updateFields(schemaFields))); // Update initial state
+    const updatedFields = updateFieldInTree(schemaFields, refinedField);
+    setSchemaFields(updatedFields);
+    setInitialSchemaFields(JSON.stringify(updatedFields)); // Update initial state
     setIsFieldRefineDialogOpen(false);
     setFieldToRefine(null);
   }, [schemaFields]);
@@ -471,16 +508,71 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
             />
           </div>
 
+          <SchemaOutputProfile
+            profile={schemaSettings.outputProfile || "llm-strict"}
+            onProfileChange={(outputProfile) =>
+              setSchemaSettings((prev) => ({ ...prev, outputProfile: outputProfile === "llm-strict" ? undefined : outputProfile }))
+            }
+          />
+
           <SchemaFieldList
             schemaFields={schemaFields}
             setSchemaFields={setSchemaFields}
             reusableTypes={reusableTypes}
+            outputProfile={schemaSettings.outputProfile || "llm-strict"}
             onManageReusableTypes={() => setIsManageTypesOpen(true)}
             onConvertToReusableType={handleInitiateConvertToReusableType} 
             onRefineFieldWithAI={handleRefineFieldWithAI}
             onAIGenerateSchemaTrigger={() => setIsAIGenerateDialogOpen(true)}
           />
 
+          {(schemaFields.length > 1 || (schemaSettings.rules?.length || 0) > 0) && (
+            <div className="border rounded-md p-4">
+              <FieldConditionalRules
+                rules={schemaSettings.rules || []}
+                fields={schemaFields}
+                onRulesChange={(rules) => setSchemaSettings((prev) => ({ ...prev, rules }))}
+                idPrefix="root"
+              />
+            </div>
+          )}
+
+          {(schemaFields.length > 1 || (schemaSettings.dependencies?.length || 0) > 0) && (
+            <div className="border rounded-md p-4">
+              <FieldPropertyDependencies
+                dependencies={schemaSettings.dependencies || []}
+                fields={schemaFields}
+                onDependenciesChange={(dependencies) => setSchemaSettings((prev) => ({ ...prev, dependencies }))}
+                idPrefix="root"
+              />
+            </div>
+          )}
+
+          {schemaFields.length > 0 && (
+            <div className="border rounded-md p-4">
+              <FieldObjectOptions
+                options={schemaSettings}
+                onOptionsChange={(options) => setSchemaSettings((prev) => ({ ...prev, ...options }))}
+                idPrefix="root"
+                level={0}
+                reusableTypes={reusableTypes}
+                outputProfile={schemaSettings.outputProfile || "llm-strict"}
+                hideRefTypeOption={false}
+                onManageReusableTypes={() => setIsManageTypesOpen(true)}
+              />
+            </div>
+          )}
+
+          {(schemaFields.length > 0 || (schemaSettings.extensions?.length || 0) > 0) && (
+            <div className="border rounded-md p-4">
+              <FieldExtensions
+                extensions={schemaSettings.extensions || []}
+                onExtensionsChange={(extensions) => setSchemaSettings((prev) => ({ ...prev, extensions }))}
+                idPrefix="root"
+              />
+            </div>
+          )}
+
           {/* Dialogs for various actions */}
           <SchemaImportDialog
             isOpen={isImportDialogOpen}
@@ -495,6 +587,8 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
             onOpenChange={setIsExportDialogOpen}
             schemaFields={schemaFields}
             reusableTypes={reusableTypes}
+            schemaSettings={schemaSettings}
+            onSchemaSettingsChange={setSchemaSettings}
             initialTab={exportDialogInitialTab} // Pass the initial tab
           />
 
@@ -515,6 +609,7 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
               <ManageReusableTypes
                 reusableTypes={reusableTypes}
                 setReusableTypes={setReusableTypes}
+                outputProfile={schemaSettings.outputProfile || "llm-strict"}
                 onClose={() => setIsManageTypesOpen(false)}
               />
             </DialogContent>
@@ -535,8 +630,10 @@ const SchemaBuilder: React.FC<SchemaBuilderProps> = () => {
             setSavedSchemaNames={setSavedSchemaNames}
             schemaFields={schemaFields}
             reusableTypes={reusableTypes}
+            schemaSettings={schemaSettings}
             setSchemaFields={setSchemaFields}
             setReusableTypes={setReusableTypes}
+            setSchemaSettings={setSchemaSettings}
             hasUnsavedChanges={hasUnsavedChanges}
           />
 
@@ -0,0 +1,57 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SchemaDraft } from "./FieldEditor";
+
+interface SchemaDraftSelectProps {
+  draft: SchemaDraft;
+  onDraftChange: (draft: SchemaDraft) => void;
+}
+
+const DRAFT_OPTIONS: { value: SchemaDraft; label: string; description: string }[] = [
+  {
+    value: "draft-07",
+    label: "Draft-07",
+    description: "Reusable types in definitions, tuples as an items list and dependencies. Accepted by most LLM providers and tools.",
+  },
+  {
+    value: "2019-09",
+    label: "Draft 2019-09",
+    description: "Reusable types in $defs, with dependentRequired and dependentSchemas instead of dependencies.",
+  },
+  {
+    value: "2020-12",
+    label: "Draft 2020-12",
+    description: "Like 2019-09, with tuples written as prefixItems. The current draft, used by OpenAPI 3.1.",
+  },
+];
+
+// Selector for the JSON Schema draft the exported schema is written for
+const SchemaDraftSelect: React.FC<SchemaDraftSelectProps> = ({ draft, onDraftChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <Label htmlFor="schema-draft">Draft</Label>
+      <Select value={draft} onValueChange={onDraftChange}>
+        <SelectTrigger id="schema-draft" className="w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DRAFT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground flex-1 min-w-[240px]">
+        {DRAFT_OPTIONS.find((option) => option.value === draft)?.description}
+      </p>
+    </div>
+  );
+};
+
+export default SchemaDraftSelect;
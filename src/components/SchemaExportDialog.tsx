@@ -7,11 +7,18 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import SchemaDisplay from "./SchemaDisplay";
-import { SchemaField } from "./FieldEditor";
+import { SchemaField, SchemaSettings } from "./FieldEditor";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import CurlCommandGenerator from "./CurlCommandGenerator";
 import { buildFullJsonSchema } from "@/utils/jsonSchemaBuilder";
+import { appendSchemaExamples } from "@/utils/schemaExamples";
+import { lintStrictModeSchema, STRICT_MODE_PROVIDERS, transformForStrictMode } from "@/utils/providerCompatibility";
+import { toGeminiResponseSchema } from "@/utils/geminiSchema";
 import SchemaFormPreview from "./SchemaFormPreview";
+import SchemaDraftSelect from "./SchemaDraftSelect";
+import SchemaOpenApiExport from "./SchemaOpenApiExport";
+import StrictModeCompatibility from "./StrictModeCompatibility";
+import GeminiSchemaWarnings from "./GeminiSchemaWarnings";
 import PythonCodeGenerator from "./PythonCodeGenerator";
 import JavaScriptCodeGenerator from "./JavaScriptCodeGenerator";
 import {
@@ -36,6 +43,8 @@ interface SchemaExportDialogProps {
   onOpenChange: (open: boolean) => void;
   schemaFields: SchemaField[];
   reusableTypes: SchemaField[];
+  schemaSettings: SchemaSettings;
+  onSchemaSettingsChange: (settings: SchemaSettings) => void;
   initialTab?: string;
 }
 
@@ -48,12 +57,15 @@ const LOCAL_STORAGE_SHARED_SYSTEM_PROMPT_KEY = "llmBuilderSharedSystemPrompt"; /
 const LOCAL_STORAGE_SELECTED_PROVIDER_KEY = "llmBuilderSelectedProvider"; // Moved from LLMConfigInputs
 const LOCAL_STORAGE_API_KEY = "llmBuilderApiKey"; // Moved from LLMConfigInputs
 const LOCAL_STORAGE_SELECTED_MODEL_KEY = "llmBuilderSelectedModel"; // Moved from LLMConfigInputs
+const LOCAL_STORAGE_STRICT_MODE_AUTO_FIX_KEY = "llmBuilderStrictModeAutoFix";
 
 const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
   isOpen,
   onOpenChange,
   schemaFields,
   reusableTypes,
+  schemaSettings,
+  onSchemaSettingsChange,
   initialTab = "json-schema",
 }) => {
   const [selectedTab, setSelectedTab] = React.useState<string>(() => {
@@ -109,6 +121,13 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
     return "You are a helpful assistant designed to output JSON data strictly according to the provided JSON schema. Do not include any additional text or markdown outside the JSON object.";
   });
 
+  const [strictModeAutoFix, setStrictModeAutoFix] = React.useState<boolean>(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem(LOCAL_STORAGE_STRICT_MODE_AUTO_FIX_KEY) === "true";
+    }
+    return false;
+  });
+
   const [isLoading, setIsLoading] = React.useState(false);
   const [isResponseModalOpen, setIsResponseModalOpen] = React.useState(false);
   const [responseJson, setResponseJson] = React.useState<string>("");
@@ -145,11 +164,34 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
     }
   }, [selectedModel]);
 
+  React.useEffect(() => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(LOCAL_STORAGE_STRICT_MODE_AUTO_FIX_KEY, String(strictModeAutoFix));
+    }
+  }, [strictModeAutoFix]);
+
   React.useEffect(() => {
     if (isOpen) {
-      setGeneratedJsonSchema(buildFullJsonSchema(schemaFields, reusableTypes));
+      setGeneratedJsonSchema(buildFullJsonSchema(schemaFields, reusableTypes, schemaSettings));
     }
-  }, [isOpen, schemaFields, reusableTypes]);
+  }, [isOpen, schemaFields, reusableTypes, schemaSettings]);
+
+  // Strict structured output only accepts part of JSON Schema: the schema sent to those providers is checked,
+  // and adapted first when the auto-fix is on
+  const isStrictModeProvider = STRICT_MODE_PROVIDERS.includes(selectedProvider);
+  const strictModeTransform = React.useMemo(() => {
+    if (!generatedJsonSchema || !isStrictModeProvider || !strictModeAutoFix) return null;
+    return transformForStrictMode(generatedJsonSchema);
+  }, [generatedJsonSchema, isStrictModeProvider, strictModeAutoFix]);
+  const requestJsonSchema = strictModeTransform ? strictModeTransform.schema : generatedJsonSchema;
+  const strictModeViolations = React.useMemo(() => {
+    if (!requestJsonSchema || !isStrictModeProvider) return [];
+    return lintStrictModeSchema(requestJsonSchema);
+  }, [requestJsonSchema, isStrictModeProvider]);
+  const geminiSchemaWarnings = React.useMemo(() => {
+    if (!generatedJsonSchema || selectedProvider !== "gemini") return [];
+    return toGeminiResponseSchema(generatedJsonSchema).warnings;
+  }, [generatedJsonSchema, selectedProvider]);
 
   React.useEffect(() => {
     if (typeof window !== "undefined") {
@@ -169,8 +211,10 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
     let endpoint = "";
     let headers: { [key: string]: string } = { "Content-Type": "application/json" };
 
+    // The field examples in the schema show the model what realistic values look like
+    const systemContent = appendSchemaExamples(currentSystemPrompt, schema);
     const messages = [
-      { role: "system", content: currentSystemPrompt },
+      { role: "system", content: systemContent },
       { role: "user", content: currentUserPrompt },
     ];
 
@@ -191,17 +235,23 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
           },
         };
         break;
-      case "gemini":
+      case "gemini": {
         endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${currentApiKey || "YOUR_GEMINI_API_KEY"}`;
+        // Gemini constrains its answer with its own subset of OpenAPI schemas rather than JSON Schema.
+        // When none of the schema can be expressed that way, the JSON Schema is given in the prompt instead.
+        const responseSchema = toGeminiResponseSchema(schema).schema;
+        const schemaText = responseSchema ? "" : `\n\nHere is the JSON Schema:\n\n${JSON.stringify(schema, null, 2)}`;
         requestBody = {
           contents: [
-            { role: "user", parts: [{ text: `${currentSystemPrompt}\n\n${currentUserPrompt}\n\nHere is the JSON Schema:\n\n${JSON.stringify(schema, null, 2)}` }] },
+            { role: "user", parts: [{ text: `${systemContent}\n\n${currentUserPrompt}${schemaText}` }] },
           ],
           generationConfig: {
             responseMimeType: "application/json",
+            ...(responseSchema ? { responseSchema } : {}),
           },
         };
         break;
+      }
       case "mistral":
         endpoint = "https://api.mistral.ai/v1/chat/completions";
         headers["Authorization"] = `Bearer ${currentApiKey || "YOUR_MISTRAL_API_KEY"}`;
@@ -258,7 +308,7 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
 
     setIsLoading(true);
 
-    const { endpoint, headers, requestBody } = getRequestDetails(selectedProvider, apiKey, selectedModel, systemPrompt, userPrompt, generatedJsonSchema);
+    const { endpoint, headers, requestBody } = getRequestDetails(selectedProvider, apiKey, selectedModel, systemPrompt, userPrompt, requestJsonSchema);
 
     if (!endpoint) {
       showError("Please select a valid LLM provider.");
@@ -329,7 +379,7 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
     setIsLoading(true);
     setIsResponseModalOpen(true);
 
-    const { endpoint, headers, requestBody } = getRequestDetails(selectedProvider, apiKey, selectedModel, systemPrompt, userPrompt, generatedJsonSchema);
+    const { endpoint, headers, requestBody } = getRequestDetails(selectedProvider, apiKey, selectedModel, systemPrompt, userPrompt, requestJsonSchema);
 
     if (!endpoint) {
       showError("Please select a valid LLM provider.");
@@ -383,23 +433,32 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
         <DialogHeader>
           <DialogTitle>Schema Tools</DialogTitle>
           <DialogDescription>
-            Export your schema, preview it as a form, or generate sample data.
+            Export your schema as JSON Schema or OpenAPI, preview it as a form, or generate sample data.
           </DialogDescription>
         </DialogHeader>
         <div className="py-4 flex-1 flex flex-col overflow-y-auto">
           <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full flex-1 flex flex-col">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="json-schema">JSON Schema</TabsTrigger>
+              <TabsTrigger value="openapi">OpenAPI</TabsTrigger>
               <TabsTrigger value="form-preview">Form Preview & Data</TabsTrigger>
               <TabsTrigger value="for-developers">For Developers</TabsTrigger>
             </TabsList>
-            <TabsContent value="json-schema" className="mt-4 flex-1">
+            <TabsContent value="json-schema" className="mt-4 flex-1 space-y-4">
+              {/* The draft is kept in the schema settings, so it is saved along with the schema */}
+              <SchemaDraftSelect
+                draft={schemaSettings.draft || "draft-07"}
+                onDraftChange={(draft) => onSchemaSettingsChange({ ...schemaSettings, draft: draft === "draft-07" ? undefined : draft })}
+              />
               {generatedJsonSchema ? (
                 <SchemaDisplay jsonSchema={generatedJsonSchema} />
               ) : (
                 <p className="text-muted-foreground text-center">Generating schema...</p>
               )}
             </TabsContent>
+            <TabsContent value="openapi" className="mt-4 flex-1">
+              <SchemaOpenApiExport schemaFields={schemaFields} reusableTypes={reusableTypes} schemaSettings={schemaSettings} />
+            </TabsContent>
             <TabsContent value="form-preview" className="mt-4 flex-1 flex flex-col">
               {/* AI Data Generation Section */}
               <div className="space-y-4 mb-6 p-4 border rounded-md bg-gray-50 dark:bg-gray-800">
@@ -415,6 +474,16 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
                   selectedModel={selectedModel}
                   setSelectedModel={setSelectedModel}
                 />
+                {isStrictModeProvider && requestJsonSchema && (
+                  <StrictModeCompatibility
+                    id="strict-mode-auto-fix-data"
+                    violations={strictModeViolations}
+                    autoFix={strictModeAutoFix}
+                    onAutoFixChange={setStrictModeAutoFix}
+                    changes={strictModeTransform?.changes}
+                  />
+                )}
+                {selectedProvider === "gemini" && <GeminiSchemaWarnings warnings={geminiSchemaWarnings} />}
 
                 <div className="grid gap-2">
                   <Label htmlFor="system-prompt-input-data">System Prompt</Label> {/* New System Prompt for Data Generation */}
@@ -460,7 +529,7 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
               {/* Form Preview Section */}
               <h3 className="text-lg font-semibold mb-4">Form Preview</h3>
               {schemaFields.length > 0 ? (
-                <SchemaFormPreview fields={schemaFields} reusableTypes={reusableTypes} formData={generatedFormData} />
+                <SchemaFormPreview fields={schemaFields} reusableTypes={reusableTypes} outputProfile={schemaSettings.outputProfile || "llm-strict"} formData={generatedFormData} rules={schemaSettings.rules} dependencies={schemaSettings.dependencies} />
               ) : (
                 <p className="text-muted-foreground text-center">
                   Add some fields to see a preview.
@@ -477,6 +546,16 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
                   selectedModel={selectedModel}
                   setSelectedModel={setSelectedModel}
                 />
+                {isStrictModeProvider && requestJsonSchema && (
+                  <StrictModeCompatibility
+                    id="strict-mode-auto-fix"
+                    violations={strictModeViolations}
+                    autoFix={strictModeAutoFix}
+                    onAutoFixChange={setStrictModeAutoFix}
+                    changes={strictModeTransform?.changes}
+                  />
+                )}
+                {selectedProvider === "gemini" && <GeminiSchemaWarnings warnings={geminiSchemaWarnings} />}
 
                 <div className="grid gap-2">
                   <Label htmlFor="system-prompt-input">System Prompt</Label> {/* New System Prompt for For Developers tab */}
@@ -541,13 +620,13 @@ const SchemaExportDialog: React.FC<SchemaExportDialogProps> = ({
               {generatedJsonSchema ? (
                 <>
                   {selectedDevExportType === "curl-command" && (
-                    <CurlCommandGenerator jsonSchema={generatedJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} userPrompt={userPrompt} systemPrompt={systemPrompt} />
+                    <CurlCommandGenerator jsonSchema={requestJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} userPrompt={userPrompt} systemPrompt={systemPrompt} />
                   )}
                   {selectedDevExportType === "python-code" && (
-                    <PythonCodeGenerator jsonSchema={generatedJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} />
+                    <PythonCodeGenerator jsonSchema={requestJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} />
                   )}
                   {selectedDevExportType === "javascript-code" && (
-                    <JavaScriptCodeGenerator jsonSchema={generatedJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} />
+                    <JavaScriptCodeGenerator jsonSchema={requestJsonSchema} selectedProvider={selectedProvider} apiKey={apiKey} />
                   )}
                 </>
               ) : (
@@ -1,7 +1,7 @@
 import React, { useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { PlusCircle } from "lucide-react";
-import { SchemaField } from "./FieldEditor";
+import { OutputProfile, SchemaField } from "./FieldEditor";
 import SortableFieldEditor from "./SortableFieldEditor";
 import { v4 as uuidv4 } from "uuid";
 import {
@@ -18,13 +18,20 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
-import { arrayMove } from "@dnd-kit/sortable";
+import {
+  addFieldToTree,
+  moveFieldInTree,
+  removeFieldFromTree,
+  reorderFieldInTree,
+  updateFieldInTree,
+} from "@/utils/schemaFieldTree";
 import GenerateSchemaPromptCard from "./GenerateSchemaPromptCard";
 
 interface SchemaFieldListProps {
   schemaFields: SchemaField[];
   setSchemaFields: React.Dispatch<React.SetStateAction<SchemaField[]>>;
   reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
   onManageReusableTypes: () => void;
   onConvertToReusableType: (fieldId: string) => void;
   onRefineFieldWithAI: (field: SchemaField) => void;
@@ -35,6 +42,7 @@ const SchemaFieldList: React.FC<SchemaFieldListProps> = ({
   schemaFields,
   setSchemaFields,
   reusableTypes,
+  outputProfile,
   onManageReusableTypes,
   onConvertToReusableType,
   onRefineFieldWithAI,
@@ -58,158 +66,30 @@ const SchemaFieldList: React.FC<SchemaFieldListProps> = ({
     };
 
     if (parentId) {
-      setSchemaFields((prevFields) =>
-        prevFields.map((field) =>
-          field.id === parentId
-            ? {
-                ...field,
-                children: field.children ? [...field.children, newField] : [newField],
-              }
-            : field.type === "object" && field.children
-            ? { ...field, children: addNestedField(field.children, parentId, newField) }
-            : field,
-        ),
-      );
+      setSchemaFields((prevFields) => addFieldToTree(prevFields, parentId, newField));
     } else {
       setSchemaFields((prevFields) => [...prevFields, newField]);
     }
   }, [setSchemaFields]);
 
-  const addNestedField = useCallback((
-    fields: SchemaField[],
-    parentId: string,
-    newField: SchemaField,
-  ): SchemaField[] => {
-    return fields.map((field) => {
-      if (field.id === parentId) {
-        return {
-          ...field,
-          children: field.children ? [...field.children, newField] : [newField],
-        };
-      } else if (field.type === "object" && field.children) {
-        return {
-          ...field,
-          children: addNestedField(field.children, parentId, newField),
-        };
-      }
-      return field;
-    });
-  }, []);
-
   const handleFieldChange = useCallback((updatedField: SchemaField) => {
-    const updateFields = (fields: SchemaField[]): SchemaField[] => {
-      return fields.map((field) => {
-        if (field.id === updatedField.id) {
-          return updatedField;
-        } else if (field.type === "object" && field.children) {
-          return {
-            ...field,
-            children: updateFields(field.children),
-          };
-        }
-        return field;
-      });
-    };
-    setSchemaFields(updateFields(schemaFields));
+    setSchemaFields(updateFieldInTree(schemaFields, updatedField));
   }, [schemaFields, setSchemaFields]);
 
   const removeField = useCallback((fieldId: string) => {
-    const filterFields = (fields: SchemaField[]): SchemaField[] => {
-      return fields.filter((field) => {
-        if (field.id === fieldId) {
-          return false;
-        }
-        if (field.type === "object" && field.children) {
-          field.children = filterFields(field.children);
-        }
-        return true;
-      });
-    };
-    setSchemaFields(filterFields(schemaFields));
+    setSchemaFields(removeFieldFromTree(schemaFields, fieldId));
   }, [schemaFields, setSchemaFields]);
 
-  const findParentAndReorder = useCallback((
-    fields: SchemaField[],
-    activeId: string,
-    overId: string,
-  ): SchemaField[] => {
-    for (let i = 0; i < fields.length; i++) {
-      const field = fields[i];
-      if (field.id === activeId || field.id === overId) {
-        const oldIndex = fields.findIndex((f) => f.id === activeId);
-        const newIndex = fields.findIndex((f) => f.id === overId);
-        if (oldIndex !== -1 && newIndex !== -1) {
-          return arrayMove(fields, oldIndex, newIndex);
-        }
-      }
-      if (field.type === "object" && field.children) {
-        const reorderedChildren = findParentAndReorder(
-          field.children,
-          activeId,
-          overId,
-        );
-        if (reorderedChildren !== field.children) {
-          return fields.map((f) =>
-            f.id === field.id ? { ...f, children: reorderedChildren } : f,
-          );
-        }
-      }
-    }
-    return fields;
-  }, []);
-
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active, over } = event;
 
     if (active.id !== over?.id) {
-      setSchemaFields((prevFields) => {
-        const updatedFields = findParentAndReorder(prevFields, active.id as string, over?.id as string);
-        return updatedFields;
-      });
+      setSchemaFields((prevFields) => reorderFieldInTree(prevFields, active.id as string, over?.id as string));
     }
-  }, [findParentAndReorder, setSchemaFields]);
-
-  const moveField = useCallback((fieldId: string, direction: "up" | "down", parentId?: string) => {
-    const updateFields = (fields: SchemaField[]): SchemaField[] => {
-      const index = fields.findIndex(f => f.id === fieldId);
-      if (index === -1) {
-        return fields.map(f => {
-          if (f.type === "object" && f.children) {
-            return { ...f, children: updateFields(f.children) };
-          }
-          return f;
-        });
-      }
-
-      let newIndex = index;
-      if (direction === "up") {
-        newIndex = Math.max(0, index - 1);
-      } else {
-        newIndex = Math.min(fields.length - 1, index + 1);
-      }
-
-      if (newIndex === index) return fields;
-
-      return arrayMove(fields, index, newIndex);
-    };
+  }, [setSchemaFields]);
 
-    setSchemaFields((prevFields) => {
-      if (parentId) {
-        const findAndMoveInNested = (currentFields: SchemaField[]): SchemaField[] => {
-          return currentFields.map(field => {
-            if (field.id === parentId && field.type === "object" && field.children) {
-              return { ...field, children: updateFields(field.children) };
-            } else if (field.type === "object" && field.children) {
-              return { ...field, children: findAndMoveInNested(field.children) };
-            }
-            return field;
-          });
-        };
-        return findAndMoveInNested(prevFields);
-      } else {
-        return updateFields(prevFields);
-      }
-    });
+  const moveField = useCallback((fieldId: string, direction: "up" | "down") => {
+    setSchemaFields((prevFields) => moveFieldInTree(prevFields, fieldId, direction));
   }, [setSchemaFields]);
 
   return (
@@ -236,6 +116,7 @@ const SchemaFieldList: React.FC<SchemaFieldListProps> = ({
                   onRemoveField={removeField}
                   onMoveField={moveField}
                   reusableTypes={reusableTypes}
+                  outputProfile={outputProfile}
                   isFirst={index === 0}
                   isLast={index === schemaFields.length - 1}
                   onManageReusableTypes={onManageReusableTypes}
@@ -1,5 +1,5 @@
 import React from "react";
-import { SchemaField, SchemaFieldType } from "./FieldEditor";
+import { ConditionalRule, ContainsCondition, OutputProfile, PropertyDependency, SchemaField, SchemaFieldType } from "./FieldEditor";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import {
@@ -10,13 +10,25 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch"; // Import Switch for boolean type
+import { Button } from "@/components/ui/button";
+import { PlusCircle, Trash2 } from "lucide-react";
 import { cn, toTitleCase } from "@/lib/utils";
+import { getInheritedFields } from "@/utils/schemaFieldTree";
+import { parseDefaultValue } from "@/utils/fieldDefaultValue";
+import { getOptionLabel } from "@/utils/dropdownOptions";
+import { checkDateRange, DateTimeFieldType, isDateTimeType, resolveDateBound } from "@/utils/dateBounds";
+import { REGEX_DATE, REGEX_DATETIME, REGEX_TIME, REGEX_TIMEZONE_SUFFIX } from "@/lib/regexes";
+import { checkFileContent, formatFileSize, getDecodedSize, isAcceptedMediaType } from "@/utils/fileContent";
 
 interface SchemaFormPreviewProps {
   fields: SchemaField[];
   level?: number;
   reusableTypes: SchemaField[];
-  formData?: Record<string, any>; // New prop for AI-generated form data
+  outputProfile: OutputProfile; // Profile of the built schema, which decides the defaults it keeps
+  formData?: Record<string, unknown>; // New prop for AI-generated form data
+  rules?: ConditionalRule[]; // Conditional rules of the object these fields belong to
+  dependencies?: PropertyDependency[]; // Property dependencies of the object these fields belong to
+  ancestorRefIds?: string[]; // Reusable types already being previewed above these fields, to stop recursive types
 }
 
 const currencySymbolMap: Record<string, string> = {
@@ -37,6 +49,21 @@ const getCurrencySymbol = (code: string | undefined): string => {
   return currencySymbolMap[code] || code; // Fallback to code if symbol not found
 };
 
+// Summarizes a contains condition, e.g. "primary equals true (at least 1)"
+const describeContainsCondition = (condition: ContainsCondition): string => {
+  const subject = condition.fieldName || "item";
+  const test = condition.operator === "present"
+    ? "is present"
+    : condition.operator === "oneOf"
+      ? `is one of ${(condition.values || []).join(", ")}`
+      : `equals ${(condition.values || [""])[0]}`;
+  const minContains = condition.minContains ?? 1;
+  const count = condition.maxContains === undefined
+    ? `at least ${minContains}`
+    : `${minContains} to ${condition.maxContains}`;
+  return `${subject} ${test} (${count})`;
+};
+
 const getPlaceholderValue = (type: SchemaFieldType, currencyCode?: string, options?: string[]): string => {
   switch (type) {
     case "string":
@@ -59,26 +86,529 @@ const getPlaceholderValue = (type: SchemaFieldType, currencyCode?: string, optio
       return options && options.length > 0 ? options[0] : "Select an option";
     case "boolean":
       return "true/false"; // Placeholder for boolean
+    case "union":
+      return "One of several variants";
+    case "map":
+    case "tuple":
+      return "";
     default:
       return "N/A";
   }
 };
 
-const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0, reusableTypes, formData }) => {
+// Returns the value previewed for a field: the generated data if any, otherwise the field's default value
+const getPreviewValue = (field: SchemaField, profile: OutputProfile, formData?: Record<string, unknown>): unknown => {
+  const generatedValue = formData ? formData[field.name] : undefined;
+  return generatedValue !== undefined ? generatedValue : parseDefaultValue(field, profile).value;
+};
+
+// Returns the value a rule condition is evaluated against: the previewed value, or the first example shown without data
+const getConditionValue = (fieldName: string, fields: SchemaField[], profile: OutputProfile, formData?: Record<string, unknown>): unknown => {
+  const field = fields.find(f => f.name === fieldName);
+  if (!field) return formData ? formData[fieldName] : undefined;
+  const previewValue = getPreviewValue(field, profile, formData);
+  if (formData || previewValue !== undefined) return previewValue;
+  if (field.examples?.[0] !== undefined) return field.examples[0];
+  return field.type === "dropdown" && field.options && field.options.length > 0 ? field.options[0] : undefined;
+};
+
+/**
+ * Returns the names of the fields hidden by conditional rules: fields a rule requires
+ * (in its then or else branch) are only shown when that branch applies.
+ * Rules whose tested property has no value yet leave their fields visible.
+ */
+const getHiddenFieldNames = (
+  rules: ConditionalRule[],
+  fields: SchemaField[],
+  profile: OutputProfile,
+  formData?: Record<string, unknown>
+): Set<string> => {
+  const dependentNames = new Set<string>();
+  const shownNames = new Set<string>();
+  rules.forEach(rule => {
+    const branchNames = [...rule.thenRequired, ...(rule.elseRequired || [])];
+    branchNames.forEach(name => dependentNames.add(name));
+
+    const value = getConditionValue(rule.fieldName, fields, profile, formData);
+    if (value === undefined) {
+      branchNames.forEach(name => shownNames.add(name));
+      return;
+    }
+    const values = (rule.values || []).map(v => v.trim());
+    let conditionHolds: boolean;
+    if (rule.operator === "equals") {
+      conditionHolds = String(value) === values[0];
+    } else if (rule.operator === "oneOf") {
+      conditionHolds = values.includes(String(value));
+    } else {
+      conditionHolds = value !== null && value !== "";
+    }
+    (conditionHolds ? rule.thenRequired : rule.elseRequired || []).forEach(name => shownNames.add(name));
+  });
+  return new Set([...dependentNames].filter(name => !shownNames.has(name)));
+};
+
+/**
+ * Checks the property dependencies of an object against the previewed values. Returns the names of the
+ * fields required by a set trigger, and the errors of each field that does not meet a dependency.
+ * A null or empty value counts as not set, as in the generated code.
+ */
+const getDependencyResults = (
+  dependencies: PropertyDependency[],
+  fields: SchemaField[],
+  profile: OutputProfile,
+  formData?: Record<string, unknown>
+): { requiredNames: Set<string>; errors: Map<string, string[]> } => {
+  const requiredNames = new Set<string>();
+  const errors = new Map<string, string[]>();
+  const getValue = (name: string) => {
+    const field = fields.find(f => f.name === name);
+    return field ? getPreviewValue(field, profile, formData) : formData?.[name];
+  };
+  const isSet = (value: unknown) => value !== undefined && value !== null && value !== "";
+  const addError = (name: string, error: string) => errors.set(name, [...(errors.get(name) || []), error]);
+
+  dependencies.forEach(dependency => {
+    if (!dependency.fieldName || !isSet(getValue(dependency.fieldName))) return;
+    dependency.requiredFields.forEach(name => {
+      requiredNames.add(name);
+      if (!isSet(getValue(name))) addError(name, `Required when ${dependency.fieldName} is set.`);
+    });
+    (dependency.conditions || []).forEach(condition => {
+      const value = getValue(condition.fieldName);
+      const values = (condition.values || []).map(v => v.trim());
+      if (condition.operator === "equals" && String(value) !== values[0]) {
+        addError(condition.fieldName, `Must equal ${values[0]} when ${dependency.fieldName} is set.`);
+      } else if (condition.operator === "oneOf" && !values.includes(String(value))) {
+        addError(condition.fieldName, `Must be one of ${values.join(", ")} when ${dependency.fieldName} is set.`);
+      }
+    });
+  });
+  return { requiredNames, errors };
+};
+
+// Returns the field describing one item of a nested multiple field: a list with the next array level's constraints
+const getInnerArrayField = (field: SchemaField): SchemaField => {
+  const [innerArray, ...deeperArrays] = field.innerArrays || [];
+  return {
+    ...field,
+    name: "items",
+    title: "Items",
+    minItems: innerArray?.minItems,
+    maxItems: innerArray?.maxItems,
+    uniqueItems: innerArray?.uniqueItems,
+    innerArrays: deeperArrays.length > 0 ? deeperArrays : undefined,
+    defaultValue: undefined,
+  };
+};
+
+// Returns the tag value identifying a variant of a discriminated union
+const getVariantTag = (variant: SchemaField): string => variant.discriminatorValue || variant.name;
+
+// Picks the union variant that best matches a generated value, defaulting to the first one
+const guessVariantIndex = (variants: SchemaField[], value: unknown, reusableTypes: SchemaField[], discriminator?: string): number => {
+  if (value === undefined || value === null) return 0;
+  if (discriminator && typeof value === "object" && value[discriminator] !== undefined) {
+    // A discriminated union says which variant it is
+    const taggedIndex = variants.findIndex(variant => getVariantTag(variant) === String(value[discriminator]));
+    if (taggedIndex !== -1) return taggedIndex;
+  }
+  let bestIndex = 0;
+  let bestScore = -1;
+  variants.forEach((variant, index) => {
+    const resolved = variant.type === "ref" ? reusableTypes.find(rt => rt.id === variant.refId) || variant : variant;
+    let score = 0;
+    if (Array.isArray(value)) {
+      score = resolved.isMultiple || resolved.type === "tuple" ? 1 : 0;
+    } else if (typeof value === "object") {
+      // Prefer the object variant sharing the most property names with the value
+      score = resolved.type === "object"
+        ? 1 + (resolved.children || []).filter(child => child.name in value).length
+        : 0;
+    } else if (typeof value === "number") {
+      score = ["int", "float", "currency"].includes(resolved.type) || (resolved.type === "dropdown" && !!resolved.optionType && resolved.optionType !== "string") ? 1 : 0;
+    } else if (typeof value === "boolean") {
+      score = resolved.type === "boolean" ? 1 : 0;
+    } else {
+      score = ["string", "date", "datetime", "time", "dropdown", "file"].includes(resolved.type) ? 1 : 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+};
+
+interface UnionFieldPreviewProps {
+  field: SchemaField;
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  formData?: Record<string, unknown>;
+  ancestorRefIds: string[];
+}
+
+// Previews a union field: a variant switcher followed by the selected variant's preview
+const UnionFieldPreview: React.FC<UnionFieldPreviewProps> = ({ field, level, reusableTypes, outputProfile, formData, ancestorRefIds }) => {
+  const variants = field.variants || [];
+  const fieldValue = getPreviewValue(field, outputProfile, formData);
+  const [selectedIndex, setSelectedIndex] = React.useState(() => guessVariantIndex(variants, fieldValue, reusableTypes, field.discriminator));
+
+  React.useEffect(() => {
+    setSelectedIndex(guessVariantIndex(field.variants || [], fieldValue, reusableTypes, field.discriminator));
+  }, [fieldValue, field.variants, field.discriminator, reusableTypes]);
+
+  const selectedVariant = variants[Math.min(selectedIndex, variants.length - 1)];
+
+  return (
+    <div className="space-y-2">
+      {variants.length > 0 ? (
+        <>
+          <Select value={String(Math.min(selectedIndex, variants.length - 1))} onValueChange={(value) => setSelectedIndex(Number(value))}>
+            <SelectTrigger className="bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variants.map((variant, idx) => (
+                <SelectItem key={variant.id} value={String(idx)}>
+                  {variant.title || toTitleCase(variant.name) || `Variant ${idx + 1}`}
+                  {field.discriminator && ` (${field.discriminator}: ${getVariantTag(variant)})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SchemaFormPreview
+            fields={[{ ...selectedVariant, name: field.name, isMultiple: field.isMultiple || selectedVariant.isMultiple }]}
+            level={level + 1}
+            reusableTypes={reusableTypes}
+            outputProfile={outputProfile}
+            formData={fieldValue !== undefined ? { ...formData, [field.name]: fieldValue } : formData}
+            ancestorRefIds={ancestorRefIds}
+          />
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground italic">No variants defined.</p>
+      )}
+    </div>
+  );
+};
+
+interface TupleFieldPreviewProps {
+  field: SchemaField;
+  value: unknown; // Generated items, if any
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  ancestorRefIds: string[];
+}
+
+// Previews a tuple field: one numbered preview per position, filled from the generated items
+const TupleFieldPreview: React.FC<TupleFieldPreviewProps> = ({ field, value, level, reusableTypes, outputProfile, ancestorRefIds }) => {
+  const tupleItems = field.tupleItems || [];
+  if (tupleItems.length === 0) {
+    return <p className="text-xs text-muted-foreground italic">No positions defined.</p>;
+  }
+
+  // Positions are previewed as fields named by their index, so generated items line up with them
+  const positionFields = tupleItems.map((item, index) => ({
+    ...item,
+    name: String(index),
+    title: `${index + 1}. ${item.title || toTitleCase(item.name) || "Item"}`,
+  }));
+  const itemData = Array.isArray(value) ? Object.fromEntries(value.map((item, index) => [String(index), item])) : undefined;
+
+  return (
+    <div className="ml-4 mt-2 space-y-2">
+      <SchemaFormPreview fields={positionFields} level={level + 1} reusableTypes={reusableTypes} outputProfile={outputProfile} formData={itemData} ancestorRefIds={ancestorRefIds} />
+      {field.additionalItems && (
+        <p className="text-xs text-muted-foreground italic">Additional items allowed.</p>
+      )}
+    </div>
+  );
+};
+
+interface MapFieldPreviewProps {
+  field: SchemaField;
+  value: unknown; // Generated entries, if any
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  ancestorRefIds: string[];
+}
+
+// Turns a generated map value into editable rows, or a single sample row without data
+const getMapEntries = (value: unknown, sampleValue?: string): { id: number; key: string; value: unknown }[] => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.entries(value).map(([key, entryValue], index) => ({ id: index, key, value: entryValue }));
+  }
+  return [{ id: 0, key: "key1", value: sampleValue }];
+};
+
+// Previews a map field as editable key/value rows, each value previewed with the map's value type
+const MapFieldPreview: React.FC<MapFieldPreviewProps> = ({ field, value, level, reusableTypes, outputProfile, ancestorRefIds }) => {
+  const sampleValue = field.mapValue?.examples?.[0];
+  const [entries, setEntries] = React.useState(() => getMapEntries(value, sampleValue));
+
+  React.useEffect(() => {
+    setEntries(getMapEntries(value, sampleValue));
+  }, [value, sampleValue]);
+
+  const valueField = field.mapValue;
+  if (!valueField) {
+    return <p className="text-xs text-muted-foreground italic">No value type defined.</p>;
+  }
+
+  // Primitive values are edited in place; structured values are previewed with their own fields
+  const isPrimitiveValue = !valueField.isMultiple && !["object", "ref", "union", "map", "tuple", "boolean", "dropdown"].includes(valueField.type);
+  let keyPatternRegex: RegExp | null = null;
+  try {
+    keyPatternRegex = field.keyPattern ? new RegExp(field.keyPattern) : null;
+  } catch (e) {
+    keyPatternRegex = null; // Invalid patterns are reported by the validators, not here
+  }
+
+  const updateEntry = (id: number, changes: { key?: string; value?: unknown }) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const addEntry = () => {
+    setEntries(prev => [...prev, { id: Math.max(-1, ...prev.map(entry => entry.id)) + 1, key: "", value: undefined }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => {
+        const isInvalidKey = keyPatternRegex !== null && entry.key !== "" && !keyPatternRegex.test(entry.key);
+        return (
+          <div key={entry.id} className="flex items-start gap-2">
+            <Input
+              type="text"
+              value={entry.key}
+              onChange={(e) => updateEntry(entry.id, { key: e.target.value })}
+              placeholder="Key"
+              className={cn("w-1/3 bg-gray-50 dark:bg-gray-800", isInvalidKey && "border-red-500 focus-visible:ring-red-500")}
+              title={isInvalidKey ? `Keys must match ${field.keyPattern}` : undefined}
+            />
+            <div className="flex-1">
+              {isPrimitiveValue ? (
+                <Input
+                  type="text"
+                  value={entry.value !== undefined && entry.value !== null ? String(entry.value) : ""}
+                  onChange={(e) => updateEntry(entry.id, { value: e.target.value })}
+                  placeholder={getPlaceholderValue(valueField.type, valueField.currency)}
+                  className="bg-gray-50 dark:bg-gray-800"
+                />
+              ) : (
+                <SchemaFormPreview
+                  fields={[{ ...valueField, name: entry.key || "value", title: entry.key || valueField.title }]}
+                  level={level + 1}
+                  reusableTypes={reusableTypes}
+                  outputProfile={outputProfile}
+                  formData={entry.value !== undefined ? { [entry.key || "value"]: entry.value } : undefined}
+                  ancestorRefIds={ancestorRefIds}
+                />
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setEntries(prev => prev.filter(other => other.id !== entry.id))}
+              className="text-red-500 hover:text-red-600 shrink-0"
+              aria-label="Remove entry"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={addEntry}>
+        <PlusCircle className="h-4 w-4 mr-2" /> Add Entry
+      </Button>
+    </div>
+  );
+};
+
+const DATE_INPUT_TYPES = { date: "date", datetime: "datetime-local", time: "time" };
+
+const DATE_VALUE_REGEXES = { date: REGEX_DATE, datetime: REGEX_DATETIME, time: REGEX_TIME };
+
+// Writes a date, datetime or time value the way the browser pickers expect it; datetimes are shown in UTC, without offset
+const toPickerValue = (type: DateTimeFieldType, value: string): string => {
+  if (!DATE_VALUE_REGEXES[type].test(value)) return "";
+  if (type !== "datetime") return value;
+  const time = Date.parse(REGEX_TIMEZONE_SUFFIX.test(value) ? value : `${value}Z`);
+  return isNaN(time) ? "" : new Date(time).toISOString().slice(0, 19);
+};
+
+interface DateFieldPreviewProps {
+  field: SchemaField; // Date, datetime or time field
+  value?: unknown; // Previewed value, if any
+}
+
+// Previews a date, datetime or time field as a picker limited to the field's earliest and latest values
+const DateFieldPreview: React.FC<DateFieldPreviewProps> = ({ field, value }) => {
+  const type = field.type as DateTimeFieldType;
+  const initialValue = typeof value === "string" ? value : field.examples?.[0] || "";
+  const [pickedValue, setPickedValue] = React.useState(toPickerValue(type, initialValue));
+  const earliest = field.earliest ? resolveDateBound(type, field.earliest).value : undefined;
+  const latest = field.latest ? resolveDateBound(type, field.latest).value : undefined;
+  const rangeError = pickedValue ? checkDateRange(field, pickedValue) : undefined;
+
+  return (
+    <div className="grid gap-1">
+      <Input
+        type={DATE_INPUT_TYPES[type]}
+        step={type === "date" ? undefined : 1}
+        min={earliest ? toPickerValue(type, earliest) : undefined}
+        max={latest ? toPickerValue(type, latest) : undefined}
+        value={pickedValue}
+        onChange={(e) => setPickedValue(e.target.value)}
+        className={cn(
+          "bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700",
+          rangeError && "border-red-500 focus-visible:ring-red-500",
+        )}
+      />
+      {rangeError && <p className="text-red-500 text-xs">Value {rangeError}</p>}
+    </div>
+  );
+};
+
+interface FileFieldPreviewProps {
+  field: SchemaField; // File field
+  value?: unknown; // Previewed base64 value, if any
+}
+
+// Previews a file field as a file picker, encoding the chosen file to base64 as the field's value
+const FileFieldPreview: React.FC<FileFieldPreviewProps> = ({ field, value }) => {
+  const [encoded, setEncoded] = React.useState<{ name?: string; base64: string } | undefined>(
+    typeof value === "string" ? { base64: value } : undefined
+  );
+  const [mediaTypeError, setMediaTypeError] = React.useState<string>();
+  const contentError = encoded ? checkFileContent(field, encoded.base64) : undefined;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setMediaTypeError(isAcceptedMediaType(field, file.type) ? undefined : `${file.type || "This file type"} is not accepted.`);
+    const reader = new FileReader();
+    // Data URLs hold the base64 text after their "data:<type>;base64," prefix
+    reader.onload = () => setEncoded({ name: file.name, base64: String(reader.result).split(",")[1] || "" });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="grid gap-1">
+      <Input
+        type="file"
+        accept={field.mediaTypes?.join(",")}
+        onChange={handleFileChange}
+        className={cn(
+          "bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700",
+          (mediaTypeError || contentError) && "border-red-500 focus-visible:ring-red-500",
+        )}
+      />
+      {encoded && (
+        <p className="text-xs text-muted-foreground font-mono break-all">
+          {encoded.name ? `${encoded.name}: ` : ""}
+          {encoded.base64.length > 80 ? `${encoded.base64.slice(0, 80)}…` : encoded.base64}
+          {" "}({formatFileSize(getDecodedSize(encoded.base64))})
+        </p>
+      )}
+      {mediaTypeError && <p className="text-red-500 text-xs">{mediaTypeError}</p>}
+      {contentError && <p className="text-red-500 text-xs">Value {contentError}</p>}
+    </div>
+  );
+};
+
+interface RecursiveRefPreviewProps {
+  field: SchemaField; // Reference to a type already being previewed above it
+  level: number;
+  reusableTypes: SchemaField[];
+  outputProfile: OutputProfile;
+  formData?: Record<string, unknown>;
+  ancestorRefIds: string[];
+}
+
+// Previews a reference back to an enclosing type collapsed, so recursive types are only expanded one level at a time.
+// Generated data is shown right away, since it is finite.
+const RecursiveRefPreview: React.FC<RecursiveRefPreviewProps> = ({ field, level, reusableTypes, outputProfile, formData, ancestorRefIds }) => {
+  const fieldValue = getPreviewValue(field, outputProfile, formData);
+  const hasValue = fieldValue !== undefined && fieldValue !== null && !(Array.isArray(fieldValue) && fieldValue.length === 0);
+  const [isExpanded, setIsExpanded] = React.useState(hasValue);
+  const typeName = reusableTypes.find(rt => rt.id === field.refId)?.name || "Unknown";
+
+  if (isExpanded) {
+    return (
+      <SchemaFormPreview
+        fields={[field]}
+        level={level}
+        reusableTypes={reusableTypes}
+        outputProfile={outputProfile}
+        formData={formData}
+        ancestorRefIds={ancestorRefIds.filter(id => id !== field.refId)} // Resolve this reference once more
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center justify-between gap-2 p-3 rounded-md border border-dashed border-blue-300 bg-blue-50/20",
+        level > 0 ? "bg-muted/30" : "bg-background",
+      )}
+      style={{ paddingLeft: `${level * 20 + 12}px` }}
+    >
+      <Label className="text-sm font-medium">
+        {field.title || toTitleCase(field.name)}
+        {field.isRequired && <span className="text-red-500 ml-1">*</span>}
+        {field.isMultiple && <span className="text-muted-foreground ml-1">(Multiple)</span>}
+        <span className="text-blue-600 ml-1">(Ref: {typeName}, recursive)</span>
+      </Label>
+      <Button variant="outline" size="sm" onClick={() => setIsExpanded(true)}>
+        Expand {typeName}
+      </Button>
+    </div>
+  );
+};
+
+const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0, reusableTypes, outputProfile, formData, rules, dependencies, ancestorRefIds = [] }) => {
   const paddingLeft = level * 20;
+  const hiddenFieldNames = getHiddenFieldNames(rules || [], fields, outputProfile, formData);
+  const dependencyResults = getDependencyResults(dependencies || [], fields, outputProfile, formData);
 
   return (
     <div className="space-y-4">
-      {fields.map((field) => {
+      {fields.filter((field) => !hiddenFieldNames.has(field.name)).map((field) => {
         let displayField = field;
         let isReference = false;
-        const fieldValue = formData ? formData[field.name] : undefined;
+        let childAncestorRefIds = ancestorRefIds;
+        const fieldValue = getPreviewValue(field, outputProfile, formData);
+
+        if (field.type === "ref" && field.refId && ancestorRefIds.includes(field.refId)) {
+          return (
+            <RecursiveRefPreview
+              key={field.id}
+              field={field}
+              level={level}
+              reusableTypes={reusableTypes}
+              outputProfile={outputProfile}
+              formData={formData}
+              ancestorRefIds={ancestorRefIds}
+            />
+          );
+        }
 
         if (field.type === "ref" && field.refId) {
           const referencedType = reusableTypes.find(rt => rt.id === field.refId);
           if (referencedType) {
-            displayField = { ...field, type: referencedType.type, children: referencedType.children, options: referencedType.options };
+            // Inherited fields come first, as in the generated subclasses
+            const children = referencedType.type === "object"
+              ? [...getInheritedFields(referencedType, reusableTypes).map(inherited => inherited.field), ...(referencedType.children || [])]
+              : referencedType.children;
+            displayField = { ...field, type: referencedType.type, children: children, options: referencedType.options, optionType: referencedType.optionType, optionLabels: referencedType.optionLabels, variants: referencedType.variants, unionMode: referencedType.unionMode, discriminator: referencedType.discriminator, rules: referencedType.rules, dependencies: referencedType.dependencies, mapValue: referencedType.mapValue, keyPattern: referencedType.keyPattern, tupleItems: referencedType.tupleItems, additionalItems: referencedType.additionalItems, earliest: referencedType.earliest, latest: referencedType.latest, requireTimezone: referencedType.requireTimezone, mediaTypes: referencedType.mediaTypes, maxFileSize: referencedType.maxFileSize };
             isReference = true;
+            childAncestorRefIds = [...ancestorRefIds, field.refId];
           } else {
             return (
               <div
@@ -117,23 +647,47 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
           >
             <Label className="text-sm font-medium">
               {field.title || toTitleCase(field.name)}
-              {field.isRequired && <span className="text-red-500 ml-1">*</span>}
-              {field.isMultiple && <span className="text-muted-foreground ml-1">(Multiple)</span>}
+              {(field.isRequired || dependencyResults.requiredNames.has(field.name)) && <span className="text-red-500 ml-1">*</span>}
+              {field.isMultiple && (
+                <span className="text-muted-foreground ml-1">
+                  {field.innerArrays && field.innerArrays.length > 0 ? `(Multiple, ${field.innerArrays.length + 1} levels)` : "(Multiple)"}
+                </span>
+              )}
               {isReference && <span className="text-blue-600 ml-1">(Ref: {reusableTypes.find(rt => rt.id === field.refId)?.name || 'Unknown'})</span>}
             </Label>
-            {displayField.isMultiple ? (
+            {displayField.type === "union" ? (
+              <UnionFieldPreview field={displayField} level={level} reusableTypes={reusableTypes} outputProfile={outputProfile} formData={formData} ancestorRefIds={childAncestorRefIds} />
+            ) : displayField.isMultiple ? (
               Array.isArray(fieldValue) && fieldValue.length > 0 ? (
                 <div className="space-y-4 mt-2">
                   {fieldValue.map((item, idx) => (
                     <div key={idx} className="border border-dashed p-3 rounded-md bg-gray-50 dark:bg-gray-800">
                       <p className="text-sm font-semibold mb-2 text-muted-foreground">Item {idx + 1}</p>
-                      {displayField.type === "object" ? ( // Check if the resolved item type is an object
+                      {displayField.innerArrays && displayField.innerArrays.length > 0 ? (
+                        // Each item of a nested list is a list itself
+                        <SchemaFormPreview
+                          fields={[getInnerArrayField(displayField)]}
+                          level={level + 1}
+                          reusableTypes={reusableTypes}
+                          outputProfile={outputProfile}
+                          formData={{ items: item }}
+                          ancestorRefIds={childAncestorRefIds}
+                        />
+                      ) : displayField.type === "object" ? ( // Check if the resolved item type is an object
                         <SchemaFormPreview
                           fields={displayField.children || []} // Use children of the resolved object type
                           level={level + 1}
                           reusableTypes={reusableTypes}
+                          outputProfile={outputProfile}
                           formData={item} // Pass the individual object data
+                          rules={displayField.rules}
+                          dependencies={displayField.dependencies}
+                          ancestorRefIds={childAncestorRefIds}
                         />
+                      ) : displayField.type === "map" ? (
+                        <MapFieldPreview field={displayField} value={item} level={level} reusableTypes={reusableTypes} outputProfile={outputProfile} ancestorRefIds={childAncestorRefIds} />
+                      ) : displayField.type === "tuple" ? (
+                        <TupleFieldPreview field={displayField} value={item} level={level} reusableTypes={reusableTypes} outputProfile={outputProfile} ancestorRefIds={childAncestorRefIds} />
                       ) : (
                         // If it's an array of primitives (string, int, float, etc.)
                         <Input
@@ -154,18 +708,22 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
                   className="bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700"
                 />
               )
+            ) : displayField.type === "map" ? (
+              <MapFieldPreview field={displayField} value={fieldValue} level={level} reusableTypes={reusableTypes} outputProfile={outputProfile} ancestorRefIds={childAncestorRefIds} />
+            ) : displayField.type === "tuple" ? (
+              <TupleFieldPreview field={displayField} value={fieldValue} level={level} reusableTypes={reusableTypes} outputProfile={outputProfile} ancestorRefIds={childAncestorRefIds} />
             ) : (
               displayField.type === "object" ? (
                 <div className="ml-4 mt-2 space-y-2">
                   <p className="text-sm text-muted-foreground">Object Properties:</p>
                   {displayField.children && displayField.children.length > 0 ? (
-                    <SchemaFormPreview fields={displayField.children} level={level + 1} reusableTypes={reusableTypes} formData={fieldValue} />
+                    <SchemaFormPreview fields={displayField.children} level={level + 1} reusableTypes={reusableTypes} outputProfile={outputProfile} formData={fieldValue as Record<string, unknown>} rules={displayField.rules} dependencies={displayField.dependencies} ancestorRefIds={childAncestorRefIds} />
                   ) : (
                     <p className="text-xs text-muted-foreground italic">No properties defined.</p>
                   )}
                 </div>
               ) : displayField.type === "dropdown" ? (
-                <Select value={fieldValue !== undefined ? String(fieldValue) : (displayField.example || (displayField.options && displayField.options.length > 0 ? displayField.options[0] : ""))}>
+                <Select value={fieldValue !== undefined ? String(fieldValue) : (displayField.examples?.[0] || (displayField.options && displayField.options.length > 0 ? displayField.options[0] : ""))}>
                   <SelectTrigger className="bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700">
                     <SelectValue placeholder={getPlaceholderValue(displayField.type, undefined, displayField.options)} />
                   </SelectTrigger>
@@ -173,7 +731,10 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
                     {displayField.options && displayField.options.length > 0 ? (
                       displayField.options.map((option, idx) => (
                         <SelectItem key={idx} value={option}>
-                          {option}
+                          {getOptionLabel(displayField, option)}
+                          {displayField.optionLabels?.[option]?.description && (
+                            <span className="ml-2 text-xs text-muted-foreground">{displayField.optionLabels[option].description}</span>
+                          )}
                         </SelectItem>
                       ))
                     ) : (
@@ -184,15 +745,19 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
               ) : displayField.type === "boolean" ? (
                 <div className="flex items-center space-x-2 bg-gray-50 dark:bg-gray-800 p-2 rounded-md border border-gray-200 dark:border-gray-700">
                   <Switch
-                    checked={fieldValue !== undefined ? Boolean(fieldValue) : (displayField.example === 'true')}
+                    checked={fieldValue !== undefined ? Boolean(fieldValue) : (displayField.examples?.[0] === 'true')}
                     disabled // Preview only, not interactive
                   />
-                  <Label>{fieldValue !== undefined ? String(fieldValue) : (displayField.example === 'true' ? 'True' : 'False')}</Label>
+                  <Label>{fieldValue !== undefined ? String(fieldValue) : (displayField.examples?.[0] === 'true' ? 'True' : 'False')}</Label>
                 </div>
+              ) : isDateTimeType(displayField.type) ? (
+                <DateFieldPreview key={String(fieldValue)} field={displayField} value={fieldValue} />
+              ) : displayField.type === "file" ? (
+                <FileFieldPreview key={String(fieldValue)} field={displayField} value={fieldValue} />
               ) : (
                 <Input
                   type="text"
-                  value={fieldValue !== undefined ? String(fieldValue) : (field.example || getPlaceholderValue(displayField.type, field.currency))}
+                  value={fieldValue !== undefined ? String(fieldValue) : (field.examples?.[0] || getPlaceholderValue(displayField.type, field.currency))}
                   readOnly
                   className="bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700"
                 />
@@ -203,17 +768,32 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
                 <>
                   {field.minValue !== undefined && <span>Min: {field.minValue}</span>}
                   {field.maxValue !== undefined && <span>Max: {field.maxValue}</span>}
+                  {field.exclusiveMinValue !== undefined && <span>Greater Than: {field.exclusiveMinValue}</span>}
+                  {field.exclusiveMaxValue !== undefined && <span>Less Than: {field.exclusiveMaxValue}</span>}
+                  {field.multipleOf !== undefined && <span>Multiple Of: {field.multipleOf}</span>}
                 </>
               )}
               {field.isMultiple && (
                 <>
                   {field.minItems !== undefined && <span>Min Items: {field.minItems}</span>}
                   {field.maxItems !== undefined && <span>Max Items: {field.maxItems}</span>}
+                  {field.uniqueItems && <span>Unique Items</span>}
+                  {field.contains && <span>Contains: {describeContainsCondition(field.contains)}</span>}
                 </>
               )}
+              {field.isNullable && <span>Nullable</span>}
+              {field.readOnly && <span>Read-only</span>}
+              {field.writeOnly && <span>Write-only</span>}
+              {field.deprecated && <span>Deprecated</span>}
               {displayField.type === "currency" && displayField.currency && (
                 <span>Currency: {displayField.currency}</span>
               )}
+              {displayField.type === "map" && displayField.keyPattern && (
+                <span>Key Pattern: <code>{displayField.keyPattern}</code></span>
+              )}
+              {displayField.type === "string" && displayField.format && (
+                <span>Format: {displayField.format}</span>
+              )}
               {displayField.type === "string" && displayField.pattern && (
                 <span>Pattern: <code>{displayField.pattern}</code></span>
               )}
@@ -223,7 +803,25 @@ const SchemaFormPreview: React.FC<SchemaFormPreviewProps> = ({ fields, level = 0
               {displayField.type === "string" && displayField.maxLength !== undefined && (
                 <span>Max Length: {displayField.maxLength}</span>
               )}
+              {isDateTimeType(displayField.type) && displayField.earliest && (
+                <span>Earliest: {displayField.earliest}</span>
+              )}
+              {isDateTimeType(displayField.type) && displayField.latest && (
+                <span>Latest: {displayField.latest}</span>
+              )}
+              {displayField.type === "datetime" && displayField.requireTimezone && (
+                <span>Timezone Required</span>
+              )}
+              {displayField.type === "file" && displayField.mediaTypes && (
+                <span>Media Types: {displayField.mediaTypes.join(", ")}</span>
+              )}
+              {displayField.type === "file" && displayField.maxFileSize !== undefined && (
+                <span>Max Size: {formatFileSize(displayField.maxFileSize)}</span>
+              )}
             </div>
+            {dependencyResults.errors.get(field.name)?.map((error) => (
+              <p key={error} className="text-red-500 text-xs">{error}</p>
+            ))}
           </div>
         );
       })}
@@ -0,0 +1,240 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy } from "lucide-react";
+import { showSuccess, showError } from "@/utils/toast";
+import { buildOpenApiDocument, OpenApiVersion } from "@/utils/openApiExport";
+import { toYaml } from "@/utils/yaml";
+import { SchemaField, SchemaSettings } from "./FieldEditor";
+
+interface SchemaOpenApiExportProps {
+  schemaFields: SchemaField[];
+  reusableTypes: SchemaField[];
+  schemaSettings: SchemaSettings;
+}
+
+interface OpenApiTabOptions {
+  version: OpenApiVersion;
+  format: "json" | "yaml";
+  schemaName: string;
+  includeOperation: boolean;
+  path: string;
+  operationId: string;
+  useAsRequestBody: boolean;
+  useAsResponseBody: boolean;
+}
+
+const LOCAL_STORAGE_OPENAPI_OPTIONS_KEY = "jsonSchemaBuilderOpenApiOptions";
+
+const DEFAULT_OPTIONS: OpenApiTabOptions = {
+  version: "3.1",
+  format: "yaml",
+  schemaName: "GeneratedSchema",
+  includeOperation: false,
+  path: "/items",
+  operationId: "createItem",
+  useAsRequestBody: true,
+  useAsResponseBody: true,
+};
+
+const VERSION_OPTIONS: { value: OpenApiVersion; label: string; description: string }[] = [
+  {
+    value: "3.1",
+    label: "OpenAPI 3.1",
+    description: "Schemas are JSON Schema 2020-12, so the schema is kept as built.",
+  },
+  {
+    value: "3.0",
+    label: "OpenAPI 3.0",
+    description: "Null is allowed through nullable and examples become a single example. Keywords 3.0 lacks are left out.",
+  },
+];
+
+// OpenAPI export: the schema and its reusable types as components, optionally used by a POST operation
+const SchemaOpenApiExport: React.FC<SchemaOpenApiExportProps> = ({ schemaFields, reusableTypes, schemaSettings }) => {
+  const [options, setOptions] = React.useState<OpenApiTabOptions>(() => {
+    if (typeof window !== "undefined") {
+      try {
+        return { ...DEFAULT_OPTIONS, ...JSON.parse(localStorage.getItem(LOCAL_STORAGE_OPENAPI_OPTIONS_KEY) || "{}") };
+      } catch (e) {
+        return DEFAULT_OPTIONS;
+      }
+    }
+    return DEFAULT_OPTIONS;
+  });
+
+  React.useEffect(() => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(LOCAL_STORAGE_OPENAPI_OPTIONS_KEY, JSON.stringify(options));
+    }
+  }, [options]);
+
+  const updateOptions = (changes: Partial<OpenApiTabOptions>) => setOptions({ ...options, ...changes });
+
+  const { document, warnings } = React.useMemo(() => buildOpenApiDocument(schemaFields, reusableTypes, schemaSettings, {
+    version: options.version,
+    schemaName: options.schemaName,
+    operation: options.includeOperation
+      ? {
+          path: options.path,
+          operationId: options.operationId.trim() || undefined,
+          useAsRequestBody: options.useAsRequestBody,
+          useAsResponseBody: options.useAsResponseBody,
+        }
+      : undefined,
+  }), [schemaFields, reusableTypes, schemaSettings, options]);
+  const documentText = options.format === "yaml" ? toYaml(document) : JSON.stringify(document, null, 2);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(documentText)
+      .then(() => {
+        showSuccess("OpenAPI document copied to clipboard!");
+      })
+      .catch((err) => {
+        console.error("Failed to copy OpenAPI document: ", err);
+        showError("Failed to copy OpenAPI document.");
+      });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <Label htmlFor="openapi-version">Version</Label>
+        <Select value={options.version} onValueChange={(version: OpenApiVersion) => updateOptions({ version })}>
+          <SelectTrigger id="openapi-version" className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VERSION_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground flex-1 min-w-[240px]">
+          {VERSION_OPTIONS.find((option) => option.value === options.version)?.description}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="openapi-schema-name">Schema Name</Label>
+          <Input
+            id="openapi-schema-name"
+            value={options.schemaName}
+            onChange={(e) => updateOptions({ schemaName: e.target.value })}
+            placeholder="e.g., Order"
+          />
+          <p className="text-sm text-muted-foreground">Name of the root schema under components/schemas.</p>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="openapi-format">Format</Label>
+          <Select value={options.format} onValueChange={(format: "json" | "yaml") => updateOptions({ format })}>
+            <SelectTrigger id="openapi-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="yaml">YAML</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 p-4 border rounded-md">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="openapi-include-operation"
+            checked={options.includeOperation}
+            onCheckedChange={(includeOperation) => updateOptions({ includeOperation })}
+          />
+          <Label htmlFor="openapi-include-operation">Add a POST Operation</Label>
+        </div>
+        {options.includeOperation && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="openapi-path">Path</Label>
+                <Input
+                  id="openapi-path"
+                  value={options.path}
+                  onChange={(e) => updateOptions({ path: e.target.value })}
+                  placeholder="e.g., /orders"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="openapi-operation-id">Operation ID (Optional)</Label>
+                <Input
+                  id="openapi-operation-id"
+                  value={options.operationId}
+                  onChange={(e) => updateOptions({ operationId: e.target.value })}
+                  placeholder="e.g., createOrder"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="openapi-request-body"
+                  checked={options.useAsRequestBody}
+                  onCheckedChange={(useAsRequestBody) => updateOptions({ useAsRequestBody })}
+                />
+                <Label htmlFor="openapi-request-body">Request Body</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="openapi-response-body"
+                  checked={options.useAsResponseBody}
+                  onCheckedChange={(useAsResponseBody) => updateOptions({ useAsResponseBody })}
+                />
+                <Label htmlFor="openapi-response-body">Response Body</Label>
+              </div>
+            </div>
+            {!options.useAsRequestBody && !options.useAsResponseBody && (
+              <p className="text-yellow-600 dark:text-yellow-400 text-xs">
+                Use the schema as the request body, the response body or both to add the operation.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="text-yellow-600 dark:text-yellow-400 text-xs space-y-1">
+          {warnings.map((warning) => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+
+      <Card className="w-full">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-2xl font-semibold">Generated OpenAPI Document</CardTitle>
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            <Copy className="h-4 w-4 mr-2" /> Copy {options.format === "yaml" ? "YAML" : "JSON"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Textarea
+            value={documentText}
+            readOnly
+            rows={20}
+            className="font-mono bg-gray-800 text-white"
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SchemaOpenApiExport;
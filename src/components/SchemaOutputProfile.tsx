@@ -0,0 +1,52 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OutputProfile } from "./FieldEditor";
+
+interface SchemaOutputProfileProps {
+  profile: OutputProfile;
+  onProfileChange: (profile: OutputProfile) => void;
+}
+
+const PROFILE_OPTIONS: { value: OutputProfile; label: string; description: string }[] = [
+  {
+    value: "llm-strict",
+    label: "LLM strict",
+    description: "Every property is listed as required, as LLM structured outputs expect. Fields that are not required accept null instead.",
+  },
+  {
+    value: "standard",
+    label: "Standard JSON Schema",
+    description: "Fields that are not required may be left out, and only nullable fields accept null. Suited to API contracts.",
+  },
+];
+
+// Selector for how the whole schema writes optional and nullable fields
+const SchemaOutputProfile: React.FC<SchemaOutputProfileProps> = ({ profile, onProfileChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <Label htmlFor="schema-output-profile">Output Profile</Label>
+      <Select value={profile} onValueChange={onProfileChange}>
+        <SelectTrigger id="schema-output-profile" className="w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PROFILE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground flex-1 min-w-[240px]">
+        {PROFILE_OPTIONS.find((option) => option.value === profile)?.description}
+      </p>
+    </div>
+  );
+};
+
+export default SchemaOutputProfile;
@@ -22,7 +22,8 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { XCircle, Pencil } from "lucide-react";
 import { showSuccess, showError } from "@/utils/toast";
-import { SchemaField } from "./FieldEditor";
+import { SchemaField, SchemaSettings } from "./FieldEditor";
+import { migrateLegacyExamples } from "@/utils/schemaFieldTree";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
@@ -48,8 +49,10 @@ interface SchemaSaveLoadDialogsProps {
   setSavedSchemaNames: (names: string[]) => void;
   schemaFields: SchemaField[];
   reusableTypes: SchemaField[];
+  schemaSettings: SchemaSettings;
   setSchemaFields: (fields: SchemaField[]) => void;
   setReusableTypes: (types: SchemaField[]) => void;
+  setSchemaSettings: (settings: SchemaSettings) => void;
   hasUnsavedChanges: boolean;
 }
 
@@ -70,8 +73,10 @@ const SchemaSaveLoadDialogs: React.FC<SchemaSaveLoadDialogsProps> = ({
   setSavedSchemaNames,
   schemaFields,
   reusableTypes,
+  schemaSettings,
   setSchemaFields,
   setReusableTypes,
+  setSchemaSettings,
   hasUnsavedChanges,
 }) => {
   const [isRenameDialogOpen, setIsRenameDialogOpen] = React.useState(false);
@@ -115,6 +120,7 @@ const SchemaSaveLoadDialogs: React.FC<SchemaSaveLoadDialogsProps> = ({
     try {
       localStorage.setItem(`dyad_schema_${schemaName}_fields`, JSON.stringify(schemaFields));
       localStorage.setItem(`dyad_schema_${schemaName}_reusableTypes`, JSON.stringify(reusableTypes));
+      localStorage.setItem(`dyad_schema_${schemaName}_settings`, JSON.stringify(schemaSettings));
       
       if (!savedSchemaNames.includes(schemaName)) {
         const updatedNames = [...savedSchemaNames, schemaName].sort(); // Keep sorted
@@ -141,19 +147,22 @@ const SchemaSaveLoadDialogs: React.FC<SchemaSaveLoadDialogsProps> = ({
     try {
       const loadedFields = localStorage.getItem(`dyad_schema_${schemaName}_fields`);
       const loadedReusableTypes = localStorage.getItem(`dyad_schema_${schemaName}_reusableTypes`);
+      const loadedSettings = localStorage.getItem(`dyad_schema_${schemaName}_settings`);
 
       if (loadedFields) {
-        setSchemaFields(JSON.parse(loadedFields));
+        setSchemaFields(migrateLegacyExamples(JSON.parse(loadedFields)));
       } else {
         setSchemaFields([]);
       }
 
       if (loadedReusableTypes) {
-        setReusableTypes(JSON.parse(loadedReusableTypes));
+        setReusableTypes(migrateLegacyExamples(JSON.parse(loadedReusableTypes)));
       } else {
         setReusableTypes([]);
       }
 
+      setSchemaSettings(loadedSettings ? JSON.parse(loadedSettings) : {});
+
       showSuccess(`Schema "${schemaName}" loaded successfully!`);
       setIsLoadDialogOpen(false);
       setSelectedLoadSchemaName("");
@@ -167,6 +176,7 @@ const SchemaSaveLoadDialogs: React.FC<SchemaSaveLoadDialogsProps> = ({
     try {
       localStorage.removeItem(`dyad_schema_${nameToDelete}_fields`);
       localStorage.removeItem(`dyad_schema_${nameToDelete}_reusableTypes`);
+      localStorage.removeItem(`dyad_schema_${nameToDelete}_settings`);
 
       const updatedNames = savedSchemaNames.filter((name) => name !== nameToDelete);
       setSavedSchemaNames(updatedNames);
@@ -205,12 +215,15 @@ const SchemaSaveLoadDialogs: React.FC<SchemaSaveLoadDialogsProps> = ({
     try {
       const oldFields = localStorage.getItem(`dyad_schema_${schemaToRename}_fields`);
       const oldReusableTypes = localStorage.getItem(`dyad_schema_${schemaToRename}_reusableTypes`);
+      const oldSettings = localStorage.getItem(`dyad_schema_${schemaToRename}_settings`);
 
       if (oldFields) localStorage.setItem(`dyad_schema_${trimmedNewName}_fields`, oldFields);
       if (oldReusableTypes) localStorage.setItem(`dyad_schema_${trimmedNewName}_reusableTypes`, oldReusableTypes);
+      if (oldSettings) localStorage.setItem(`dyad_schema_${trimmedNewName}_settings`, oldSettings);
 
       localStorage.removeItem(`dyad_schema_${schemaToRename}_fields`);
       localStorage.removeItem(`dyad_schema_${schemaToRename}_reusableTypes`);
+      localStorage.removeItem(`dyad_schema_${schemaToRename}_settings`);
 
       const updatedNames = savedSchemaNames.map(name =>
         name === schemaToRename ? trimmedNewName : name
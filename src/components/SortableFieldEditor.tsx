@@ -1,7 +1,7 @@
 import React from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import FieldEditor, { SchemaField } from "./FieldEditor";
+import FieldEditor, { OutputProfile, SchemaField } from "./FieldEditor";
 import { cn } from "@/lib/utils";
 
 interface SortableFieldEditorProps {
@@ -13,12 +13,14 @@ interface SortableFieldEditorProps {
   isRoot?: boolean;
   level?: number;
   reusableTypes?: SchemaField[];
+  outputProfile?: OutputProfile;
   hideRefTypeOption?: boolean;
   isFirst?: boolean; // New prop to disable 'move up' for the first item
   isLast?: boolean; // New prop to disable 'move down' for the last item
   onManageReusableTypes?: () => void;
   onConvertToReusableType?: (fieldId: string) => void;
   onRefineFieldWithAI?: (field: SchemaField) => void; // New prop for AI refinement
+  discriminator?: string;
 }
 
 const SortableFieldEditor: React.FC<SortableFieldEditorProps> = React.memo(({
@@ -30,12 +32,14 @@ const SortableFieldEditor: React.FC<SortableFieldEditorProps> = React.memo(({
   isRoot = false,
   level = 0,
   reusableTypes = [],
+  outputProfile,
   hideRefTypeOption = false,
   isFirst = false,
   isLast = false,
   onManageReusableTypes,
   onConvertToReusableType,
   onRefineFieldWithAI, // Destructure new prop
+  discriminator,
 }) => {
   const {
     attributes,
@@ -73,6 +77,7 @@ const SortableFieldEditor: React.FC<SortableFieldEditorProps> = React.memo(({
         isRoot={isRoot}
         level={level}
         reusableTypes={reusableTypes}
+        outputProfile={outputProfile}
         hideRefTypeOption={hideRefTypeOption}
         dragHandleAttributes={attributes} // Pass drag attributes
         dragHandleListeners={listeners} // Pass drag listeners
@@ -81,6 +86,7 @@ const SortableFieldEditor: React.FC<SortableFieldEditorProps> = React.memo(({
         onManageReusableTypes={onManageReusableTypes}
         onConvertToReusableType={onConvertToReusableType}
         onRefineFieldWithAI={onRefineFieldWithAI} // Pass the new prop
+        discriminator={discriminator}
       />
     </div>
   );
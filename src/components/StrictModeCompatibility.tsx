@@ -0,0 +1,44 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { StrictModeViolation } from "@/utils/providerCompatibility";
+
+interface StrictModeCompatibilityProps {
+  id: string;
+  violations: StrictModeViolation[];
+  autoFix: boolean;
+  onAutoFixChange: (autoFix: boolean) => void;
+  changes?: string[]; // Rewrites made by the auto-fix, when it is on
+}
+
+// Reports what strict structured output would reject in the schema sent to the provider, and toggles the auto-fix
+const StrictModeCompatibility: React.FC<StrictModeCompatibilityProps> = ({ id, violations, autoFix, onAutoFixChange, changes = [] }) => {
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center space-x-2">
+        <Switch id={id} checked={autoFix} onCheckedChange={onAutoFixChange} />
+        <Label htmlFor={id}>Adapt Schema to Strict Mode</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Inlines reusable types, makes optional properties nullable and moves unsupported keywords into descriptions
+        before the schema is sent.{autoFix && changes.length > 0 && ` ${changes.length} ${changes.length === 1 ? "change" : "changes"} made.`}
+      </p>
+      {violations.length > 0 ? (
+        <div className="text-yellow-600 dark:text-yellow-400 text-xs space-y-1">
+          <p>Strict mode will reject this schema:</p>
+          <ul className="list-disc pl-4">
+            {violations.map((violation, index) => (
+              <li key={index}>
+                <span className="font-mono">{violation.path}</span>: {violation.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">The schema meets the rules of strict mode.</p>
+      )}
+    </div>
+  );
+};
+
+export default StrictModeCompatibility;
@@ -0,0 +1,116 @@
+import { SchemaField, SchemaFieldType } from "@/components/FieldEditor";
+import { REGEX_DATE, REGEX_DATETIME, REGEX_TIME, REGEX_TIMEZONE_SUFFIX } from "@/lib/regexes";
+
+// Relative bounds: "today" or "now", optionally shifted by a number of hours, days or weeks (e.g., "today-7d", "now+2h")
+const RELATIVE_BOUND_REGEX = /^(today|now)(?:([+-])(\d+)([hdw]))?$/;
+
+const UNIT_MILLISECONDS = { h: 3600000, d: 86400000, w: 604800000 };
+
+export type DateTimeFieldType = "date" | "datetime" | "time";
+
+export interface RelativeDateBound {
+  anchor: "today" | "now"; // Start of the current UTC day, or the current instant
+  offset: number; // Signed number of units added to the anchor
+  unit: "h" | "d" | "w";
+}
+
+export interface ResolvedDateBound {
+  value?: string; // The bound as a value of the field's type, resolved against the current time when relative
+  relative?: RelativeDateBound;
+  error?: string;
+}
+
+// Whether a field type holds ISO 8601 date, datetime or time strings
+export const isDateTimeType = (type: SchemaFieldType | string): type is DateTimeFieldType =>
+  type === "date" || type === "datetime" || type === "time";
+
+export const parseRelativeBound = (bound: string): RelativeDateBound | undefined => {
+  const match = RELATIVE_BOUND_REGEX.exec(bound.trim());
+  if (!match) return undefined;
+  const [, anchor, sign, amount, unit] = match;
+  return {
+    anchor: anchor as RelativeDateBound["anchor"],
+    offset: amount ? (sign === "-" ? -1 : 1) * Number(amount) : 0,
+    unit: (unit || "d") as RelativeDateBound["unit"],
+  };
+};
+
+// Returns the instant a relative bound stands for, in milliseconds since the epoch
+export const getRelativeBoundTime = (relative: RelativeDateBound, now = new Date()): number => {
+  const anchor = relative.anchor === "today" ? new Date(now).setUTCHours(0, 0, 0, 0) : now.getTime();
+  return anchor + relative.offset * UNIT_MILLISECONDS[relative.unit];
+};
+
+/**
+ * Checks an earliest/latest bound typed for a date, datetime or time field and resolves it to a value of that type.
+ * Dates and datetimes accept relative bounds, resolved in UTC; times only accept absolute values.
+ */
+export const resolveDateBound = (type: DateTimeFieldType, bound: string, now = new Date()): ResolvedDateBound => {
+  const trimmed = bound.trim();
+  const relative = parseRelativeBound(trimmed);
+  if (relative) {
+    if (type === "time") return { error: "Times only accept absolute bounds (HH:MM:SS)." };
+    if (type === "date" && relative.unit === "h") return { error: "Dates can only be shifted by days (d) or weeks (w)." };
+    const iso = new Date(getRelativeBoundTime(relative, now)).toISOString();
+    return { value: type === "date" ? iso.slice(0, 10) : iso.replace(/\.\d{3}Z$/, "Z"), relative };
+  }
+  if (type === "date" && !REGEX_DATE.test(trimmed)) {
+    return { error: "Use a date (YYYY-MM-DD), or today with an optional shift such as today-7d." };
+  }
+  if (type === "datetime" && (!REGEX_DATETIME.test(trimmed) || isNaN(Date.parse(withTimezone(trimmed))))) {
+    return { error: "Use an ISO 8601 date-time, or today/now with an optional shift such as now+2h." };
+  }
+  if (type === "time" && !REGEX_TIME.test(trimmed)) {
+    return { error: "Use a time (HH:MM:SS)." };
+  }
+  return { value: trimmed };
+};
+
+// Datetimes without an offset are read as UTC, so that bounds and values compare the same everywhere
+const withTimezone = (datetime: string): string => (REGEX_TIMEZONE_SUFFIX.test(datetime) ? datetime : `${datetime}Z`);
+
+// Compares two values of a date, datetime or time field, returning a negative number when `a` comes first
+export const compareDateValues = (type: DateTimeFieldType, a: string, b: string): number => {
+  if (type === "datetime") return Date.parse(withTimezone(a)) - Date.parse(withTimezone(b));
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Reports a field whose earliest bound comes after its latest one
+export const checkDateBounds = (field: SchemaField): string | undefined => {
+  if (!isDateTimeType(field.type) || !field.earliest || !field.latest) return undefined;
+  const earliest = resolveDateBound(field.type, field.earliest);
+  const latest = resolveDateBound(field.type, field.latest);
+  if (earliest.value && latest.value && compareDateValues(field.type, earliest.value, latest.value) > 0) {
+    return "The earliest value comes after the latest one, so no value is allowed.";
+  }
+  return undefined;
+};
+
+// Checks a value of a date, datetime or time field against the field's earliest and latest bounds
+export const checkDateRange = (field: SchemaField, value: string): string | undefined => {
+  if (!isDateTimeType(field.type)) return undefined;
+  const earliest = field.earliest ? resolveDateBound(field.type, field.earliest) : {};
+  const latest = field.latest ? resolveDateBound(field.type, field.latest) : {};
+  if (earliest.value && compareDateValues(field.type, value, earliest.value) < 0) {
+    return `must not be before ${field.earliest}${earliest.relative ? ` (${earliest.value})` : ""}.`;
+  }
+  if (latest.value && compareDateValues(field.type, value, latest.value) > 0) {
+    return `must not be after ${field.latest}${latest.relative ? ` (${latest.value})` : ""}.`;
+  }
+  return undefined;
+};
+
+// ISO 8601 pattern emitted for datetimes, with the timezone either optional or required
+export const getDateTimePattern = (requireTimezone?: boolean): string =>
+  `^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?(?:Z|[+-]\\d{2}:\\d{2})${requireTimezone ? "" : "?"}$`;
+
+// Whether a datetime pattern rejects values without a timezone, read from what it accepts
+export const patternRequiresTimezone = (pattern: string | undefined): boolean => {
+  if (!pattern) return false;
+  try {
+    const regex = new RegExp(pattern);
+    return !regex.test("2000-01-01T00:00:00") && regex.test("2000-01-01T00:00:00Z");
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,121 @@
+import { JsonSchema, isSchemaObject } from "@/utils/subschemas";
+
+interface DefinitionEdge {
+  target: string; // Name of the referenced definition
+  via: string; // Where the reference sits, e.g. "Category.children[]"
+  isMandatory: boolean; // Every valid value of the source holds a value of the target there
+}
+
+export interface DefinitionCycle {
+  typeNames: string[]; // Definitions referencing each other, directly or through the others
+  example: string; // One loop through them, e.g. "Category.children[] → Category"
+  isUnsatisfiable: boolean; // The loop requires a value at every step, so no finite value matches it
+}
+
+// Collects the references a schema makes to definitions. A reference is mandatory when it is reached through
+// required, non-nullable properties and non-empty lists only; union variants and map values are never mandatory.
+const collectEdges = (schema: JsonSchema | boolean | undefined, via: string, isMandatory: boolean, edges: DefinitionEdge[]) => {
+  if (!isSchemaObject(schema)) return;
+  if (schema.$ref) {
+    edges.push({ target: schema.$ref.split("/").pop(), via, isMandatory });
+    return;
+  }
+  const allowsNull = Array.isArray(schema.type) && schema.type.includes("null");
+  const required = new Set(schema.required || []);
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    collectEdges(property, `${via}.${name}`, isMandatory && !allowsNull && required.has(name), edges);
+  });
+  const tupleItems = Array.isArray(schema.items) ? schema.items : schema.prefixItems;
+  if (Array.isArray(tupleItems)) {
+    tupleItems.forEach((item, index) => {
+      collectEdges(item, `${via}[${index}]`, isMandatory && !allowsNull && index < (schema.minItems ?? 0), edges);
+    });
+  } else if (isSchemaObject(schema.items)) {
+    collectEdges(schema.items, `${via}[]`, isMandatory && !allowsNull && (schema.minItems ?? 0) > 0, edges);
+  }
+  if (isSchemaObject(schema.additionalProperties)) {
+    collectEdges(schema.additionalProperties, `${via}.*`, false, edges);
+  }
+  Object.values(schema.patternProperties || {}).forEach((value) => collectEdges(value, `${via}.*`, false, edges));
+  [...(schema.anyOf || []), ...(schema.oneOf || [])].forEach((variant) => collectEdges(variant, via, false, edges));
+  (schema.allOf || []).forEach((part) => collectEdges(part, via, isMandatory, edges));
+};
+
+// Groups the definitions into strongly connected components (Tarjan's algorithm), keeping those forming a loop
+const findLoopingGroups = (names: string[], edgesOf: (name: string) => DefinitionEdge[]): string[][] => {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const groups: string[][] = [];
+  const visit = (name: string) => {
+    indexes.set(name, indexes.size);
+    lowLinks.set(name, indexes.get(name)!);
+    stack.push(name);
+    edgesOf(name).forEach(({ target }) => {
+      if (!indexes.has(target)) {
+        visit(target);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(target)!));
+      } else if (stack.includes(target)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indexes.get(target)!));
+      }
+    });
+    if (lowLinks.get(name) === indexes.get(name)) {
+      const group = stack.splice(stack.indexOf(name));
+      if (group.length > 1 || edgesOf(name).some(({ target }) => target === name)) {
+        groups.push(group);
+      }
+    }
+  };
+  names.forEach((name) => {
+    if (!indexes.has(name)) visit(name);
+  });
+  return groups;
+};
+
+// Describes one loop through a group, starting and ending at its first definition
+const describeLoop = (group: string[], edgesOf: (name: string) => DefinitionEdge[]): string => {
+  const start = group[0];
+  const search = (name: string, steps: string[], seen: Set<string>): string[] | undefined => {
+    for (const edge of edgesOf(name).filter(({ target }) => group.includes(target))) {
+      if (edge.target === start) return [...steps, edge.via, start];
+      if (!seen.has(edge.target)) {
+        const found = search(edge.target, [...steps, edge.via], new Set([...seen, edge.target]));
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  return (search(start, [], new Set([start])) || [start]).join(" → ");
+};
+
+/**
+ * Finds the definitions of a JSON Schema that reference themselves, directly or through each other.
+ * Such recursion is valid as long as some step of the loop can be left empty (an optional or nullable
+ * property, a list, a union variant...); loops requiring a value at every step are reported as unsatisfiable.
+ */
+export const findDefinitionCycles = (definitions: { [name: string]: JsonSchema }): DefinitionCycle[] => {
+  const edges = new Map<string, DefinitionEdge[]>();
+  Object.entries(definitions).forEach(([name, definition]) => {
+    const definitionEdges: DefinitionEdge[] = [];
+    collectEdges(definition, name, true, definitionEdges);
+    edges.set(name, definitionEdges.filter(({ target }) => target in definitions));
+  });
+  const names = Object.keys(definitions);
+  const allEdgesOf = (name: string) => edges.get(name) || [];
+  const mandatoryEdgesOf = (name: string) => allEdgesOf(name).filter(({ isMandatory }) => isMandatory);
+
+  const unsatisfiableGroups = findLoopingGroups(names, mandatoryEdgesOf);
+  return findLoopingGroups(names, allEdgesOf).map((group) => {
+    const unsatisfiableGroup = unsatisfiableGroups.find((candidate) => candidate.every((name) => group.includes(name)));
+    return {
+      typeNames: group,
+      example: unsatisfiableGroup ? describeLoop(unsatisfiableGroup, mandatoryEdgesOf) : describeLoop(group, allEdgesOf),
+      isUnsatisfiable: !!unsatisfiableGroup,
+    };
+  });
+};
+
+// Returns the names of the definitions taking part in a recursion
+export const getRecursiveDefinitionNames = (definitions: { [name: string]: JsonSchema }): Set<string> => {
+  return new Set(findDefinitionCycles(definitions).flatMap(({ typeNames }) => typeNames));
+};
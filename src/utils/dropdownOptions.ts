@@ -0,0 +1,25 @@
+import { DropdownOptionType, SchemaField } from "@/components/FieldEditor";
+
+/**
+ * Converts a dropdown option, stored as typed in the editor, to the JSON value emitted in `enum`.
+ * Returns undefined when the option is not a valid value of the dropdown's option type.
+ */
+export const parseOptionValue = (option: string, optionType: DropdownOptionType | undefined): string | number | undefined => {
+  if (!optionType || optionType === "string") return option;
+  const value = Number(option);
+  if (option.trim() === "" || !isFinite(value)) return undefined;
+  if (optionType === "integer" && !Number.isInteger(value)) return undefined;
+  return value;
+};
+
+// Returns the typed values of a dropdown's options, skipping those that do not match its option type
+export const getOptionValues = (field: SchemaField): (string | number)[] => {
+  return (field.options || [])
+    .map(option => parseOptionValue(option, field.optionType))
+    .filter((value): value is string | number => value !== undefined);
+};
+
+// Returns the label shown for a dropdown option: its display label, or the value itself
+export const getOptionLabel = (field: SchemaField, option: string): string => {
+  return field.optionLabels?.[option]?.label || option;
+};
@@ -0,0 +1,52 @@
+import { ExtensionKeyword } from "@/components/FieldEditor";
+import { JsonSchema } from "@/utils/subschemas";
+
+// Vendor extension names start with "x-", which keeps them apart from JSON Schema's own keywords
+const EXTENSION_NAME_REGEX = /^x-[A-Za-z0-9_.-]+$/;
+
+// Extension keywords the builder writes itself from other field settings, such as the dropdown labels
+const BUILDER_EXTENSION_KEYWORDS = ["x-enumNames", "x-enumDescriptions", "x-formatMinimum", "x-formatMaximum", "x-contentMediaTypes", "x-maxFileSize"];
+
+// Whether a keyword is a user-defined vendor extension
+export const isExtensionKeyword = (keyword: string): boolean =>
+  EXTENSION_NAME_REGEX.test(keyword) && !BUILDER_EXTENSION_KEYWORDS.includes(keyword);
+
+/**
+ * Parses each extension typed in the editor into the JSON value emitted under its name.
+ * Returns an `error` for invalid names, names already used by an earlier extension, and values that are not JSON.
+ */
+export const parseExtensionKeywords = (extensions: ExtensionKeyword[] | undefined): { value?: unknown; error?: string }[] => {
+  return (extensions || []).map((extension, index) => {
+    if (BUILDER_EXTENSION_KEYWORDS.includes(extension.name)) {
+      return { error: `"${extension.name}" is set by the builder itself.` };
+    }
+    if (!isExtensionKeyword(extension.name)) {
+      return { error: "Names must start with \"x-\", followed by letters, digits, dots, dashes or underscores." };
+    }
+    if ((extensions || []).slice(0, index).some((other) => other.name === extension.name)) {
+      return { error: `"${extension.name}" is already set above.` };
+    }
+    try {
+      return { value: JSON.parse(extension.value) };
+    } catch (e) {
+      return { error: "The value is not valid JSON." };
+    }
+  });
+};
+
+// Builds the extension keywords emitted in a schema, leaving out invalid extensions
+export const buildExtensionKeywords = (extensions: ExtensionKeyword[] | undefined): { [keyword: string]: unknown } => {
+  const keywords: { [keyword: string]: unknown } = {};
+  parseExtensionKeywords(extensions).forEach(({ value, error }, index) => {
+    if (!error) keywords[extensions![index].name] = value;
+  });
+  return keywords;
+};
+
+// Reads the extension keywords of an imported schema back as the text edited for them
+export const convertExtensionKeywords = (schema: JsonSchema | undefined): ExtensionKeyword[] | undefined => {
+  const extensions = Object.entries(schema || {})
+    .filter(([keyword]) => isExtensionKeyword(keyword))
+    .map(([name, value]) => ({ name, value: JSON.stringify(value) }));
+  return extensions.length > 0 ? extensions : undefined;
+};
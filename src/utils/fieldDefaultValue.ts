@@ -0,0 +1,223 @@
+import { OutputProfile, SchemaField, StringFormat } from "@/components/FieldEditor";
+import { getOptionValues, parseOptionValue } from "@/utils/dropdownOptions";
+import {
+  REGEX_DATE,
+  REGEX_DATETIME,
+  REGEX_EMAIL,
+  REGEX_HOSTNAME,
+  REGEX_IPV4,
+  REGEX_IPV6,
+  REGEX_TIME,
+  REGEX_TIMEZONE_SUFFIX,
+  REGEX_URI,
+  REGEX_UUID,
+} from "@/lib/regexes";
+import { checkDateRange } from "@/utils/dateBounds";
+import { checkFileContent } from "@/utils/fileContent";
+
+const FORMAT_REGEXES: Record<StringFormat, RegExp> = {
+  email: REGEX_EMAIL,
+  uri: REGEX_URI,
+  uuid: REGEX_UUID,
+  hostname: REGEX_HOSTNAME,
+  ipv4: REGEX_IPV4,
+  ipv6: REGEX_IPV6,
+};
+
+// Checks a multiple with a tolerance, since steps like 0.01 are not exact in floating point
+const isMultipleOf = (value: number, step: number): boolean => {
+  const quotient = value / step;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+};
+
+// Field types whose default is written as JSON rather than as a plain value
+export const isJsonDefault = (field: SchemaField): boolean =>
+  field.isMultiple || ["object", "map", "tuple", "union", "ref"].includes(field.type);
+
+// Whether a field's value may be null. The LLM strict profile lists every property as required,
+// so an optional field is written as a nullable one there.
+export const allowsNull = (field: SchemaField, profile: OutputProfile): boolean =>
+  !!field.isNullable || (profile === "llm-strict" && !field.isRequired);
+
+// What a value typed in the editor is used as, named in its error messages
+type FieldValueSubject = "default" | "example";
+
+// Checks a plain JSON value against a scalar field's type and constraints, returning the end of an error sentence
+const checkScalarValue = (field: SchemaField, value: unknown): string | undefined => {
+  switch (field.type) {
+    case "int":
+    case "float":
+    case "currency":
+      if (typeof value !== "number" || !isFinite(value)) return "must be a number.";
+      if (field.type === "int" && !Number.isInteger(value)) return "must be a whole number.";
+      if (field.minValue !== undefined && value < field.minValue) return `must be at least ${field.minValue}.`;
+      if (field.maxValue !== undefined && value > field.maxValue) return `must be at most ${field.maxValue}.`;
+      if (field.exclusiveMinValue !== undefined && value <= field.exclusiveMinValue) return `must be greater than ${field.exclusiveMinValue}.`;
+      if (field.exclusiveMaxValue !== undefined && value >= field.exclusiveMaxValue) return `must be less than ${field.exclusiveMaxValue}.`;
+      if (field.multipleOf && !isMultipleOf(value, field.multipleOf)) return `must be a multiple of ${field.multipleOf}.`;
+      return undefined;
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "must be true or false.";
+    case "dropdown":
+      return getOptionValues(field).some(option => option === value) ? undefined : "must be one of the dropdown options.";
+    case "date":
+      if (typeof value !== "string" || !REGEX_DATE.test(value)) return "must be a date (YYYY-MM-DD).";
+      return checkDateRange(field, value);
+    case "datetime":
+      if (typeof value !== "string" || !REGEX_DATETIME.test(value)) return "must be an ISO 8601 date-time.";
+      if (field.requireTimezone && !REGEX_TIMEZONE_SUFFIX.test(value)) return "must end with a timezone (Z or +HH:MM).";
+      return checkDateRange(field, value);
+    case "time":
+      if (typeof value !== "string" || !REGEX_TIME.test(value)) return "must be a time (HH:MM:SS).";
+      return checkDateRange(field, value);
+    case "file":
+      return checkFileContent(field, value);
+    case "string":
+      if (typeof value !== "string") return "must be a string.";
+      if (field.minLength !== undefined && value.length < field.minLength) return `must have at least ${field.minLength} characters.`;
+      if (field.maxLength !== undefined && value.length > field.maxLength) return `must have at most ${field.maxLength} characters.`;
+      if (field.format && !FORMAT_REGEXES[field.format].test(value)) return `must be a valid ${field.format}.`;
+      if (field.pattern) {
+        try {
+          if (!new RegExp(field.pattern).test(value)) return "does not match the pattern.";
+        } catch (e) {
+          // An invalid pattern cannot be checked; the value is kept as typed
+        }
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Checks a JSON value against the field's schema as written for the output profile: its array level,
+ * properties, map values, tuple positions, union variants and scalar constraints.
+ * References and arrays nested inside the outermost one are not checked.
+ * Returns the end of an error sentence, prefixed with the path of the offending part.
+ */
+const checkJsonValue = (field: SchemaField, value: unknown, profile: OutputProfile, path = "", isItem = false): string | undefined => {
+  const at = (fragment: string) => (path ? `at ${path} ${fragment}` : fragment);
+
+  if (value === null) {
+    return !isItem && allowsNull(field, profile) ? undefined : at("cannot be null.");
+  }
+  if (field.isMultiple && !isItem) {
+    if (!Array.isArray(value)) return at("must be a JSON array.");
+    if (field.minItems !== undefined && value.length < field.minItems) return at(`must have at least ${field.minItems} items.`);
+    if (field.maxItems !== undefined && value.length > field.maxItems) return at(`must have at most ${field.maxItems} items.`);
+    if (field.innerArrays && field.innerArrays.length > 0) return undefined;
+    for (let index = 0; index < value.length; index++) {
+      const error = checkJsonValue(field, value[index], profile, `${path}[${index}]`, true);
+      if (error) return error;
+    }
+    return undefined;
+  }
+
+  const isPlainObject = typeof value === "object" && !Array.isArray(value);
+  switch (field.type) {
+    case "object": {
+      if (!isPlainObject) return at("must be a JSON object.");
+      const properties = (field.children || []).filter(child => child.name);
+      const keyCount = Object.keys(value).length;
+      if (field.minProperties !== undefined && keyCount < field.minProperties) return at(`must have at least ${field.minProperties} properties.`);
+      if (field.maxProperties !== undefined && keyCount > field.maxProperties) return at(`must have at most ${field.maxProperties} properties.`);
+      for (const key of Object.keys(value).filter(key => !properties.some(child => child.name === key))) {
+        // Types extending others also accept the inherited properties, which are not resolved here
+        if ((field.additionalPropertiesMode || "closed") === "closed" && !field.extendsIds?.length) return at(`has unknown property "${key}".`);
+        const error = field.additionalPropertiesMode === "typed" && field.additionalPropertiesType
+          && checkJsonValue(field.additionalPropertiesType, value[key], profile, path ? `${path}.${key}` : key);
+        if (error) return error;
+      }
+      for (const child of properties) {
+        // Only the LLM strict profile lists optional properties in `required`
+        if (!(child.name in value)) {
+          if (profile === "llm-strict" || child.isRequired) return at(`must include "${child.name}".`);
+          continue;
+        }
+        const error = checkJsonValue(child, value[child.name], profile, path ? `${path}.${child.name}` : child.name);
+        if (error) return error;
+      }
+      return undefined;
+    }
+    case "map": {
+      if (!isPlainObject) return at("must be a JSON object.");
+      for (const key of Object.keys(value)) {
+        try {
+          if (field.keyPattern && !new RegExp(field.keyPattern).test(key)) return at(`has key "${key}" not matching the key pattern.`);
+        } catch (e) {
+          // An invalid key pattern cannot be checked
+        }
+        const error = field.mapValue && checkJsonValue(field.mapValue, value[key], profile, path ? `${path}.${key}` : key);
+        if (error) return error;
+      }
+      return undefined;
+    }
+    case "tuple": {
+      const positions = field.tupleItems || [];
+      if (!Array.isArray(value)) return at("must be a JSON array.");
+      if (value.length < positions.length) return at(`must have ${positions.length} items.`);
+      if (value.length > positions.length && !field.additionalItems) return at(`must have at most ${positions.length} items.`);
+      for (let index = 0; index < positions.length; index++) {
+        const error = checkJsonValue(positions[index], value[index], profile, `${path}[${index}]`);
+        if (error) return error;
+      }
+      return undefined;
+    }
+    case "union":
+      return (field.variants || []).some(variant => !checkJsonValue(variant, value, profile)) ? undefined : at("does not match any variant.");
+    case "ref":
+      return undefined;
+    default: {
+      const error = checkScalarValue(field, value);
+      return error && at(error);
+    }
+  }
+};
+
+/**
+ * Parses a value typed in the editor, such as the default or an example, into the JSON value emitted in the schema,
+ * checking it against the field's type and constraints under the output profile.
+ * Arrays and structured types take JSON; other types take a plain value.
+ * Returns an empty result for empty text, and an `error` when the text is not a valid value of the field.
+ */
+const parseFieldValue = (
+  field: SchemaField,
+  text: string | undefined,
+  subject: FieldValueSubject,
+  profile: OutputProfile
+): { value?: unknown; error?: string } => {
+  if (text === undefined || text === "") return {};
+
+  let value: unknown = text;
+  if (isJsonDefault(field)) {
+    try {
+      value = JSON.parse(text);
+    } catch (e) {
+      return { error: `Enter the ${subject} as JSON.` };
+    }
+  } else if (field.type === "int" || field.type === "float" || field.type === "currency") {
+    value = text.trim() === "" ? NaN : Number(text);
+  } else if (field.type === "boolean") {
+    value = text === "true" ? true : text === "false" ? false : text;
+  } else if (field.type === "dropdown") {
+    value = (field.options || []).includes(text) ? parseOptionValue(text, field.optionType) ?? text : undefined;
+  }
+
+  const error = checkJsonValue(field, value, profile);
+  return error ? { error: `The ${subject} ${error}` } : { value };
+};
+
+// Parses the default value typed in the editor into the JSON value emitted as `default`
+export const parseDefaultValue = (field: SchemaField, profile: OutputProfile): { value?: unknown; error?: string } =>
+  parseFieldValue(field, field.defaultValue, "default", profile);
+
+// Parses each example typed in the editor into the JSON value emitted in `examples`, in the same way as the default
+export const parseExampleValues = (field: SchemaField, profile: OutputProfile): { value?: unknown; error?: string }[] =>
+  (field.examples || []).map(example => parseFieldValue(field, example, "example", profile));
+
+// Formats an imported `default` or example as the text parsed back for the same field
+export const formatDefaultValue = (field: SchemaField, value: unknown): string | undefined => {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && !isJsonDefault(field) ? value : JSON.stringify(value);
+};
@@ -0,0 +1,42 @@
+import { SchemaField } from "@/components/FieldEditor";
+import { REGEX_BASE64 } from "@/lib/regexes";
+
+// Length of the base64 text encoding a file of `size` bytes
+export const getBase64Length = (size: number): number => 4 * Math.ceil(size / 3);
+
+// Size in bytes of the largest file whose base64 text fits in `length` characters
+export const getMaxDecodedSize = (length: number): number => Math.floor(length / 4) * 3;
+
+// Largest file in bytes a file schema allows: the exact size kept in x-maxFileSize, or else what its maxLength can encode
+export const getSchemaMaxFileSize = (schema: { maxLength?: number; "x-maxFileSize"?: unknown }): number | undefined => {
+  if (typeof schema["x-maxFileSize"] === "number") return schema["x-maxFileSize"];
+  return schema.maxLength !== undefined ? getMaxDecodedSize(schema.maxLength) : undefined;
+};
+
+// Size in bytes of the file encoded by a base64 text
+export const getDecodedSize = (base64: string): number =>
+  getMaxDecodedSize(base64.length) - (base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0);
+
+// Writes a size in bytes for display, e.g. "1.5 MB"
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Number((size / 1024).toFixed(1))} KB`;
+  return `${Number((size / (1024 * 1024)).toFixed(1))} MB`;
+};
+
+// Whether a media type is accepted by a field, whose types may end with a wildcard subtype such as "image/*"
+export const isAcceptedMediaType = (field: SchemaField, mediaType: string): boolean => {
+  const mediaTypes = field.mediaTypes || [];
+  return mediaTypes.length === 0 || mediaTypes.some((accepted) =>
+    accepted.endsWith("/*") ? mediaType.startsWith(accepted.slice(0, -1)) : accepted === mediaType
+  );
+};
+
+// Checks a value of a file field: base64 text of a file no larger than the field allows
+export const checkFileContent = (field: SchemaField, value: unknown): string | undefined => {
+  if (typeof value !== "string" || !REGEX_BASE64.test(value)) return "must be base64 text.";
+  if (field.maxFileSize !== undefined && getDecodedSize(value) > field.maxFileSize) {
+    return `must encode at most ${formatFileSize(field.maxFileSize)}.`;
+  }
+  return undefined;
+};
@@ -0,0 +1,221 @@
+import { getSchemaDefinitions } from "@/utils/schemaDrafts";
+import { JsonSchema, isSchemaObject, mergeAllOfPart } from "@/utils/subschemas";
+
+// A schema in Gemini's dialect: uppercase types, `nullable` for null and properties listed in order
+export interface GeminiSchema {
+  type?: string;
+  format?: string;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: { [name: string]: GeminiSchema };
+  required?: string[];
+  propertyOrdering?: string[];
+  items?: GeminiSchema;
+  anyOf?: GeminiSchema[];
+  minimum?: number;
+  maximum?: number;
+  maxItems?: number;
+  example?: unknown;
+  [keyword: string]: unknown;
+}
+
+export interface GeminiSchemaConversion {
+  schema: GeminiSchema | undefined; // The responseSchema of Gemini's generationConfig; undefined when nothing could be expressed
+  warnings: string[]; // Constructs Gemini cannot express, which were left out or loosened
+}
+
+const GEMINI_TYPES: { [type: string]: string } = {
+  string: "STRING",
+  number: "NUMBER",
+  integer: "INTEGER",
+  boolean: "BOOLEAN",
+  array: "ARRAY",
+  object: "OBJECT",
+};
+
+// Formats Gemini accepts for each type; strings with an enum get the "enum" format
+const GEMINI_FORMATS: { [type: string]: string[] } = {
+  STRING: ["date-time"],
+  NUMBER: ["float", "double"],
+  INTEGER: ["int32", "int64"],
+};
+
+// Keywords Gemini reads as JSON Schema does, copied as they are
+const COPIED_KEYWORDS = [
+  "title", "description", "minLength", "maxLength", "pattern", "minimum", "maximum",
+  "minItems", "maxItems", "minProperties", "maxProperties",
+];
+
+// Keywords the conversion rewrites into Gemini's own
+const CONVERTED_KEYWORDS = [
+  "$ref", "allOf", "anyOf", "oneOf", "type", "properties", "required", "additionalProperties",
+  "items", "prefixItems", "additionalItems", "enum", "const", "format", "exclusiveMinimum", "exclusiveMaximum", "examples",
+];
+
+// Annotations that do not change what the model may answer, left out without a warning
+const IGNORED_KEYWORDS = ["$schema", "$comment", "definitions", "$defs", "default", "readOnly", "writeOnly", "deprecated", "currency"];
+
+const isNullSchema = (schema: JsonSchema): boolean => schema.type === "null" && Object.keys(schema).length === 1;
+
+/**
+ * Converts a JSON Schema into the OpenAPI subset Gemini accepts as `responseSchema`: types are uppercase,
+ * null is allowed through `nullable`, objects list their `propertyOrdering` and references are inlined.
+ * Recursive references, maps and objects without properties cannot be expressed and are left out;
+ * other unsupported constraints are left out or described, and every such loss is listed in `warnings`.
+ */
+export const toGeminiResponseSchema = (jsonSchema: JsonSchema): GeminiSchemaConversion => {
+  const definitions = getSchemaDefinitions(jsonSchema);
+  const warnings: string[] = [];
+
+  // Returns undefined for schemas Gemini cannot express, which are left out of the schema holding them
+  const convert = (schema: JsonSchema, path: string, definitionStack: string[]): GeminiSchema | undefined => {
+    if (typeof schema.$ref === "string") {
+      const name = schema.$ref.split("/").pop();
+      if (!definitions[name]) {
+        warnings.push(`${path}: "${schema.$ref}" is not defined, so the value was left out.`);
+        return undefined;
+      }
+      if (definitionStack.includes(name)) {
+        warnings.push(`${path}: ${name} contains itself, which Gemini cannot express, so the value was left out.`);
+        return undefined;
+      }
+      return convert(definitions[name], path, [...definitionStack, name]);
+    }
+
+    // Base types and discriminator tags in an allOf are merged into one schema
+    const source = { ...schema };
+    let stack = definitionStack;
+    while (Array.isArray(source.allOf)) {
+      const parts = source.allOf;
+      delete source.allOf;
+      parts.forEach((part) => {
+        const name = typeof part.$ref === "string" ? part.$ref.split("/").pop() : undefined;
+        if (name && (!definitions[name] || stack.includes(name))) {
+          warnings.push(`${path}: ${name} could not be merged in, so its properties were left out.`);
+          return;
+        }
+        if (name) stack = [...stack, name];
+        mergeAllOfPart(source, name ? definitions[name] : part);
+      });
+    }
+
+    const result: GeminiSchema = {};
+    const notes: string[] = []; // Constraints Gemini cannot enforce, told to the model in the description instead
+    const types = Array.isArray(source.type) ? source.type : source.type ? [source.type] : [];
+    if (types.includes("null")) result.nullable = true;
+    const nonNullTypes = types.filter((type) => type !== "null");
+    if (nonNullTypes.length > 1) {
+      warnings.push(`${path}: Gemini allows one type per value, so only ${nonNullTypes[0]} was kept.`);
+    }
+    const type = nonNullTypes[0];
+    if (type && GEMINI_TYPES[type]) result.type = GEMINI_TYPES[type];
+
+    // A union with null is nullable; a single other variant takes the place of the union
+    const variants = source.anyOf || source.oneOf;
+    if (Array.isArray(variants)) {
+      if (variants.some(isNullSchema)) result.nullable = true;
+      const convertedVariants = variants
+        .filter((variant) => !isNullSchema(variant))
+        .map((variant) => convert(variant, path, stack))
+        .filter((variant) => variant !== undefined);
+      if (convertedVariants.length === 0) return undefined;
+      if (convertedVariants.length === 1) {
+        Object.assign(result, convertedVariants[0], result.nullable ? { nullable: true } : {});
+      } else {
+        result.anyOf = convertedVariants;
+      }
+    }
+
+    if (type === "object") {
+      const properties: { [name: string]: GeminiSchema } = {};
+      Object.entries(source.properties || {}).forEach(([name, property]) => {
+        const converted = convert(property, `${path}.${name}`, stack);
+        if (converted !== undefined) properties[name] = converted;
+      });
+      if (Object.keys(properties).length === 0) {
+        warnings.push(`${path}: Gemini objects need declared properties, so this map or empty object was left out.`);
+        return undefined;
+      }
+      if (source.additionalProperties !== undefined && source.additionalProperties !== false) {
+        warnings.push(`${path}: Gemini objects only hold their declared properties, so undeclared ones were left out.`);
+      }
+      result.properties = properties;
+      const required = (source.required || []).filter((name) => name in properties);
+      if (required.length > 0) result.required = required;
+      result.propertyOrdering = Object.keys(properties);
+    }
+
+    if (type === "array") {
+      const positions = Array.isArray(source.prefixItems) ? source.prefixItems : Array.isArray(source.items) ? source.items : undefined;
+      let items: GeminiSchema | undefined;
+      if (positions) {
+        warnings.push(`${path}: Gemini has no tuples, so each item may match the type of any position.`);
+        const convertedPositions = positions
+          .map((position, index) => convert(position, `${path}[${index}]`, stack))
+          .filter((position) => position !== undefined);
+        items = convertedPositions.length > 1 ? { anyOf: convertedPositions } : convertedPositions[0];
+        if ((source.items === false || source.additionalItems === false) && source.maxItems === undefined) {
+          result.maxItems = positions.length;
+        }
+      } else if (isSchemaObject(source.items)) {
+        items = convert(source.items, `${path}[]`, stack);
+      } else {
+        warnings.push(`${path}: Gemini arrays need an item type, so the list was left out.`);
+      }
+      if (items === undefined) return undefined;
+      result.items = items;
+    }
+
+    const enumValues = source.const !== undefined ? [source.const] : source.enum;
+    if (Array.isArray(enumValues)) {
+      const values = enumValues.filter((value) => value !== null);
+      if (values.length > 0 && values.every((value): value is string => typeof value === "string")) {
+        result.type = "STRING";
+        result.enum = values;
+        result.format = "enum";
+      } else {
+        warnings.push(`${path}: Gemini enums only hold strings, so the allowed values were described instead.`);
+        notes.push(`One of: ${values.map((value) => JSON.stringify(value)).join(", ")}.`);
+      }
+    }
+    if (typeof source.format === "string" && result.format !== "enum") {
+      if ((GEMINI_FORMATS[result.type] || []).includes(source.format)) {
+        result.format = source.format;
+      } else {
+        warnings.push(`${path}: Gemini does not support the "${source.format}" format, so it was described instead.`);
+        notes.push(`Format: ${source.format}.`);
+      }
+    }
+    if (Array.isArray(source.examples) && source.examples.length > 0) {
+      result.example = source.examples[0];
+    }
+
+    COPIED_KEYWORDS.forEach((keyword) => {
+      if (source[keyword] !== undefined) result[keyword] = source[keyword];
+    });
+    // Exclusive bounds become inclusive ones, applied after the copied bounds so the tighter of the two is kept
+    (["minimum", "maximum"] as const).forEach((bound) => {
+      const value = source[bound === "minimum" ? "exclusiveMinimum" : "exclusiveMaximum"];
+      if (typeof value !== "number") return;
+      warnings.push(`${path}: Gemini has no exclusive bounds, so the exclusive ${bound} was made inclusive.`);
+      const inclusiveBound = result[bound];
+      if (inclusiveBound === undefined || (bound === "minimum" ? value > inclusiveBound : value < inclusiveBound)) {
+        result[bound] = value;
+      }
+    });
+    if (notes.length > 0) {
+      result.description = [result.description, ...notes].filter(Boolean).join(" ");
+    }
+    const leftOutKeywords = Object.keys(source).filter((keyword) =>
+      ![...COPIED_KEYWORDS, ...CONVERTED_KEYWORDS, ...IGNORED_KEYWORDS].includes(keyword) && !keyword.startsWith("x-")
+    );
+    if (leftOutKeywords.length > 0) {
+      warnings.push(`${path}: left out ${leftOutKeywords.join(", ")}, which Gemini does not support.`);
+    }
+    return result;
+  };
+
+  return { schema: convert(jsonSchema, "root", []), warnings: Array.from(new Set(warnings)) };
+};
@@ -1,5 +1,14 @@
-import { SchemaField, SchemaFieldType } from "@/components/FieldEditor";
+import { ArrayLevel, ConditionalRule, ContainsCondition, ObjectPropertyOptions, OutputProfile, PropertyDependency, RuleConditionOperator, SchemaDraft, SchemaField, SchemaFieldType, SchemaSettings } from "@/components/FieldEditor";
 import { toTitleCase } from "@/lib/utils";
+import { getNestedFieldLists } from "@/utils/schemaFieldTree";
+import { allowsNull, parseDefaultValue, parseExampleValues } from "@/utils/fieldDefaultValue";
+import { getOptionLabel, parseOptionValue } from "@/utils/dropdownOptions";
+import { buildExtensionKeywords } from "@/utils/extensionKeywords";
+import { getDateTimePattern, isDateTimeType, resolveDateBound } from "@/utils/dateBounds";
+import { getBase64Length } from "@/utils/fileContent";
+import { REGEX_BASE64 } from "@/lib/regexes";
+import { getDefinitionRef, getDefinitionsKeyword, getSchemaDraftUri } from "@/utils/schemaDrafts";
+import { JsonSchema } from "@/utils/subschemas";
 
 const currencySymbolMap: Record<string, string> = {
   "USD": "$",
@@ -23,15 +32,20 @@ const mapTypeToJsonSchemaType = (type: SchemaFieldType): string => {
   switch (type) {
     case "int":
     case "float":
+    case "currency": // Currency amounts are numbers; the currency code is carried alongside
       return "number";
     case "date":
     case "datetime":
     case "time": // Added time
-    case "currency":
     case "dropdown": // Dropdown is a string type with enum
+    case "file": // Files are written as base64 text
       return "string";
     case "boolean": // Add boolean type mapping
       return "boolean";
+    case "map": // Maps are objects whose keys are not known in advance
+      return "object";
+    case "tuple": // Tuples are arrays with a type per position
+      return "array";
     default:
       return type;
   }
@@ -51,321 +65,266 @@ const mapTypeToJsonSchemaFormat = (type: SchemaFieldType): string | undefined =>
 };
 
 /**
- * Recursively builds the properties and required array for a given set of SchemaFields.
- * This function is designed to be called for the root schema, nested objects, and reusable type definitions.
- * It takes the full list of reusableTypes and the already built definitions to resolve references.
+ * Tags a union variant with a constant discriminator property.
+ * Inline objects get the property directly; references are wrapped in an `allOf`
+ * that pins the property (the referenced type must declare it as well).
+ * Other variants cannot carry a property and are returned unchanged.
  */
-const buildPropertiesAndRequired = (
-  fields: SchemaField[],
-  reusableTypes: SchemaField[],
-  definitions: { [key: string]: any }
-): { properties: any; required: string[] } => {
-  const properties: { [key: string]: any } = {};
-  const required: string[] = [];
-
-  fields.forEach((field) => {
-    if (field.name === "") {
-      // Skip fields with empty names, they are incomplete
-      return;
-    }
-
-    let fieldSchema: any = {};
-
-    if (field.type === "ref") {
-      const referencedType = reusableTypes.find(rt => rt.id === field.refId);
-      if (referencedType && referencedType.name && definitions[referencedType.name]) {
-        // Reference to an already built definition
-        fieldSchema = { "$ref": `#/definitions/${referencedType.name}` };
-      } else {
-        // Fallback if reference is invalid or not found in definitions
-        fieldSchema = { type: "object", description: "Invalid or undefined reference" };
-      }
-    } else {
-      const baseType = mapTypeToJsonSchemaType(field.type);
-      const format = mapTypeToJsonSchemaFormat(field.type);
-
-      fieldSchema.type = baseType;
-
-      if (format) {
-        fieldSchema.format = format;
-      }
-      // Use field.title if available, otherwise generate from field.name
-      fieldSchema.title = field.title || toTitleCase(field.name);
-      
-      if (field.description) {
-        fieldSchema.description = field.description;
-      }
-      if (field.example !== undefined) {
-        // Attempt to parse example based on type for better JSON representation
-        try {
-          if (field.type === "int" || field.type === "float") {
-            fieldSchema.example = parseFloat(field.example);
-            if (isNaN(fieldSchema.example)) delete fieldSchema.example; // Remove if not a valid number
-          } else if (field.type === "boolean") {
-            fieldSchema.example = field.example.toLowerCase() === 'true';
-          } else {
-            fieldSchema.example = field.example;
-          }
-        } catch (e) {
-          fieldSchema.example = field.example; // Fallback to string if parsing fails
-        }
-      }
-
-      // Add pattern for date and datetime types
-      if (field.type === "date") {
-        fieldSchema.pattern = "^\\d{4}-\\d{2}-\\d{2}$"; // YYYY-MM-DD
-      } else if (field.type === "datetime") {
-        fieldSchema.pattern = "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?(?:Z|[+-]\\d{2}:\\d{2})?$"; // ISO 8601
-      } else if (field.type === "time") { // Updated pattern for time
-        fieldSchema.pattern = "^([01]\\d|2[0-3]):([0-5]\\d):([0-5]\\d)$"; // HH:MM:SS
-      } else if (field.type === "currency" && field.currency) {
-        // For currency, we just add a custom 'currency' property and the symbol for context,
-        // but don't enforce a pattern as it's not a standard JSON Schema feature.
-        fieldSchema.currency = field.currency;
-        fieldSchema.description = field.description ? `${field.description} (Currency: ${getCurrencySymbol(field.currency)})` : `Currency field (e.g., ${getCurrencySymbol(field.currency)}123.45)`;
-      } else if (field.type === "dropdown" && field.options && field.options.length > 0) {
-        fieldSchema.enum = field.options;
-      } else if (field.type === "string") { // Apply pattern, minLength, maxLength for generic string type
-        if (field.pattern) {
-          fieldSchema.pattern = field.pattern;
-        }
-        if (field.minLength !== undefined) {
-          fieldSchema.minLength = field.minLength;
-        }
-        if (field.maxLength !== undefined) {
-          fieldSchema.maxLength = field.maxLength;
-        }
-      }
-
-      // Add min/max values for number types (int and float only)
-      if (field.type === "int" || field.type === "float") {
-        if (field.minValue !== undefined) {
-          fieldSchema.minimum = field.minValue;
-        }
-        if (field.maxValue !== undefined) {
-          fieldSchema.maximum = field.maxValue;
-        }
-      }
-
-      if (field.type === "object" && field.children) {
-        // Recursive call for nested objects, passing definitions for nested refs
-        const nestedSchema = buildPropertiesAndRequired(field.children, reusableTypes, definitions);
-        fieldSchema.properties = nestedSchema.properties;
-        // For nested objects, only include truly required fields in their 'required' array
-        if (nestedSchema.required.length > 0) {
-          fieldSchema.required = nestedSchema.required;
-        }
-        fieldSchema.additionalProperties = false; // Add additionalProperties: false for nested objects
-      }
-
-      // Handle isRequired logic: if not required, allow null type
-      // This should NOT apply to 'ref' types, as 'ref' is a schema keyword, not a data type.
-      // The nullability of a referenced object should be defined within the referenced schema itself.
-      if (!field.isRequired && field.type !== "ref") {
-        fieldSchema.type = Array.isArray(fieldSchema.type)
-          ? [...fieldSchema.type, "null"]
-          : [fieldSchema.type, "null"];
-      }
-    }
+const addDiscriminatorToVariant = (variantSchema: JsonSchema, discriminator: string, value: string): JsonSchema => {
+  const tagSchema = { type: "string", const: value };
+  if (variantSchema.$ref) {
+    return {
+      allOf: [
+        variantSchema,
+        { type: "object", properties: { [discriminator]: tagSchema }, required: [discriminator] },
+      ],
+    };
+  }
+  const variantType = Array.isArray(variantSchema.type) ? variantSchema.type : [variantSchema.type];
+  if (variantType.includes("object")) {
+    const { [discriminator]: _existing, ...otherProperties } = variantSchema.properties || {};
+    return {
+      ...variantSchema,
+      properties: { [discriminator]: tagSchema, ...otherProperties },
+      required: [discriminator, ...(variantSchema.required || []).filter((name: string) => name !== discriminator)],
+    };
+  }
+  return variantSchema;
+};
 
-    if (field.isMultiple) {
-      const arraySchema: any = {
-        type: "array",
-        items: fieldSchema, // The item schema is the fieldSchema itself
-      };
-      if (field.minItems !== undefined) {
-        arraySchema.minItems = field.minItems;
-      }
-      if (field.maxItems !== undefined) {
-        arraySchema.maxItems = field.maxItems; // Changed to maximum for array length
-      }
-      properties[field.name] = arraySchema;
+/**
+ * Applies an object's handling of undeclared properties and its property counts.
+ * Objects are closed unless set otherwise; `canSetAdditionalProperties` is false for objects in an
+ * inheritance chain, whose undeclared properties may be declared by the types combined with them.
+ */
+const applyObjectPropertyOptions = (
+  objectSchema: JsonSchema,
+  options: ObjectPropertyOptions,
+  reusableTypes: SchemaField[],
+  definitions: { [key: string]: JsonSchema },
+  profile: OutputProfile,
+  draft: SchemaDraft,
+  canSetAdditionalProperties = true,
+) => {
+  if (canSetAdditionalProperties) {
+    if (options.additionalPropertiesMode === "typed" && options.additionalPropertiesType) {
+      objectSchema.additionalProperties = buildFieldSchema(options.additionalPropertiesType, reusableTypes, definitions, profile, draft);
+    } else if (options.additionalPropertiesMode === "open" || options.additionalPropertiesMode === "typed") {
+      objectSchema.additionalProperties = true;
     } else {
-      properties[field.name] = fieldSchema;
+      objectSchema.additionalProperties = false;
     }
-
-    // IMPORTANT: For LLM compatibility, add ALL properties to the 'required' array at the current level.
-    // The 'isRequired' flag now primarily controls whether 'null' is allowed as a type.
-    required.push(field.name);
-  });
-
-  return { properties, required };
+  }
+  if (options.minProperties !== undefined) {
+    objectSchema.minProperties = options.minProperties;
+  }
+  if (options.maxProperties !== undefined) {
+    objectSchema.maxProperties = options.maxProperties;
+  }
 };
 
 /**
- * Builds the complete JSON Schema, including definitions for reusable types.
- * Handles potential circular references among reusable types.
+ * Builds the schema of a reusable type for the definitions section.
+ * Objects are emitted as closed objects; other types reuse the regular field schema
+ * without the title/description meant for a property.
+ * A type extending other types becomes `allOf: [{ $ref: Base }, ...ownProperties]`. Both bases and
+ * derived types stay open, since each closed part would reject the properties declared by the others.
  */
-export const buildFullJsonSchema = (schemaFields: SchemaField[], reusableTypes: SchemaField[]): any => {
-  const definitions: { [key: string]: any } = {};
-  const buildingDefinitions = new Set<string>(); // To detect circular references during definition building
-
-  // First pass: Build all reusable type definitions
-  reusableTypes.forEach(rt => {
-    if (rt.name) {
-      // Prevent infinite recursion for circular definitions
-      if (buildingDefinitions.has(rt.id)) {
-        // If we're already building this definition, skip to prevent stack overflow.
-        // A more advanced solution might involve a "$recursiveRef" or similar.
-        return;
-      }
-      buildingDefinitions.add(rt.id); // Mark as currently building
-
-      if (rt.type === "object") {
-        // Recursively build properties for the reusable type's children
-        const nestedSchema = buildPropertiesAndRequired(rt.children || [], reusableTypes, definitions);
-        definitions[rt.name] = {
-          type: "object",
-          properties: nestedSchema.properties,
-          required: nestedSchema.required,
-          additionalProperties: false,
-        };
-      } else {
-        // For non-object reusable types, build their schema directly
-        const singleFieldSchema = buildSingleFieldJsonSchema(rt, reusableTypes);
-        // Remove $schema, title, description from the definition itself, as they are for the root schema
-        const { $schema, title, description, ...restOfSchema } = singleFieldSchema;
-        definitions[rt.name] = restOfSchema;
-      }
-      buildingDefinitions.delete(rt.id); // Unmark after building
+const buildDefinitionSchema = (
+  reusableType: SchemaField,
+  reusableTypes: SchemaField[],
+  definitions: { [key: string]: JsonSchema },
+  profile: OutputProfile,
+  draft: SchemaDraft
+): JsonSchema => {
+  if (reusableType.type === "object") {
+    const nestedSchema = buildPropertiesAndRequired(
+      reusableType.children || [],
+      reusableTypes,
+      definitions,
+      profile,
+      draft,
+      reusableType.rules,
+      reusableType.dependencies
+    );
+    const objectSchema: JsonSchema = {
+      type: "object",
+      properties: nestedSchema.properties,
+      required: nestedSchema.required,
+      ...nestedSchema.conditionalKeywords,
+    };
+    const baseTypes = (reusableType.extendsIds || [])
+      .map(baseId => reusableTypes.find(rt => rt.id === baseId))
+      .filter(baseType => baseType && baseType.name);
+    const isExtended = reusableTypes.some(rt => rt.type === "object" && rt.extendsIds?.includes(reusableType.id));
+    applyObjectPropertyOptions(objectSchema, reusableType, reusableTypes, definitions, profile, draft, baseTypes.length === 0 && !isExtended);
+
+    if (baseTypes.length > 0) {
+      return {
+        allOf: [
+          ...baseTypes.map(baseType => ({ "$ref": getDefinitionRef(baseType.name, draft) })),
+          objectSchema,
+        ],
+        ...buildExtensionKeywords(reusableType.extensions),
+      };
     }
-  });
-
-  // Second pass: Build the main schema properties using the now-complete definitions
-  const mainSchemaContent = buildPropertiesAndRequired(schemaFields, reusableTypes, definitions);
+    return { ...objectSchema, ...buildExtensionKeywords(reusableType.extensions) };
+  }
+  const { title, description, ...restOfSchema } = buildFieldSchema(reusableType, reusableTypes, definitions, profile, draft);
+  return restOfSchema;
+};
 
-  const rootSchema: any = {
-    $schema: "http://json-schema.org/draft-07/schema#", // Specify draft version
-    title: "Generated Schema", // Add a default title
-    // description: "Schema generated by Dyad's JSON Schema Builder", // Removed this line
-    type: "object",
-    properties: mainSchemaContent.properties,
-    required: mainSchemaContent.required, // This now includes all properties for LLM compatibility
-    additionalProperties: false, // Add additionalProperties: false for the root object
+// Wraps an item schema in an array schema carrying the constraints of one array level
+const buildArraySchema = (itemSchema: JsonSchema, arrayLevel: ArrayLevel): JsonSchema => {
+  const arraySchema: JsonSchema = {
+    type: "array",
+    items: itemSchema,
   };
-
-  if (Object.keys(definitions).length > 0) {
-    rootSchema.definitions = definitions; // Using 'definitions' for compatibility
+  if (arrayLevel.minItems !== undefined) {
+    arraySchema.minItems = arrayLevel.minItems;
   }
-
-  return rootSchema;
+  if (arrayLevel.maxItems !== undefined) {
+    arraySchema.maxItems = arrayLevel.maxItems;
+  }
+  if (arrayLevel.uniqueItems) {
+    arraySchema.uniqueItems = true;
+  }
+  return arraySchema;
 };
 
 /**
- * Builds the JSON Schema for a single SchemaField.
- * This is used when sending a specific field's schema to an LLM for refinement.
- * It will include relevant definitions if the field or its children reference reusable types.
+ * Builds the `contains` keywords of a multiple field. A condition on a property of object items
+ * matches items having that property; otherwise it applies to the items themselves.
+ * `minContains`/`maxContains` come from draft 2019-09; draft-07 validators only check `contains`.
  */
-export const buildSingleFieldJsonSchema = (field: SchemaField, reusableTypes: SchemaField[]): any => {
-  const definitions: { [key: string]: any } = {};
-  const buildingDefinitions = new Set<string>();
-
-  // Helper to recursively collect all referenced reusable types
-  const collectReferencedTypes = (fields: SchemaField[]) => {
-    fields.forEach(f => {
-      if (f.type === "ref" && f.refId) {
-        const referencedType = reusableTypes.find(rt => rt.id === f.refId);
-        if (referencedType && referencedType.name && !definitions[referencedType.name] && !buildingDefinitions.has(referencedType.id)) {
-          buildingDefinitions.add(referencedType.id);
-          if (referencedType.type === "object") {
-            const nestedSchema = buildPropertiesAndRequired(referencedType.children || [], reusableTypes, definitions);
-            definitions[referencedType.name] = {
-              type: "object",
-              properties: nestedSchema.properties,
-              required: nestedSchema.required,
-              additionalProperties: false,
-            };
-          } else {
-            const singleFieldSchema = buildSingleFieldJsonSchema(referencedType, reusableTypes);
-            const { $schema, title, description, ...restOfSchema } = singleFieldSchema; // Remove root-level schema properties
-            definitions[referencedType.name] = restOfSchema;
-          }
-          buildingDefinitions.delete(referencedType.id);
-          // Also collect types referenced by this reusable type's children (if it's an object)
-          if (referencedType.type === "object") {
-            collectReferencedTypes(referencedType.children || []);
-          }
-        }
-      } else if (f.type === "object" && f.children) {
-        collectReferencedTypes(f.children);
-      } else if (f.isMultiple && f.type === "ref" && f.refId) { // Handle arrays of refs
-        const referencedType = reusableTypes.find(rt => rt.id === f.refId);
-        if (referencedType && referencedType.name && !definitions[referencedType.name] && !buildingDefinitions.has(referencedType.id)) {
-          buildingDefinitions.add(referencedType.id);
-          if (referencedType.type === "object") {
-            const nestedSchema = buildPropertiesAndRequired(referencedType.children || [], reusableTypes, definitions);
-            definitions[referencedType.name] = {
-              type: "object",
-              properties: nestedSchema.properties,
-              required: nestedSchema.required,
-              additionalProperties: false,
-            };
-          } else {
-            const singleFieldSchema = buildSingleFieldJsonSchema(referencedType, reusableTypes);
-            const { $schema, title, description, ...restOfSchema } = singleFieldSchema;
-            definitions[referencedType.name] = restOfSchema;
-          }
-          buildingDefinitions.delete(referencedType.id);
-          if (referencedType.type === "object") {
-            collectReferencedTypes(referencedType.children || []);
-          }
-        }
-      }
-    });
-  };
-
-  // Collect definitions for the field itself and any nested/referenced types
-  collectReferencedTypes([field]);
+const buildContainsKeywords = (field: SchemaField, condition: ContainsCondition, reusableTypes: SchemaField[]): JsonSchema => {
+  const itemFields = field.type === "ref"
+    ? reusableTypes.find(rt => rt.id === field.refId)?.children || []
+    : field.children || [];
+  const keywords: JsonSchema = {};
+  if (condition.fieldName) {
+    const testedField = itemFields.find(f => f.name === condition.fieldName);
+    keywords.contains = {
+      type: "object",
+      properties: { [condition.fieldName]: buildConditionSchema(condition.operator, condition.values, testedField) },
+      required: [condition.fieldName],
+    };
+  } else {
+    keywords.contains = buildConditionSchema(condition.operator, condition.values, field);
+  }
+  if (condition.minContains !== undefined) {
+    keywords.minContains = condition.minContains;
+  }
+  if (condition.maxContains !== undefined) {
+    keywords.maxContains = condition.maxContains;
+  }
+  return keywords;
+};
 
-  // Build the schema for the single field
-  let fieldSchema: any = {};
+/**
+ * Builds the JSON Schema for a single field as it appears under `properties`
+ * (or as a union variant), including the array wrapper when the field is multiple.
+ */
+const buildFieldSchema = (
+  field: SchemaField,
+  reusableTypes: SchemaField[],
+  definitions: { [key: string]: JsonSchema },
+  profile: OutputProfile,
+  draft: SchemaDraft
+): JsonSchema => {
+  let fieldSchema: JsonSchema = {};
 
   if (field.type === "ref") {
     const referencedType = reusableTypes.find(rt => rt.id === field.refId);
-    if (referencedType && referencedType.name && definitions[referencedType.name]) {
-      fieldSchema = { "$ref": `#/definitions/${referencedType.name}` };
+    if (referencedType && referencedType.name) {
+      // Every named reusable type gets a definition, so references to types not built yet
+      // (including the type being built, for recursive types) are valid too
+      fieldSchema = { "$ref": getDefinitionRef(referencedType.name, draft) };
+      // `$ref` cannot be combined with a type, so a nullable reference is a union with null.
+      // Optional recursive references rely on it to end.
+      if (allowsNull(field, profile)) {
+        fieldSchema = { anyOf: [fieldSchema, { type: "null" }] };
+      }
     } else {
+      // Fallback if reference is invalid or not found in definitions
       fieldSchema = { type: "object", description: "Invalid or undefined reference" };
     }
+  } else if (field.type === "union") {
+    fieldSchema.title = field.title || toTitleCase(field.name);
+    if (field.description) {
+      fieldSchema.description = field.description;
+    }
+    const variantSchemas = (field.variants || []).map((variant) => {
+      const variantSchema = buildFieldSchema(variant, reusableTypes, definitions, profile, draft);
+      return field.discriminator
+        ? addDiscriminatorToVariant(variantSchema, field.discriminator, variant.discriminatorValue || variant.name)
+        : variantSchema;
+    });
+    // A nullable union accepts null as an extra alternative
+    if (allowsNull(field, profile)) {
+      variantSchemas.push({ type: "null" });
+    }
+    fieldSchema[field.unionMode || "anyOf"] = variantSchemas;
   } else {
     const baseType = mapTypeToJsonSchemaType(field.type);
     const format = mapTypeToJsonSchemaFormat(field.type);
 
     fieldSchema.type = baseType;
+
     if (format) {
       fieldSchema.format = format;
     }
+    // Use field.title if available, otherwise generate from field.name
     fieldSchema.title = field.title || toTitleCase(field.name);
+    
     if (field.description) {
       fieldSchema.description = field.description;
     }
-    if (field.example !== undefined) {
-      try {
-        if (field.type === "int" || field.type === "float") {
-          fieldSchema.example = parseFloat(field.example);
-          if (isNaN(fieldSchema.example)) delete fieldSchema.example;
-        } else if (field.type === "boolean") {
-          fieldSchema.example = field.example.toLowerCase() === 'true';
-        } else {
-          fieldSchema.example = field.example;
-        }
-      } catch (e) {
-        fieldSchema.example = field.example;
-      }
-    }
-
+    // Add pattern for date and datetime types
     if (field.type === "date") {
-      fieldSchema.pattern = "^\\d{4}-\\d{2}-\\d{2}$";
+      fieldSchema.pattern = "^\\d{4}-\\d{2}-\\d{2}$"; // YYYY-MM-DD
     } else if (field.type === "datetime") {
-      fieldSchema.pattern = "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?(?:Z|[+-]\\d{2}:\\d{2})?$";
+      fieldSchema.pattern = getDateTimePattern(field.requireTimezone); // ISO 8601
     } else if (field.type === "time") { // Updated pattern for time
       fieldSchema.pattern = "^([01]\\d|2[0-3]):([0-5]\\d):([0-5]\\d)$"; // HH:MM:SS
+    } else if (field.type === "file") {
+      // contentMediaType takes a single type, so several accepted types are listed in x-contentMediaTypes instead
+      fieldSchema.contentEncoding = "base64";
+      const mediaTypes = field.mediaTypes || [];
+      if (mediaTypes.length === 1) {
+        fieldSchema.contentMediaType = mediaTypes[0];
+      } else if (mediaTypes.length > 1) {
+        fieldSchema["x-contentMediaTypes"] = mediaTypes;
+      }
+      fieldSchema.pattern = REGEX_BASE64.source;
+      // maxLength only bounds the encoded text, which rounds the size up to a multiple of 3 bytes,
+      // so the exact size is kept in x-maxFileSize
+      if (field.maxFileSize !== undefined) {
+        fieldSchema.maxLength = getBase64Length(field.maxFileSize);
+        fieldSchema["x-maxFileSize"] = field.maxFileSize;
+      }
     } else if (field.type === "currency" && field.currency) {
+      // For currency, we just add a custom 'currency' property and the symbol for context,
+      // but don't enforce a pattern as it's not a standard JSON Schema feature.
       fieldSchema.currency = field.currency;
       fieldSchema.description = field.description ? `${field.description} (Currency: ${getCurrencySymbol(field.currency)})` : `Currency field (e.g., ${getCurrencySymbol(field.currency)}123.45)`;
-    } else if (field.type === "dropdown" && field.options && field.options.length > 0) {
-      fieldSchema.enum = field.options;
+    } else if (field.type === "dropdown") {
+      // Option values carry their own JSON type; labels and descriptions go in parallel x-enum* lists
+      fieldSchema.type = field.optionType || "string";
+      const options = (field.options || []).filter(option => parseOptionValue(option, field.optionType) !== undefined);
+      if (options.length > 0) {
+        fieldSchema.enum = options.map(option => parseOptionValue(option, field.optionType));
+        if (options.some(option => field.optionLabels?.[option]?.label)) {
+          fieldSchema["x-enumNames"] = options.map(option => getOptionLabel(field, option));
+        }
+        if (options.some(option => field.optionLabels?.[option]?.description)) {
+          fieldSchema["x-enumDescriptions"] = options.map(option => field.optionLabels?.[option]?.description || "");
+        }
+      }
     } else if (field.type === "string") { // Apply pattern, minLength, maxLength for generic string type
+      if (field.format) {
+        fieldSchema.format = field.format;
+      }
       if (field.pattern) {
         fieldSchema.pattern = field.pattern;
       }
@@ -377,25 +336,76 @@ export const buildSingleFieldJsonSchema = (field: SchemaField, reusableTypes: Sc
       }
     }
 
-    if (field.type === "int" || field.type === "float") {
+    // Bounds resolve to values when the schema is built; relative ones keep their expression in x-formatMinimum/x-formatMaximum
+    if (isDateTimeType(field.type)) {
+      const dateType = field.type;
+      ([["formatMinimum", field.earliest], ["formatMaximum", field.latest]] as const).forEach(([keyword, bound]) => {
+        const resolved = bound ? resolveDateBound(dateType, bound) : {};
+        if (resolved.value) {
+          fieldSchema[keyword] = resolved.value;
+          if (resolved.relative) fieldSchema[`x-${keyword}`] = bound!.trim();
+        }
+      });
+    }
+
+    // Add range and step constraints for number types (int, float and currency)
+    if (field.type === "int" || field.type === "float" || field.type === "currency") {
       if (field.minValue !== undefined) {
         fieldSchema.minimum = field.minValue;
       }
       if (field.maxValue !== undefined) {
         fieldSchema.maximum = field.maxValue;
       }
+      // Exclusive bounds are numbers of their own in every draft offered (draft-04 flagged minimum/maximum instead)
+      if (field.exclusiveMinValue !== undefined) {
+        fieldSchema.exclusiveMinimum = field.exclusiveMinValue;
+      }
+      if (field.exclusiveMaxValue !== undefined) {
+        fieldSchema.exclusiveMaximum = field.exclusiveMaxValue;
+      }
+      if (field.multipleOf !== undefined && field.multipleOf > 0) {
+        fieldSchema.multipleOf = field.multipleOf;
+      }
     }
 
     if (field.type === "object" && field.children) {
-      const nestedSchema = buildPropertiesAndRequired(field.children, reusableTypes, definitions);
+      // Recursive call for nested objects, passing definitions for nested refs
+      const nestedSchema = buildPropertiesAndRequired(field.children, reusableTypes, definitions, profile, draft, field.rules, field.dependencies);
       fieldSchema.properties = nestedSchema.properties;
+      // For nested objects, only include truly required fields in their 'required' array
       if (nestedSchema.required.length > 0) {
         fieldSchema.required = nestedSchema.required;
       }
-      fieldSchema.additionalProperties = false;
+      applyObjectPropertyOptions(fieldSchema, field, reusableTypes, definitions, profile, draft);
+      Object.assign(fieldSchema, nestedSchema.conditionalKeywords);
     }
 
-    if (!field.isRequired && field.type !== "ref") {
+    if (field.type === "map") {
+      // Any key is allowed (restricted by the key pattern, if set) and every value follows the value type
+      if (field.keyPattern) {
+        fieldSchema.propertyNames = { pattern: field.keyPattern };
+      }
+      fieldSchema.additionalProperties = field.mapValue ? buildFieldSchema(field.mapValue, reusableTypes, definitions, profile, draft) : {};
+    }
+
+    if (field.type === "tuple") {
+      // One schema per position and every position present. Up to 2019-09 the positions are an `items` list
+      // closed by `additionalItems: false`; 2020-12 lists them in `prefixItems`, closed by `items: false`
+      const tupleItems = field.tupleItems || [];
+      const itemSchemas = tupleItems.map(item => buildFieldSchema(item, reusableTypes, definitions, profile, draft));
+      if (draft === "2020-12") {
+        fieldSchema.prefixItems = itemSchemas;
+      } else {
+        fieldSchema.items = itemSchemas;
+      }
+      fieldSchema.minItems = tupleItems.length;
+      if (!field.additionalItems) {
+        fieldSchema[draft === "2020-12" ? "items" : "additionalItems"] = false;
+      }
+    }
+
+    // Nullable fields allow the null type (references and unions allow it through an extra variant instead)
+    if (allowsNull(field, profile)) {
       fieldSchema.type = Array.isArray(fieldSchema.type)
         ? [...fieldSchema.type, "null"]
         : [fieldSchema.type, "null"];
@@ -403,28 +413,320 @@ export const buildSingleFieldJsonSchema = (field: SchemaField, reusableTypes: Sc
   }
 
   if (field.isMultiple) {
-    const arraySchema: any = {
-      type: "array",
-      items: fieldSchema,
-    };
-    if (field.minItems !== undefined) {
-      arraySchema.minItems = field.minItems;
+    // Wrap the item schema from the innermost array level outwards;
+    // the field's own item constraints belong to the outermost array
+    const arrayLevels: ArrayLevel[] = [
+      { minItems: field.minItems, maxItems: field.maxItems, uniqueItems: field.uniqueItems },
+      ...(field.innerArrays || []),
+    ];
+    fieldSchema = arrayLevels.reduceRight<JsonSchema>((itemSchema, arrayLevel) => buildArraySchema(itemSchema, arrayLevel), fieldSchema);
+  }
+
+  // `contains` tests the items of the outermost array, so it is left out when the items are lists themselves
+  if (field.isMultiple && field.contains && !(field.innerArrays && field.innerArrays.length > 0)) {
+    Object.assign(fieldSchema, buildContainsKeywords(field, field.contains, reusableTypes));
+  }
+
+  // Vendor extensions describe the property as a whole. Validators ignore them, so unlike the annotations
+  // below they are also kept next to a `$ref`.
+  Object.assign(fieldSchema, buildExtensionKeywords(field.extensions));
+
+  // Access and deprecation annotations describe the property as a whole, like the default below.
+  // A `$ref` ignores sibling keywords in draft-07, so references do not carry them.
+  if (field.type !== "ref") {
+    if (field.readOnly) {
+      fieldSchema.readOnly = true;
+    } else if (field.writeOnly) {
+      fieldSchema.writeOnly = true;
     }
-    if (field.maxItems !== undefined) {
-      arraySchema.maxItems = field.maxItems;
+    if (field.deprecated) {
+      fieldSchema.deprecated = true;
     }
-    fieldSchema = arraySchema;
   }
 
-  const finalSchema: any = {
-    $schema: "http://json-schema.org/draft-07/schema#",
+  // The default and examples apply to the value as a whole, so they sit on the array wrapper for multiple fields.
+  // Values that do not match the field's schema are left out.
+  const { value: defaultValue } = parseDefaultValue(field, profile);
+  if (defaultValue !== undefined) {
+    fieldSchema.default = defaultValue;
+  }
+  const examples = parseExampleValues(field, profile).filter(({ error }) => !error).map(({ value }) => value);
+  if (examples.length > 0) {
+    fieldSchema.examples = examples;
+  }
+
+  return fieldSchema;
+};
+
+// Converts a rule value typed in the editor to the JSON type of the property it is compared with
+const coerceRuleValue = (value: string, field: SchemaField | undefined): unknown => {
+  if (field && (field.type === "int" || field.type === "float" || field.type === "currency")) {
+    const numberValue = Number(value);
+    return isNaN(numberValue) ? value : numberValue;
+  }
+  if (field && field.type === "boolean") {
+    return value.toLowerCase() === "true";
+  }
+  if (field && field.type === "dropdown") {
+    return parseOptionValue(value, field.optionType) ?? value;
+  }
+  return value;
+};
+
+// Requiring a property also rules out null: under the LLM strict profile every property is listed in `required`,
+// so only a value that is not null sets one apart from an optional property
+const buildRequiredClause = (fieldNames: string[]): JsonSchema => ({
+  properties: Object.fromEntries(fieldNames.map(name => [name, { not: { type: "null" } }])),
+  required: fieldNames,
+});
+
+// Builds the schema a tested value must match for a rule or contains condition
+const buildConditionSchema = (
+  operator: RuleConditionOperator,
+  rawValues: string[] | undefined,
+  testedField: SchemaField | undefined
+): JsonSchema => {
+  const values = (rawValues || []).map(v => v.trim()).filter(v => v !== "").map(v => coerceRuleValue(v, testedField));
+  if (operator === "equals") {
+    return { const: values[0] ?? "" };
+  }
+  if (operator === "oneOf") {
+    return { enum: values };
+  }
+  return { not: { type: "null" } };
+};
+
+// Builds the if/then/else clause of a conditional rule
+const buildRuleClause = (rule: ConditionalRule, fields: SchemaField[]): JsonSchema => {
+  const testedField = fields.find(f => f.name === rule.fieldName);
+  const conditionSchema = buildConditionSchema(rule.operator, rule.values, testedField);
+
+  const clause: JsonSchema = {
+    if: { properties: { [rule.fieldName]: conditionSchema }, required: [rule.fieldName] },
+    then: buildRequiredClause(rule.thenRequired),
+  };
+  if (rule.elseRequired && rule.elseRequired.length > 0) {
+    clause.else = buildRequiredClause(rule.elseRequired);
+  }
+  return clause;
+};
+
+/**
+ * Groups the property dependencies of an object by trigger property. A trigger that only requires
+ * other properties gets the array form; one with value conditions gets the schema form.
+ */
+const groupPropertyDependencies = (dependencies: PropertyDependency[] | undefined, fields: SchemaField[]): { [trigger: string]: string[] | JsonSchema } => {
+  const result: { [trigger: string]: string[] | JsonSchema } = {};
+  (dependencies || []).forEach((dependency) => {
+    const conditions = (dependency.conditions || []).filter(condition => condition.fieldName);
+    if (!dependency.fieldName || dependency.requiredFields.length + conditions.length === 0) return;
+    const current = result[dependency.fieldName];
+    const required = Array.from(new Set([...(Array.isArray(current) ? current : current?.required || []), ...dependency.requiredFields]));
+
+    if (conditions.length === 0 && (current === undefined || Array.isArray(current))) {
+      result[dependency.fieldName] = required;
+      return;
+    }
+    const dependentSchema: JsonSchema = { properties: { ...(Array.isArray(current) ? {} : current?.properties) } };
+    conditions.forEach((condition) => {
+      const testedField = fields.find(f => f.name === condition.fieldName);
+      dependentSchema.properties[condition.fieldName] = buildConditionSchema(condition.operator, condition.values, testedField);
+    });
+    dependentSchema.required = Array.from(new Set([...required, ...conditions.map(condition => condition.fieldName)]));
+    result[dependency.fieldName] = dependentSchema;
+  });
+  return result;
+};
+
+/**
+ * Builds the property dependency keywords of the standard profile. JSON Schema activates a dependency
+ * when the trigger property is present, even if it is null.
+ * Draft-07 holds both forms in `dependencies`; 2019-09 split it into `dependentRequired` and `dependentSchemas`.
+ */
+const buildDependencyKeywords = (groupedDependencies: { [trigger: string]: string[] | JsonSchema }, draft: SchemaDraft): JsonSchema => {
+  if (Object.keys(groupedDependencies).length === 0) return {};
+  if (draft === "draft-07") return { dependencies: groupedDependencies };
+  const keywords: JsonSchema = {};
+  Object.entries(groupedDependencies).forEach(([trigger, value]) => {
+    if (Array.isArray(value)) {
+      keywords.dependentRequired = { ...keywords.dependentRequired, [trigger]: value };
+    } else {
+      keywords.dependentSchemas = { ...keywords.dependentSchemas, [trigger]: value };
+    }
+  });
+  return keywords;
+};
+
+// The LLM strict profile lists every property in `required`, which would always trigger `dependencies`.
+// A dependency is written as an if/then clause instead, applying once the trigger property is not null.
+const buildDependencyClause = (trigger: string, value: string[] | JsonSchema): JsonSchema => {
+  const thenClause = Array.isArray(value)
+    ? buildRequiredClause(value)
+    : { properties: { ...buildRequiredClause(value.required).properties, ...value.properties }, required: value.required };
+  return {
+    if: { properties: { [trigger]: { not: { type: "null" } } }, required: [trigger] },
+    then: thenClause,
+  };
+};
+
+/**
+ * Builds the keywords carrying an object's conditional rules and property dependencies: a single
+ * if/then/else clause is emitted on the object itself, several clauses as an `allOf`.
+ * Under the standard profile, dependencies use the dependency keywords rather than clauses.
+ */
+const buildConditionalKeywords = (
+  rules: ConditionalRule[] | undefined,
+  dependencies: PropertyDependency[] | undefined,
+  fields: SchemaField[],
+  profile: OutputProfile,
+  draft: SchemaDraft
+): JsonSchema => {
+  const validRules = (rules || []).filter(rule => rule.fieldName && rule.thenRequired.length + (rule.elseRequired?.length || 0) > 0);
+  const clauses = validRules.map(rule => buildRuleClause(rule, fields));
+  const groupedDependencies = groupPropertyDependencies(dependencies, fields);
+  if (profile === "llm-strict") {
+    clauses.push(...Object.entries(groupedDependencies).map(([trigger, value]) => buildDependencyClause(trigger, value)));
+  }
+  const keywords = clauses.length === 0 ? {} : clauses.length === 1 ? clauses[0] : { allOf: clauses };
+  return profile === "llm-strict" ? keywords : { ...keywords, ...buildDependencyKeywords(groupedDependencies, draft) };
+};
+
+/**
+ * Recursively builds the properties and required array for a given set of SchemaFields.
+ * This function is designed to be called for the root schema, nested objects, and reusable type definitions.
+ * It takes the full list of reusableTypes and the already built definitions to resolve references.
+ * `conditionalKeywords` holds the object's conditional rules and property dependencies, to be spread into the object schema.
+ */
+const buildPropertiesAndRequired = (
+  fields: SchemaField[],
+  reusableTypes: SchemaField[],
+  definitions: { [key: string]: JsonSchema },
+  profile: OutputProfile,
+  draft: SchemaDraft,
+  rules?: ConditionalRule[],
+  dependencies?: PropertyDependency[]
+): { properties: { [name: string]: JsonSchema }; required: string[]; conditionalKeywords: JsonSchema } => {
+  const properties: { [key: string]: JsonSchema } = {};
+  const required: string[] = [];
+
+  fields.forEach((field) => {
+    if (field.name === "") {
+      // Skip fields with empty names, they are incomplete
+      return;
+    }
+
+    properties[field.name] = buildFieldSchema(field, reusableTypes, definitions, profile, draft);
+
+    // IMPORTANT: For LLM compatibility, the LLM strict profile adds ALL properties to the 'required' array
+    // at the current level, the 'isRequired' flag then controlling whether 'null' is allowed as a type.
+    if (profile === "llm-strict" || field.isRequired) {
+      required.push(field.name);
+    }
+  });
+
+  return {
+    properties,
+    required,
+    conditionalKeywords: buildConditionalKeywords(rules, dependencies, fields, profile, draft),
+  };
+};
+
+/**
+ * Builds the complete JSON Schema, including definitions for reusable types.
+ * Definitions only reference each other through `$ref`, so recursive types become `$ref` cycles.
+ */
+export const buildFullJsonSchema = (schemaFields: SchemaField[], reusableTypes: SchemaField[], settings: SchemaSettings = {}): JsonSchema => {
+  const definitions: { [key: string]: JsonSchema } = {};
+  const profile = settings.outputProfile || "llm-strict";
+  const draft = settings.draft || "draft-07";
+
+  // First pass: Build all reusable type definitions
+  reusableTypes.forEach(rt => {
+    if (rt.name) {
+      definitions[rt.name] = buildDefinitionSchema(rt, reusableTypes, definitions, profile, draft);
+    }
+  });
+
+  // Second pass: Build the main schema properties using the now-complete definitions
+  const mainSchemaContent = buildPropertiesAndRequired(
+    schemaFields,
+    reusableTypes,
+    definitions,
+    profile,
+    draft,
+    settings.rules,
+    settings.dependencies
+  );
+
+  const rootSchema: JsonSchema = {
+    $schema: getSchemaDraftUri(draft),
+    title: "Generated Schema", // Add a default title
+    // description: "Schema generated by Dyad's JSON Schema Builder", // Removed this line
+    type: "object",
+    properties: mainSchemaContent.properties,
+    required: mainSchemaContent.required, // All properties in the LLM strict profile, for LLM compatibility
+  };
+  applyObjectPropertyOptions(rootSchema, settings, reusableTypes, definitions, profile, draft);
+  Object.assign(rootSchema, mainSchemaContent.conditionalKeywords, buildExtensionKeywords(settings.extensions));
+
+  if (Object.keys(definitions).length > 0) {
+    rootSchema[getDefinitionsKeyword(draft)] = definitions;
+  }
+
+  return rootSchema;
+};
+
+/**
+ * Builds the JSON Schema for a single SchemaField.
+ * This is used when sending a specific field's schema to an LLM for refinement.
+ * It will include relevant definitions if the field or its children reference reusable types.
+ */
+export const buildSingleFieldJsonSchema = (
+  field: SchemaField,
+  reusableTypes: SchemaField[],
+  profile: OutputProfile = "llm-strict",
+  draft: SchemaDraft = "draft-07"
+): JsonSchema => {
+  const definitions: { [key: string]: JsonSchema } = {};
+  const buildingDefinitions = new Set<string>();
+
+  // Helper to recursively collect all referenced reusable types
+  const collectReusableType = (typeId: string) => {
+    const referencedType = reusableTypes.find(rt => rt.id === typeId);
+    if (referencedType && referencedType.name && !definitions[referencedType.name] && !buildingDefinitions.has(referencedType.id)) {
+      buildingDefinitions.add(referencedType.id);
+      definitions[referencedType.name] = buildDefinitionSchema(referencedType, reusableTypes, definitions, profile, draft);
+      buildingDefinitions.delete(referencedType.id);
+      // Also collect the types it extends and the types referenced by its nested fields
+      (referencedType.extendsIds || []).forEach(collectReusableType);
+      getNestedFieldLists(referencedType).forEach(collectReferencedTypes);
+    }
+  };
+  const collectReferencedTypes = (fields: SchemaField[]) => {
+    fields.forEach(f => {
+      if (f.type === "ref" && f.refId) {
+        collectReusableType(f.refId);
+      } else {
+        getNestedFieldLists(f).forEach(collectReferencedTypes);
+      }
+    });
+  };
+
+  // Collect definitions for the field itself and any nested/referenced types
+  collectReferencedTypes([field]);
+
+  // Build the schema for the single field
+  const fieldSchema = buildFieldSchema(field, reusableTypes, definitions, profile, draft);
+
+  const finalSchema: JsonSchema = {
+    $schema: getSchemaDraftUri(draft),
     title: field.title || toTitleCase(field.name),
     description: field.description || `Schema for field: ${field.name}`,
     ...fieldSchema, // Spread the generated field schema directly
   };
 
   if (Object.keys(definitions).length > 0) {
-    finalSchema.definitions = definitions;
+    finalSchema[getDefinitionsKeyword(draft)] = definitions;
   }
 
   return finalSchema;
@@ -0,0 +1,240 @@
+import { SchemaField, SchemaSettings } from "@/components/FieldEditor";
+import { buildFullJsonSchema } from "@/utils/jsonSchemaBuilder";
+import { getDefinitionsKeyword } from "@/utils/schemaDrafts";
+import { JsonSchema, mapSubschemas } from "@/utils/subschemas";
+
+export type OpenApiVersion = "3.0" | "3.1";
+
+export interface OpenApiOperationOptions {
+  path: string; // e.g. "/items"
+  operationId?: string;
+  useAsRequestBody: boolean;
+  useAsResponseBody: boolean;
+}
+
+export interface OpenApiExportOptions {
+  version: OpenApiVersion;
+  schemaName: string; // Name of the root schema under components/schemas
+  operation?: OpenApiOperationOptions; // A POST operation sending or returning the root schema, if any
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title?: string; version: string };
+  paths: { [path: string]: unknown };
+  components: { schemas: { [name: string]: JsonSchema } };
+}
+
+export interface OpenApiExport {
+  document: OpenApiDocument;
+  warnings: string[]; // Parts of the schema OpenAPI cannot express, which were left out or loosened
+}
+
+const DEFAULT_ROOT_SCHEMA_NAME = "GeneratedSchema";
+
+// JSON Schema keywords the OpenAPI 3.0 schema object does not accept; only "x-" extensions may be added to it
+const OPENAPI_30_UNSUPPORTED_KEYWORDS = [
+  "if", "then", "else", "dependencies", "dependentRequired", "dependentSchemas",
+  "contains", "minContains", "maxContains", "propertyNames", "patternProperties",
+  "prefixItems", "additionalItems", "contentMediaType", "formatMinimum", "formatMaximum", "$comment",
+];
+
+const isNullSchema = (schema: JsonSchema): boolean => schema.type === "null" && Object.keys(schema).length === 1;
+
+// Points a reference to a definition at the same schema under components/schemas
+const toComponentRef = (ref: string): string => ref.replace(/^#\/(definitions|\$defs)\//, "#/components/schemas/");
+
+// Tells OpenAPI tools which property selects the variant of a union, and which component each of its values selects
+interface OpenApiDiscriminator {
+  propertyName: string;
+  mapping?: { [value: string]: string };
+}
+
+// Returns the property every variant of a union pins to a constant value, with the value each pins it to
+const getUnionTags = (variants: JsonSchema[]): { propertyName: string; values: unknown[] } | undefined => {
+  const variantConstProperties = variants.map((variant) => {
+    const parts = Array.isArray(variant.allOf) ? variant.allOf : [variant];
+    const constProperties: { [name: string]: unknown } = {};
+    parts.forEach((part) => {
+      Object.entries(part.properties || {}).forEach(([name, property]) => {
+        if (property.const !== undefined) constProperties[name] = property.const;
+      });
+    });
+    return constProperties;
+  });
+  const propertyName = Object.keys(variantConstProperties[0] || {}).find((name) =>
+    variantConstProperties.every((constProperties) => constProperties[name] !== undefined)
+  );
+  return propertyName ? { propertyName, values: variantConstProperties.map((constProperties) => constProperties[propertyName]) } : undefined;
+};
+
+/**
+ * Describes a discriminated union the way OpenAPI tools read it: the tag property, and the component each
+ * tag value selects. Only variants referencing a reusable type have a component; inline variants are left
+ * out of the mapping.
+ */
+const getOpenApiDiscriminator = (variants: JsonSchema[]): OpenApiDiscriminator | undefined => {
+  const tags = variants.length > 1 ? getUnionTags(variants) : undefined;
+  if (!tags) return undefined;
+  const mapping: { [value: string]: string } = {};
+  variants.forEach((variant, index) => {
+    const parts = Array.isArray(variant.allOf) ? variant.allOf : [variant];
+    const ref = parts.find((part) => typeof part.$ref === "string")?.$ref;
+    if (ref) mapping[String(tags.values[index])] = toComponentRef(ref);
+  });
+  return { propertyName: tags.propertyName, ...(Object.keys(mapping).length > 0 ? { mapping } : {}) };
+};
+
+// Adds the discriminator of a tagged union, read from the variants before they are rewritten
+const addOpenApiDiscriminator = (source: JsonSchema, result: JsonSchema): void => {
+  const keyword = (["oneOf", "anyOf"] as const).find((unionKeyword) => Array.isArray(source[unionKeyword]));
+  if (!keyword || !Array.isArray(result[keyword])) return;
+  const discriminator = getOpenApiDiscriminator(source[keyword].filter((variant) => !isNullSchema(variant)));
+  if (discriminator) result.discriminator = discriminator;
+};
+
+/**
+ * Rewrites a schema into the dialect of OpenAPI 3.0, a subset of JSON Schema with its own extensions:
+ * null is allowed through `nullable` rather than a "null" type, exclusive bounds are booleans next to
+ * `minimum` and `maximum`, and a schema has a single `example` instead of an `examples` list.
+ * Tuples become arrays whose items may match any position, and keywords without an equivalent are left out.
+ */
+const toOpenApi30Schema = (schema: JsonSchema, path: string, warnings: string[]): JsonSchema => {
+  const result = mapSubschemas(schema, path, (subschema, subschemaPath) => toOpenApi30Schema(subschema, subschemaPath, warnings));
+
+  // A type list with null becomes its other type, marked nullable
+  if (Array.isArray(result.type)) {
+    const types = result.type.filter((type) => type !== "null");
+    if (types.length < result.type.length) result.nullable = true;
+    result.type = types.length === 1 ? types[0] : types;
+  }
+  // A union with null drops the null variant and is marked nullable; a single remaining variant is kept in an allOf,
+  // since 3.0 ignores keywords written next to a `$ref`
+  (["anyOf", "oneOf"] as const).forEach((keyword) => {
+    if (!Array.isArray(result[keyword]) || !result[keyword].some(isNullSchema)) return;
+    const variants = result[keyword].filter((variant) => !isNullSchema(variant));
+    result.nullable = true;
+    if (variants.length === 1) {
+      delete result[keyword];
+      result.allOf = [...(result.allOf || []), variants[0]];
+    } else {
+      result[keyword] = variants;
+    }
+  });
+
+  if (Array.isArray(result.examples)) {
+    if (result.examples.length > 0) result.example = result.examples[0];
+    delete result.examples;
+  }
+  if ("const" in result) {
+    result.enum = [result.const];
+    delete result.const;
+  }
+  (["Minimum", "Maximum"] as const).forEach((bound) => {
+    if (typeof result[`exclusive${bound}`] === "number") {
+      result[bound.toLowerCase()] = result[`exclusive${bound}`];
+      result[`exclusive${bound}`] = true;
+    }
+  });
+  if (result.contentEncoding === "base64") {
+    result.format = "byte";
+    delete result.contentEncoding;
+  }
+  if ("currency" in result) {
+    result["x-currency"] = result.currency;
+    delete result.currency;
+  }
+  if (Array.isArray(result.items)) {
+    warnings.push(`${path}: OpenAPI 3.0 has no tuples, so each item may match the type of any position.`);
+    const positionCount = result.items.length;
+    result.items = { anyOf: result.items };
+    if (result.additionalItems === false) result.maxItems = positionCount;
+    delete result.additionalItems;
+  }
+
+  const unsupportedKeywords = OPENAPI_30_UNSUPPORTED_KEYWORDS.filter((keyword) => keyword in result);
+  if (unsupportedKeywords.length > 0) {
+    warnings.push(`${path}: left out ${unsupportedKeywords.join(", ")}, which OpenAPI 3.0 does not support.`);
+    unsupportedKeywords.forEach((keyword) => delete result[keyword]);
+  }
+  // Conditional rules live in allOf clauses, which are empty once their keywords are left out
+  if (Array.isArray(result.allOf)) {
+    result.allOf = result.allOf.filter((part) => Object.keys(part).length > 0);
+    if (result.allOf.length === 0) delete result.allOf;
+  }
+  if (typeof result.$ref === "string") result.$ref = toComponentRef(result.$ref);
+  addOpenApiDiscriminator(schema, result);
+  return result;
+};
+
+// OpenAPI 3.1 schemas are JSON Schema 2020-12, so only references to definitions change and tagged unions get a discriminator
+const toOpenApi31Schema = (schema: JsonSchema, path: string): JsonSchema => {
+  const result = mapSubschemas(schema, path, toOpenApi31Schema);
+  if (typeof result.$ref === "string") result.$ref = toComponentRef(result.$ref);
+  addOpenApiDiscriminator(schema, result);
+  return result;
+};
+
+// Component names may only hold letters, digits, dots, dashes and underscores, and must not clash with a reusable type
+const getRootSchemaName = (schemaName: string, definitionNames: string[], warnings: string[]): string => {
+  const name = schemaName.replace(/[^A-Za-z0-9._-]/g, "") || DEFAULT_ROOT_SCHEMA_NAME;
+  if (!definitionNames.includes(name)) return name;
+  let index = 2;
+  while (definitionNames.includes(`${name}${index}`)) index++;
+  warnings.push(`A reusable type is already named "${name}", so the root schema is named "${name}${index}".`);
+  return `${name}${index}`;
+};
+
+// Builds the paths of the document: a POST operation sending and/or returning the root schema as JSON
+const buildOpenApiPaths = (operation: OpenApiOperationOptions | undefined, rootRef: string): OpenApiDocument["paths"] => {
+  if (!operation || (!operation.useAsRequestBody && !operation.useAsResponseBody)) return {};
+  const content = () => ({ "application/json": { schema: { $ref: rootRef } } });
+  const path = operation.path.startsWith("/") ? operation.path : `/${operation.path}`;
+  return {
+    [path]: {
+      post: {
+        ...(operation.operationId ? { operationId: operation.operationId } : {}),
+        ...(operation.useAsRequestBody ? { requestBody: { required: true, content: content() } } : {}),
+        responses: {
+          "200": {
+            description: "Successful response",
+            ...(operation.useAsResponseBody ? { content: content() } : {}),
+          },
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Builds an OpenAPI document holding the schema under components/schemas, next to one schema per reusable type.
+ * Version 3.1 embeds the schema as JSON Schema 2020-12; version 3.0 rewrites it into its own dialect.
+ */
+export const buildOpenApiDocument = (
+  schemaFields: SchemaField[],
+  reusableTypes: SchemaField[],
+  settings: SchemaSettings,
+  options: OpenApiExportOptions
+): OpenApiExport => {
+  const draft = options.version === "3.1" ? "2020-12" : "draft-07";
+  const fullSchema: JsonSchema = buildFullJsonSchema(schemaFields, reusableTypes, { ...settings, draft });
+  const { $schema: _schemaUri, [getDefinitionsKeyword(draft)]: definitions = {}, ...rootSchema } = fullSchema;
+
+  const warnings: string[] = [];
+  const toOpenApiSchema = (schema: JsonSchema, path: string) =>
+    options.version === "3.1" ? toOpenApi31Schema(schema, path) : toOpenApi30Schema(schema, path, warnings);
+  const rootName = getRootSchemaName(options.schemaName, Object.keys(definitions), warnings);
+  const schemas: { [name: string]: JsonSchema } = { [rootName]: toOpenApiSchema(rootSchema, "root") };
+  Object.entries(definitions).forEach(([name, definition]) => {
+    schemas[name] = toOpenApiSchema(definition, name);
+  });
+
+  const document: OpenApiDocument = {
+    openapi: options.version === "3.1" ? "3.1.0" : "3.0.3",
+    info: { title: rootSchema.title, version: "1.0.0" },
+    paths: buildOpenApiPaths(options.operation, `#/components/schemas/${rootName}`),
+    components: { schemas },
+  };
+  // Several rules on one object leave the same keywords out of it
+  return { document, warnings: Array.from(new Set(warnings)) };
+};
@@ -0,0 +1,337 @@
+import { getSchemaDefinitions } from "@/utils/schemaDrafts";
+import { JsonSchema, isSchemaObject, mapSubschemas, mergeAllOfPart } from "@/utils/subschemas";
+
+// Providers whose structured output is requested in strict mode, which only accepts closed objects
+// listing every property as required
+export const STRICT_MODE_PROVIDERS = ["openai", "mistral", "openrouter"];
+
+/**
+ * Returns the paths of the objects in a JSON Schema that accept undeclared properties:
+ * open objects, objects with typed extra properties and maps.
+ * Objects without `additionalProperties` (types in an inheritance chain) are not reported.
+ */
+export const findOpenObjectPaths = (schema: JsonSchema, path = "root"): string[] => {
+  if (!schema || typeof schema !== "object") return [];
+  const paths: string[] = [];
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    paths.push(path);
+  }
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    paths.push(...findOpenObjectPaths(property, `${path}.${name}`));
+  });
+  if (isSchemaObject(schema.additionalProperties)) {
+    paths.push(...findOpenObjectPaths(schema.additionalProperties, `${path}.*`));
+  }
+  const tupleItems = Array.isArray(schema.items) ? schema.items : schema.prefixItems;
+  if (Array.isArray(tupleItems)) {
+    tupleItems.forEach((item, index) => paths.push(...findOpenObjectPaths(item, `${path}[${index}]`)));
+  } else if (isSchemaObject(schema.items)) {
+    paths.push(...findOpenObjectPaths(schema.items, `${path}[]`));
+  }
+  (["anyOf", "oneOf", "allOf"] as const).forEach((keyword) => {
+    (schema[keyword] || []).forEach((part) => paths.push(...findOpenObjectPaths(part, path)));
+  });
+  Object.entries(getSchemaDefinitions(schema)).forEach(([name, definition]) => {
+    paths.push(...findOpenObjectPaths(definition, name));
+  });
+  return paths;
+};
+
+/**
+ * Returns the paths of the properties a JSON Schema leaves out of their object's `required` list,
+ * as the standard output profile does for optional fields. Strict mode requires every property to be listed.
+ */
+export const findOptionalPropertyPaths = (schema: JsonSchema, path = "root"): string[] => {
+  if (!schema || typeof schema !== "object") return [];
+  const paths: string[] = [];
+  const required = new Set(schema.required || []);
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    if (!required.has(name)) paths.push(`${path}.${name}`);
+    paths.push(...findOptionalPropertyPaths(property, `${path}.${name}`));
+  });
+  const tupleItems = Array.isArray(schema.items) ? schema.items : schema.prefixItems;
+  if (Array.isArray(tupleItems)) {
+    tupleItems.forEach((item, index) => paths.push(...findOptionalPropertyPaths(item, `${path}[${index}]`)));
+  } else if (isSchemaObject(schema.items)) {
+    paths.push(...findOptionalPropertyPaths(schema.items, `${path}[]`));
+  }
+  if (isSchemaObject(schema.additionalProperties)) {
+    paths.push(...findOptionalPropertyPaths(schema.additionalProperties, `${path}.*`));
+  }
+  (["anyOf", "oneOf", "allOf"] as const).forEach((keyword) => {
+    (schema[keyword] || []).forEach((part) => paths.push(...findOptionalPropertyPaths(part, path)));
+  });
+  Object.entries(getSchemaDefinitions(schema)).forEach(([name, definition]) => {
+    paths.push(...findOptionalPropertyPaths(definition, name));
+  });
+  return paths;
+};
+
+// Limits strict structured output puts on a whole schema
+export const STRICT_MODE_LIMITS = {
+  maxDepth: 10, // Levels of properties and items below the root
+  maxProperties: 5000, // Object properties across the whole schema
+  maxEnumValues: 1000, // Enum values across the whole schema
+  largeEnumSize: 250, // Above this many string values, an enum's values are limited in total length
+  maxLargeEnumLength: 15000,
+};
+
+// Keywords strict mode accepts; everything else is rejected
+const STRICT_MODE_KEYWORDS = [
+  "$schema", "$ref", "$defs", "definitions", "title", "description", "type", "enum", "const", "anyOf",
+  "properties", "required", "additionalProperties", "items", "minItems", "maxItems",
+  "pattern", "format", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf",
+];
+
+// Unsupported keywords holding fields of their own, which the transform rewrites into supported ones rather than describing
+const REWRITTEN_KEYWORDS = ["allOf", "oneOf", "prefixItems", "additionalItems"];
+
+const STRICT_MODE_FORMATS = ["date-time", "time", "date", "duration", "email", "hostname", "ipv4", "ipv6", "uuid"];
+
+export type StrictModeRule =
+  | "keyword"
+  | "format"
+  | "ref"
+  | "root"
+  | "depth"
+  | "property-count"
+  | "enum-size"
+  | "open-object"
+  | "optional-property";
+
+export interface StrictModeViolation {
+  path: string; // e.g. "root.address.zip", "root.tags[]", or a definition name
+  rule: StrictModeRule;
+  message: string;
+}
+
+const isTupleSchema = (schema: JsonSchema): boolean => Array.isArray(schema.items) || Array.isArray(schema.prefixItems);
+
+const getUnsupportedKeywords = (schema: JsonSchema): string[] => Object.keys(schema).filter((keyword) => !STRICT_MODE_KEYWORDS.includes(keyword));
+
+/**
+ * Checks a JSON Schema against the rules of strict structured output: supported keywords and formats,
+ * references to definitions only, a closed object at the root, every property required, and the limits
+ * on nesting, property count and enum size. Definitions are checked on their own, counting depth from their top level.
+ */
+export const lintStrictModeSchema = (schema: JsonSchema): StrictModeViolation[] => {
+  const violations: StrictModeViolation[] = [];
+  const definitions = getSchemaDefinitions(schema);
+  let propertyCount = 0;
+  let enumValueCount = 0;
+
+  const lintNode = (node: JsonSchema, path: string, depth: number) => {
+    if (typeof node.$ref === "string") {
+      const definitionName = node.$ref.match(/^#\/(?:\$defs|definitions)\/([^/]+)$/)?.[1];
+      if (node.$ref !== "#" && !definitionName) {
+        violations.push({ path, rule: "ref", message: `"${node.$ref}" does not point to a definition in the schema.` });
+      } else if (definitionName && !definitions[definitionName]) {
+        violations.push({ path, rule: "ref", message: `"${definitionName}" is not defined.` });
+      }
+      if (Object.keys(node).length > 1) {
+        violations.push({ path, rule: "ref", message: "$ref cannot be combined with other keywords." });
+      }
+    }
+    const unsupportedKeywords = getUnsupportedKeywords(node);
+    if (unsupportedKeywords.length > 0) {
+      violations.push({ path, rule: "keyword", message: `Unsupported keywords: ${unsupportedKeywords.join(", ")}.` });
+    }
+    if (isTupleSchema(node) || node.items === false) {
+      violations.push({ path, rule: "keyword", message: "Tuples are not supported; items must be a single schema." });
+    }
+    if (typeof node.format === "string" && !STRICT_MODE_FORMATS.includes(node.format)) {
+      violations.push({ path, rule: "format", message: `The "${node.format}" format is not supported.` });
+    }
+    if (Array.isArray(node.enum)) {
+      enumValueCount += node.enum.length;
+      const stringValues = node.enum.filter((value): value is string => typeof value === "string");
+      const stringLength = stringValues.reduce((length, value) => length + value.length, 0);
+      if (stringValues.length > STRICT_MODE_LIMITS.largeEnumSize && stringLength > STRICT_MODE_LIMITS.maxLargeEnumLength) {
+        violations.push({
+          path,
+          rule: "enum-size",
+          message: `${stringValues.length} values of ${stringLength} characters in total; enums of more than ${STRICT_MODE_LIMITS.largeEnumSize} values may hold ${STRICT_MODE_LIMITS.maxLargeEnumLength} characters.`,
+        });
+      }
+    }
+    if (node.properties && typeof node.properties === "object") {
+      propertyCount += Object.keys(node.properties).length;
+    }
+    if (depth === STRICT_MODE_LIMITS.maxDepth + 1) {
+      violations.push({ path, rule: "depth", message: `Nested more than ${STRICT_MODE_LIMITS.maxDepth} levels deep.` });
+    }
+    // Subschemas of reported keywords such as conditions are not fields, so only the others are followed.
+    // Properties and items are one level deeper; variants stay on the same level.
+    const followedNode = { ...node };
+    unsupportedKeywords.filter((keyword) => !REWRITTEN_KEYWORDS.includes(keyword)).forEach((keyword) => delete followedNode[keyword]);
+    mapSubschemas(followedNode, path, (subschema, subschemaPath) => {
+      lintNode(subschema, subschemaPath, subschemaPath === path ? depth : depth + 1);
+      return subschema;
+    });
+  };
+
+  const { definitions: _definitions, $defs: _defs, ...rootSchema } = schema;
+  if (rootSchema.type !== "object" || rootSchema.anyOf) {
+    violations.push({ path: "root", rule: "root", message: "The root must be an object, not a union." });
+  }
+  lintNode(rootSchema, "root", 0);
+  Object.entries(definitions).forEach(([name, definition]) => lintNode(definition, name, 0));
+
+  findOpenObjectPaths(schema).forEach((path) => {
+    violations.push({ path, rule: "open-object", message: "Objects must set additionalProperties to false." });
+  });
+  findOptionalPropertyPaths(schema).forEach((path) => {
+    violations.push({ path, rule: "optional-property", message: "Every property must be listed as required." });
+  });
+  if (propertyCount > STRICT_MODE_LIMITS.maxProperties) {
+    violations.push({ path: "root", rule: "property-count", message: `${propertyCount} properties; at most ${STRICT_MODE_LIMITS.maxProperties} are allowed.` });
+  }
+  if (enumValueCount > STRICT_MODE_LIMITS.maxEnumValues) {
+    violations.push({ path: "root", rule: "enum-size", message: `${enumValueCount} enum values; at most ${STRICT_MODE_LIMITS.maxEnumValues} are allowed.` });
+  }
+  return violations;
+};
+
+// Sentences describing the keywords strict mode rejects, written into descriptions instead
+const KEYWORD_DESCRIPTIONS: { [keyword: string]: (value: unknown) => string } = {
+  minLength: (value) => `At least ${value} characters.`,
+  maxLength: (value) => `At most ${value} characters.`,
+  uniqueItems: (value) => (value ? "Items must be unique." : ""),
+  minProperties: (value) => `At least ${value} properties.`,
+  maxProperties: (value) => `At most ${value} properties.`,
+  format: (value) => `Format: ${value}.`,
+  default: (value) => `Defaults to ${JSON.stringify(value)}.`,
+  examples: (value) => `Examples: ${(Array.isArray(value) ? value : [value]).map((example) => JSON.stringify(example)).join(", ")}.`,
+  deprecated: (value) => (value ? "Deprecated." : ""),
+  readOnly: (value) => (value ? "Read-only." : ""),
+  writeOnly: (value) => (value ? "Write-only." : ""),
+  "x-maxFileSize": (value) => `Encodes a file of at most ${value} bytes.`,
+};
+
+const describeKeyword = (keyword: string, value: unknown): string =>
+  KEYWORD_DESCRIPTIONS[keyword] ? KEYWORD_DESCRIPTIONS[keyword](value) : `${keyword}: ${JSON.stringify(value)}.`;
+
+const isNullSchema = (schema: JsonSchema): boolean => schema.type === "null" && Object.keys(schema).length === 1;
+
+// Lets a schema accept null as well, keeping an enum's values in line with its type
+const makeNullable = (schema: JsonSchema): JsonSchema => {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.includes("null")) return schema;
+    const nullable = { ...schema, type: [...types, "null"] };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) nullable.enum = [...schema.enum, null];
+    return nullable;
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return schema.anyOf.some(isNullSchema) ? schema : { ...schema, anyOf: [...schema.anyOf, { type: "null" }] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+};
+
+export interface StrictModeTransform {
+  schema: JsonSchema;
+  changes: string[]; // What was rewritten where, e.g. "root.tags: moved uniqueItems into the description."
+}
+
+/**
+ * Rewrites a JSON Schema so strict structured output accepts it, as far as possible without losing its meaning:
+ * - references are inlined, except recursive ones, whose definitions are kept;
+ * - allOf parts are merged into one object, oneOf becomes anyOf and tuples become lists of any of their positions;
+ * - other unsupported keywords and formats are described in the schema's description instead;
+ * - optional properties become required and nullable, and objects without additionalProperties are closed.
+ * Open objects and maps are left as they are, since closing them would drop their values; lint the result to find them.
+ */
+export const transformForStrictMode = (schema: JsonSchema): StrictModeTransform => {
+  const definitions = getSchemaDefinitions(schema);
+  const definitionsKeyword = schema.$defs ? "$defs" : "definitions";
+  const changes: string[] = [];
+  const inlinedNames = new Set<string>();
+  const keptNames = new Set<string>();
+
+  const transformNode = (node: JsonSchema, path: string, definitionStack: string[]): JsonSchema => {
+    if (typeof node.$ref === "string") {
+      const name = node.$ref.split("/").pop();
+      if (!definitions[name]) return node;
+      if (definitionStack.includes(name)) {
+        keptNames.add(name);
+        return node;
+      }
+      inlinedNames.add(name);
+      return transformNode(definitions[name], path, [...definitionStack, name]);
+    }
+    // Keywords written into the description are described as they were, so they are taken out before rewriting subschemas
+    const describedKeywords = getUnsupportedKeywords(node).filter((keyword) => !REWRITTEN_KEYWORDS.includes(keyword));
+    if (typeof node.format === "string" && !STRICT_MODE_FORMATS.includes(node.format)) describedKeywords.push("format");
+    const describedNode = { ...node };
+    if (describedKeywords.length > 0) {
+      describedNode.description = [node.description, ...describedKeywords.map((keyword) => describeKeyword(keyword, node[keyword]))]
+        .filter(Boolean)
+        .join(" ");
+      describedKeywords.forEach((keyword) => delete describedNode[keyword]);
+      changes.push(`${path}: moved ${describedKeywords.join(", ")} into the description.`);
+    }
+    const result = mapSubschemas(describedNode, path, (subschema, subschemaPath) => transformNode(subschema, subschemaPath, definitionStack));
+
+    if (Array.isArray(result.allOf)) {
+      // Parts left as references are recursive and cannot be merged
+      const references = result.allOf.filter((part) => part.$ref);
+      result.allOf.filter((part) => !part.$ref).forEach((part) => mergeAllOfPart(result, part));
+      if (references.length > 0) {
+        result.allOf = references;
+      } else {
+        delete result.allOf;
+        changes.push(`${path}: merged allOf into one schema.`);
+      }
+    }
+    if (Array.isArray(result.oneOf)) {
+      result.anyOf = [...(result.anyOf || []), ...result.oneOf];
+      delete result.oneOf;
+      changes.push(`${path}: wrote oneOf as anyOf.`);
+    }
+    if (isTupleSchema(result)) {
+      const positions = Array.isArray(result.prefixItems) ? result.prefixItems : Array.isArray(result.items) ? result.items : [];
+      const isClosed = result.items === false || result.additionalItems === false;
+      result.items = positions.length === 1 ? positions[0] : { anyOf: positions };
+      if (isClosed) result.maxItems = positions.length;
+      delete result.prefixItems;
+      delete result.additionalItems;
+      result.description = [
+        result.description,
+        `Items in order: ${positions.map((position, index) => position.title || position.type || `item ${index + 1}`).join(", ")}.`,
+      ].filter(Boolean).join(" ");
+      changes.push(`${path}: wrote the tuple as a list of any of its positions.`);
+    }
+
+    if (result.properties && typeof result.properties === "object") {
+      const required = new Set(result.required || []);
+      const optionalNames = Object.keys(result.properties).filter((name) => !required.has(name));
+      if (optionalNames.length > 0) {
+        optionalNames.forEach((name) => (result.properties[name] = makeNullable(result.properties[name])));
+        result.required = [...(result.required || []), ...optionalNames];
+        changes.push(`${path}: made ${optionalNames.join(", ")} required and nullable.`);
+      }
+      if (result.additionalProperties === undefined) {
+        result.additionalProperties = false;
+        changes.push(`${path}: closed the object to undeclared properties.`);
+      }
+    }
+    return result;
+  };
+
+  const { definitions: _definitions, $defs: _defs, ...rootSchema } = schema;
+  const transformedSchema = transformNode(rootSchema, "root", []);
+  // Kept definitions may refer to further recursive definitions, which are kept in turn
+  const keptDefinitions: { [name: string]: JsonSchema } = {};
+  while (Array.from(keptNames).some((name) => !keptDefinitions[name])) {
+    Array.from(keptNames)
+      .filter((name) => !keptDefinitions[name])
+      .forEach((name) => (keptDefinitions[name] = transformNode(definitions[name], name, [name])));
+  }
+  if (Object.keys(keptDefinitions).length > 0) {
+    transformedSchema[definitionsKeyword] = keptDefinitions;
+  }
+  if (inlinedNames.size > 0) {
+    changes.unshift(`Inlined the reusable types ${Array.from(inlinedNames).join(", ")}.`);
+  }
+  return { schema: transformedSchema, changes: Array.from(new Set(changes)) };
+};
@@ -1,5 +1,14 @@
 import { v4 as uuidv4 } from "uuid";
-import { SchemaField, SchemaFieldType } from "@/components/FieldEditor";
+import { ArrayLevel, ConditionalRule, ContainsCondition, DropdownOptionLabel, DropdownOptionType, ObjectPropertyOptions, PropertyCondition, PropertyDependency, SchemaField, SchemaFieldType, SchemaSettings, StringFormat, UnionMode } from "@/components/FieldEditor";
+import { formatDefaultValue } from "@/utils/fieldDefaultValue";
+import { convertExtensionKeywords } from "@/utils/extensionKeywords";
+import { isDateTimeType, parseRelativeBound, patternRequiresTimezone } from "@/utils/dateBounds";
+import { getSchemaMaxFileSize } from "@/utils/fileContent";
+import { getSchemaDraft } from "@/utils/schemaDrafts";
+import { JsonSchema, isSchemaObject } from "@/utils/subschemas";
+
+// Semantic string formats kept on imported string fields; others are dropped
+const STRING_FORMATS: StringFormat[] = ["email", "uri", "uuid", "hostname", "ipv4", "ipv6"];
 
 /**
  * Maps a JSON Schema type and format to a SchemaFieldType.
@@ -26,13 +35,611 @@ const mapJsonSchemaTypeToSchemaFieldType = (jsonType: string, format?: string):
   }
 };
 
+// Reads the earliest or latest bound of a date-like schema, preferring the relative expression it was built from
+const getDateBound = (schema: JsonSchema, keyword: "formatMinimum" | "formatMaximum"): string | undefined => {
+  const expression = schema[`x-${keyword}`];
+  if (typeof expression === "string" && parseRelativeBound(expression)) return expression;
+  const bound = schema[keyword];
+  return typeof bound === "string" ? bound : undefined;
+};
+
+// Returns the first non-null type of a (possibly array) JSON Schema `type`
+const getNonNullType = (jsonType: string | string[] | undefined): string | undefined => {
+  return Array.isArray(jsonType) ? jsonType.find((t) => t !== "null") : jsonType;
+};
+
+const isNullSchema = (schema: JsonSchema): boolean => schema && schema.type === "null";
+
+// Returns "anyOf" or "oneOf" if the schema is a union, undefined otherwise
+const getUnionMode = (schema: JsonSchema): UnionMode | undefined => {
+  if (Array.isArray(schema.oneOf)) return "oneOf";
+  if (Array.isArray(schema.anyOf)) return "anyOf";
+  return undefined;
+};
+
+// Returns the option type matching a list of enum values: numeric when all of them are numbers, string otherwise
+const getOptionType = (enumValues: unknown[]): DropdownOptionType | undefined => {
+  if (enumValues.length === 0 || !enumValues.every((value) => typeof value === "number")) return undefined;
+  return enumValues.every((value) => Number.isInteger(value)) ? "integer" : "number";
+};
+
+// Reads the labels and descriptions listed in x-enumNames/x-enumDescriptions, parallel to `enum`
+const getOptionLabels = (schema: JsonSchema, enumValues: unknown[]): Record<string, DropdownOptionLabel> | undefined => {
+  const names: unknown[] = Array.isArray(schema["x-enumNames"]) ? schema["x-enumNames"] : [];
+  const descriptions: unknown[] = Array.isArray(schema["x-enumDescriptions"]) ? schema["x-enumDescriptions"] : [];
+  const optionLabels: Record<string, DropdownOptionLabel> = {};
+  enumValues.forEach((value, index) => {
+    const label = names[index] !== undefined && String(names[index]) !== String(value) ? String(names[index]) : undefined;
+    const description = descriptions[index] ? String(descriptions[index]) : undefined;
+    if (label || description) {
+      optionLabels[String(value)] = { label, description };
+    }
+  });
+  return Object.keys(optionLabels).length > 0 ? optionLabels : undefined;
+};
+
+/**
+ * Rewrites a oneOf/anyOf listing only constants (the labeled form of an enum: `{ const, title, description }`)
+ * as an `enum` with parallel x-enumNames/x-enumDescriptions. Returns undefined for other schemas.
+ */
+const getConstOptionsSchema = (schema: JsonSchema): JsonSchema | undefined => {
+  const unionMode = getUnionMode(schema);
+  if (!unionMode) return undefined;
+  const options = schema[unionMode].filter((option) => !isNullSchema(option));
+  if (options.length < 2 || !options.every((option) => option && option.const !== undefined)) return undefined;
+  const { [unionMode]: _options, ...annotations } = schema;
+  const values = options.map((option) => option.const);
+  const optionType = getOptionType(values) || "string";
+  return {
+    ...annotations,
+    type: options.length < schema[unionMode].length ? [optionType, "null"] : optionType,
+    enum: values,
+    "x-enumNames": options.map((option) => option.title ?? String(option.const)),
+    "x-enumDescriptions": options.map((option) => option.description || ""),
+  };
+};
+
+/**
+ * Derives a valid field name for a union variant (or tuple position) from its title or referenced type,
+ * falling back to its position.
+ */
+const getVariantName = (variantSchema: JsonSchema, index: number, fallbackPrefix: string = "variant"): string => {
+  const source = variantSchema.title || (variantSchema.$ref ? variantSchema.$ref.split('/').pop() : "");
+  const name = String(source).replace(/[^a-zA-Z0-9_-]/g, "");
+  return name || `${fallbackPrefix}${index + 1}`;
+};
+
+// Returns the constant a variant pins `propertyName` to (via `const` or a single-value `enum`), if any
+const getVariantTagValue = (variantSchema: JsonSchema, propertyName: string): unknown => {
+  if (Array.isArray(variantSchema.allOf)) {
+    for (const part of variantSchema.allOf) {
+      const value = getVariantTagValue(part, propertyName);
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+  const propertySchema = variantSchema.properties?.[propertyName];
+  if (!propertySchema) return undefined;
+  if (propertySchema.const !== undefined) return propertySchema.const;
+  if (Array.isArray(propertySchema.enum) && propertySchema.enum.length === 1) return propertySchema.enum[0];
+  return undefined;
+};
+
+/**
+ * Finds the discriminator of a union: the OpenAPI `discriminator.propertyName` if present,
+ * otherwise a property that every variant pins to a constant value.
+ */
+const findUnionDiscriminator = (unionSchema: JsonSchema, variantSchemas: JsonSchema[]): string | undefined => {
+  if (unionSchema.discriminator?.propertyName) return unionSchema.discriminator.propertyName;
+  if (variantSchemas.length < 2) return undefined;
+  const firstVariant = variantSchemas[0];
+  const candidates = [firstVariant, ...(firstVariant.allOf || [])].flatMap((part) => Object.keys(part.properties || {}));
+  return candidates.find((name) => variantSchemas.every((variant) => getVariantTagValue(variant, name) !== undefined));
+};
+
+// Strips the discriminator property from a variant, unwrapping `allOf: [{ $ref }, { tag }]` back into the reference
+const removeVariantTag = (variantSchema: JsonSchema, propertyName: string): JsonSchema => {
+  if (Array.isArray(variantSchema.allOf)) {
+    const parts = variantSchema.allOf
+      .map((part) => removeVariantTag(part, propertyName))
+      .filter((part) => part.$ref || Object.keys(part.properties || {}).length > 0);
+    const { allOf: _allOf, ...annotations } = variantSchema;
+    return parts.length === 1 ? { ...parts[0], ...annotations } : { ...annotations, allOf: parts };
+  }
+  if (!variantSchema.properties?.[propertyName]) return variantSchema;
+  const { [propertyName]: _tag, ...properties } = variantSchema.properties;
+  return {
+    ...variantSchema,
+    properties,
+    required: (variantSchema.required || []).filter((name) => name !== propertyName),
+  };
+};
+
+// Returns true if an `allOf` only lists conditional rule clauses rather than composing types
+const isConditionalRuleList = (allOf: JsonSchema[] | undefined): boolean => {
+  return Array.isArray(allOf) && allOf.length > 0 && allOf.every((part) => part && part.if);
+};
+
+// Returns the if/then/else clauses of an object schema, written inline or listed in `allOf`
+const getRuleClauses = (schema: JsonSchema): JsonSchema[] => {
+  if (schema.if) return [schema];
+  if (isConditionalRuleList(schema.allOf)) return schema.allOf;
+  return [];
+};
+
+// Returns the properties a then/else clause requires, whether listed in `required` or constrained in `properties`
+const getClauseRequiredNames = (clause: JsonSchema): string[] => {
+  return Array.from(new Set<string>([...(clause.required || []), ...Object.keys(clause.properties || {})]));
+};
+
+// Reads a condition written as const, enum or "not null" (or an empty schema, which any value matches)
+const convertConditionSchema = (conditionSchema: JsonSchema | undefined): Pick<ConditionalRule, "operator" | "values"> | undefined => {
+  if (conditionSchema?.const !== undefined) {
+    return { operator: "equals", values: [String(conditionSchema.const)] };
+  }
+  if (Array.isArray(conditionSchema?.enum)) {
+    return { operator: "oneOf", values: conditionSchema.enum.map(String) };
+  }
+  if (conditionSchema && (conditionSchema.not?.type === "null" || Object.keys(conditionSchema).length === 0)) {
+    return { operator: "present" };
+  }
+  return undefined;
+};
+
+// Returns true if an if/then clause holds a property dependency written for the LLM strict profile: its trigger
+// must not be null and its then clause pins other properties to values, which conditional rules cannot express
+const isDependencyClause = (clause: JsonSchema): boolean => {
+  const testedNames = Object.keys(clause.if.properties || {});
+  return testedNames.length === 1 && clause.if.properties[testedNames[0]]?.not?.type === "null" && !clause.else && !!clause.then &&
+    Object.values(clause.then.properties || {}).some((conditionSchema) => conditionSchema?.const !== undefined || Array.isArray(conditionSchema?.enum));
+};
+
+/**
+ * Converts if/then/else clauses back into conditional rules, leaving out those holding property dependencies.
+ * Only conditions testing a single property with const, enum or "not null" are supported; others are skipped.
+ */
+const convertRuleClauses = (clauses: JsonSchema[]): ConditionalRule[] | undefined => {
+  const rules: ConditionalRule[] = [];
+  clauses.filter(clause => !isDependencyClause(clause)).forEach((clause) => {
+    const testedNames = Object.keys(clause.if.properties || {});
+    const rule = testedNames.length === 1 ? convertConditionSchema(clause.if.properties[testedNames[0]]) : undefined;
+    if (!rule) {
+      console.warn("Unsupported if/then/else condition skipped:", clause.if);
+      return;
+    }
+    const elseRequired = clause.else ? getClauseRequiredNames(clause.else) : [];
+    rules.push({
+      id: uuidv4(),
+      fieldName: testedNames[0],
+      ...rule,
+      thenRequired: clause.then ? getClauseRequiredNames(clause.then) : [],
+      elseRequired: elseRequired.length > 0 ? elseRequired : undefined,
+    });
+  });
+  return rules.length > 0 ? rules : undefined;
+};
+
+// Keywords holding property dependencies: draft-07 `dependencies` and its 2019-09 split into two keywords
+const DEPENDENCY_KEYWORDS = ["dependencies", "dependentRequired", "dependentSchemas"] as const;
+
+/**
+ * Converts property dependencies back into the editor's form, from `dependencies` (array or schema values),
+ * `dependentRequired`, `dependentSchemas` and the if/then clauses of the LLM strict profile. A dependent schema
+ * (or then clause) becomes required properties plus value conditions; dependent schemas with conditions
+ * other than const, enum or "not null" are skipped.
+ */
+const convertPropertyDependencies = (schema: JsonSchema): PropertyDependency[] | undefined => {
+  const dependencies: PropertyDependency[] = [];
+  const entries: [string, JsonSchema | string[]][] = [
+    ...DEPENDENCY_KEYWORDS.flatMap((keyword) => Object.entries(schema[keyword] || {})),
+    ...getRuleClauses(schema).filter(isDependencyClause).map((clause): [string, JsonSchema] => [Object.keys(clause.if.properties)[0], clause.then]),
+  ];
+  entries.forEach(([trigger, value]) => {
+    if (Array.isArray(value)) {
+      dependencies.push({ id: uuidv4(), fieldName: trigger, requiredFields: value });
+      return;
+    }
+    if (!isSchemaObject(value)) return;
+    const conditions: PropertyCondition[] = [];
+    const supported = Object.entries(value.properties || {}).every(([name, conditionSchema]) => {
+      const condition = convertConditionSchema(conditionSchema);
+      if (condition && condition.operator !== "present") {
+        conditions.push({ fieldName: name, ...condition });
+      }
+      return !!condition;
+    });
+    if (!supported) {
+      console.warn(`Unsupported dependent schema for "${trigger}" skipped:`, value);
+      return;
+    }
+    const conditionNames = new Set(conditions.map(condition => condition.fieldName));
+    dependencies.push({
+      id: uuidv4(),
+      fieldName: trigger,
+      requiredFields: getClauseRequiredNames(value).filter(name => !conditionNames.has(name)),
+      conditions: conditions.length > 0 ? conditions : undefined,
+    });
+  });
+  return dependencies.length > 0 ? dependencies : undefined;
+};
+
+/**
+ * Returns the positional item schemas of a tuple array and whether it accepts extra items, or undefined
+ * for regular arrays. Handles both the draft-07 form (`items: [...]` with `additionalItems`)
+ * and the 2020-12 form (`prefixItems` with `items`).
+ */
+const getTupleSchema = (schema: JsonSchema): { itemSchemas: JsonSchema[]; additionalItems: boolean } | undefined => {
+  if (getNonNullType(schema.type) !== "array") return undefined;
+  if (Array.isArray(schema.prefixItems)) {
+    return { itemSchemas: schema.prefixItems, additionalItems: schema.items !== false };
+  }
+  if (Array.isArray(schema.items)) {
+    return { itemSchemas: schema.items, additionalItems: schema.additionalItems !== false };
+  }
+  return undefined;
+};
+
+/**
+ * Returns the value schema and key pattern of an object used as a map: one without fixed properties
+ * whose values are described by `additionalProperties` (optionally with a `propertyNames` pattern)
+ * or by a single `patternProperties` entry. Returns undefined for regular objects.
+ */
+const getMapSchema = (schema: JsonSchema): { valueSchema: JsonSchema; keyPattern?: string } | undefined => {
+  if (schema.properties && Object.keys(schema.properties).length > 0) return undefined;
+  const patternEntries = Object.entries(schema.patternProperties || {});
+  if (patternEntries.length === 1) {
+    return { valueSchema: patternEntries[0][1], keyPattern: patternEntries[0][0] };
+  }
+  if (patternEntries.length === 0 && isSchemaObject(schema.additionalProperties)) {
+    return { valueSchema: schema.additionalProperties, keyPattern: schema.propertyNames?.pattern };
+  }
+  return undefined;
+};
+
+/**
+ * Reads how an object treats undeclared properties, and its property counts.
+ * `additionalProperties: true` or an empty schema makes the object open, any other schema types the extra properties.
+ * Objects without the keyword are open too, as JSON Schema allows undeclared properties by default;
+ * only `additionalProperties: false` gives the builder's closed default.
+ */
+const convertObjectPropertyOptions = (
+  schema: JsonSchema,
+  definitionsMap: Map<string, SchemaField>,
+  parentId?: string,
+): ObjectPropertyOptions => {
+  // Only `additionalProperties: false` closes an object; without the keyword, undeclared properties are allowed
+  const additionalProperties = schema.additionalProperties;
+  const isTyped = isSchemaObject(additionalProperties) && Object.keys(additionalProperties).length > 0;
+  const isClosed = additionalProperties === false;
+  return {
+    additionalPropertiesMode: isTyped ? "typed" : isClosed ? undefined : "open",
+    additionalPropertiesType: isTyped ? convertSchemaToSchemaField("value", additionalProperties as JsonSchema, true, definitionsMap, parentId) : undefined,
+    minProperties: schema.minProperties,
+    maxProperties: schema.maxProperties,
+  };
+};
+
+/**
+ * Splits an `allOf` composition into the names of the definitions it references
+ * and a single object schema merging its inline parts (including their conditional rules and dependencies).
+ */
+const splitAllOfSchema = (schema: JsonSchema): { baseNames: string[]; ownSchema: JsonSchema } => {
+  const { allOf, ...annotations } = schema;
+  const baseNames: string[] = [];
+  const ruleClauses: JsonSchema[] = [];
+  const ownSchema: JsonSchema = { ...annotations, type: "object", properties: {}, required: [] };
+  allOf.forEach((part) => {
+    if (part.$ref) {
+      baseNames.push(part.$ref.split('/').pop());
+    } else {
+      Object.assign(ownSchema.properties, part.properties);
+      ownSchema.required.push(...(part.required || []));
+      ruleClauses.push(...getRuleClauses(part));
+      DEPENDENCY_KEYWORDS.filter(keyword => part[keyword]).forEach((keyword) => {
+        Object.assign(ownSchema, { [keyword]: { ...ownSchema[keyword], ...part[keyword] } });
+      });
+    }
+  });
+  if (ruleClauses.length > 0) {
+    ownSchema.allOf = ruleClauses;
+  }
+  return { baseNames, ownSchema };
+};
+
+/**
+ * Converts the type-specific part of a schema (the item schema for arrays) into SchemaField properties:
+ * the field type plus whatever that type carries (children, refId, variants, options, string constraints...).
+ */
+const convertTypeSchemaToFieldProps = (
+  typeSchema: JsonSchema,
+  definitionsMap: Map<string, SchemaField>,
+  fieldId: string,
+): Partial<SchemaField> => {
+  if (typeSchema.$ref) {
+    const refName = typeSchema.$ref.split('/').pop();
+    const referencedField = definitionsMap.get(refName);
+    if (referencedField) {
+      return { type: "ref", refId: referencedField.id };
+    }
+    console.warn(`Reference ${typeSchema.$ref} not found in definitions. Falling back to string.`);
+    return { type: "string" };
+  }
+
+  const constOptionsSchema = getConstOptionsSchema(typeSchema);
+  if (constOptionsSchema) {
+    return convertTypeSchemaToFieldProps(constOptionsSchema, definitionsMap, fieldId);
+  }
+
+  const unionMode = getUnionMode(typeSchema);
+  if (unionMode) {
+    const variantSchemas = typeSchema[unionMode].filter((variant) => !isNullSchema(variant));
+    const discriminator = findUnionDiscriminator(typeSchema, variantSchemas);
+    const mapping: Record<string, string> = typeSchema.discriminator?.mapping || {};
+    return {
+      type: "union",
+      unionMode: unionMode,
+      discriminator: discriminator,
+      variants: variantSchemas.map((variant, index) => {
+        if (!discriminator) {
+          return convertSchemaToSchemaField(getVariantName(variant, index), variant, true, definitionsMap, fieldId);
+        }
+        // OpenAPI mappings tag plain references from the union itself
+        const tagValue = getVariantTagValue(variant, discriminator)
+          ?? Object.keys(mapping).find((value) => mapping[value] === variant.$ref);
+        const untaggedVariant = removeVariantTag(variant, discriminator);
+        return {
+          ...convertSchemaToSchemaField(getVariantName(untaggedVariant, index), untaggedVariant, true, definitionsMap, fieldId),
+          discriminatorValue: tagValue !== undefined ? String(tagValue) : undefined,
+        };
+      }),
+    };
+  }
+
+  if (Array.isArray(typeSchema.allOf) && !isConditionalRuleList(typeSchema.allOf)) {
+    const { baseNames, ownSchema } = splitAllOfSchema(typeSchema);
+    if (baseNames.length === 1 && Object.keys(ownSchema.properties).length === 0) {
+      return convertTypeSchemaToFieldProps({ $ref: typeSchema.allOf.find((part) => part.$ref).$ref }, definitionsMap, fieldId);
+    }
+    // Only reusable types can inherit; elsewhere only the inline properties are kept
+    if (baseNames.length > 0) {
+      console.warn(`Inline allOf extending ${baseNames.join(", ")} is not supported. Keeping only its own properties.`);
+    }
+    return convertTypeSchemaToFieldProps(ownSchema, definitionsMap, fieldId);
+  }
+
+  const tupleSchema = getTupleSchema(typeSchema);
+  if (tupleSchema) {
+    return {
+      type: "tuple",
+      tupleItems: tupleSchema.itemSchemas.map((itemSchema, index) =>
+        convertSchemaToSchemaField(getVariantName(itemSchema, index, "item"), itemSchema, true, definitionsMap, fieldId)
+      ),
+      additionalItems: tupleSchema.additionalItems || undefined,
+    };
+  }
+
+  const actualType = getNonNullType(typeSchema.type);
+  if (actualType === "object") {
+    const mapSchema = getMapSchema(typeSchema);
+    if (mapSchema) {
+      return {
+        type: "map",
+        keyPattern: mapSchema.keyPattern,
+        mapValue: convertSchemaToSchemaField("value", mapSchema.valueSchema, true, definitionsMap, fieldId),
+      };
+    }
+    return {
+      type: "object",
+      children: convertPropertiesToSchemaFields(typeSchema.properties, new Set(typeSchema.required || []), definitionsMap, fieldId),
+      rules: convertRuleClauses(getRuleClauses(typeSchema)),
+      dependencies: convertPropertyDependencies(typeSchema),
+      ...convertObjectPropertyOptions(typeSchema, definitionsMap, fieldId),
+    };
+  }
+
+  const fieldProps: Partial<SchemaField> = {
+    type: mapJsonSchemaTypeToSchemaFieldType(actualType || "string", typeSchema.format),
+    pattern: typeSchema.pattern,
+    minLength: typeSchema.minLength,
+    maxLength: typeSchema.maxLength,
+  };
+  if (Array.isArray(typeSchema.enum)) {
+    const enumValues = typeSchema.enum.filter((value) => value !== null);
+    fieldProps.type = "dropdown";
+    fieldProps.options = enumValues.map(String);
+    fieldProps.optionType = getOptionType(enumValues);
+    fieldProps.optionLabels = getOptionLabels(typeSchema, enumValues);
+  }
+  // Check for custom 'currency' property
+  if (typeSchema.currency) {
+    fieldProps.type = "currency";
+    fieldProps.currency = typeSchema.currency as string;
+  }
+  if (fieldProps.type === "string" && STRING_FORMATS.includes(typeSchema.format as StringFormat)) {
+    fieldProps.format = typeSchema.format as StringFormat;
+  }
+  // Base64 strings are files; the size limit is read from x-maxFileSize, or else from the encoded length
+  if (fieldProps.type === "string" && typeSchema.contentEncoding === "base64") {
+    const mediaTypes = Array.isArray(typeSchema["x-contentMediaTypes"])
+      ? typeSchema["x-contentMediaTypes"].map(String)
+      : typeof typeSchema.contentMediaType === "string" ? [typeSchema.contentMediaType] : [];
+    return {
+      type: "file",
+      mediaTypes: mediaTypes.length > 0 ? mediaTypes : undefined,
+      maxFileSize: getSchemaMaxFileSize(typeSchema),
+    };
+  }
+  // Relative bounds are kept as written rather than as the value they resolved to when the schema was built
+  if (isDateTimeType(fieldProps.type!)) {
+    fieldProps.earliest = getDateBound(typeSchema, "formatMinimum");
+    fieldProps.latest = getDateBound(typeSchema, "formatMaximum");
+    if (fieldProps.type === "datetime" && patternRequiresTimezone(typeSchema.pattern)) {
+      fieldProps.requireTimezone = true;
+    }
+  }
+  return fieldProps;
+};
+
+/**
+ * Converts the `contains` keywords of an array schema into a contains condition.
+ * The condition either tests the items themselves or a single property of object items;
+ * other `contains` schemas are skipped.
+ */
+const convertContainsKeywords = (arraySchema: JsonSchema): ContainsCondition | undefined => {
+  if (!isSchemaObject(arraySchema.contains)) return undefined;
+  const containsSchema = arraySchema.contains;
+  const testedNames = Object.keys(containsSchema.properties || {});
+  const condition = containsSchema.properties
+    ? (testedNames.length === 1 ? convertConditionSchema(containsSchema.properties[testedNames[0]]) : undefined)
+    : convertConditionSchema(containsSchema);
+  if (!condition) {
+    console.warn("Unsupported contains condition skipped:", containsSchema);
+    return undefined;
+  }
+  return {
+    fieldName: containsSchema.properties ? testedNames[0] : undefined,
+    ...condition,
+    minContains: arraySchema.minContains,
+    maxContains: arraySchema.maxContains,
+  };
+};
+
+/**
+ * Reads the range and step constraints of a number schema.
+ * Exclusive bounds are numbers in draft-06 and later; the draft-04 boolean form
+ * (`exclusiveMinimum: true` next to `minimum`) makes the matching bound exclusive.
+ */
+const getNumericConstraints = (schema: JsonSchema): Partial<SchemaField> => {
+  const constraints: Partial<SchemaField> = {
+    minValue: schema.minimum,
+    maxValue: schema.maximum,
+    exclusiveMinValue: typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum : undefined,
+    exclusiveMaxValue: typeof schema.exclusiveMaximum === "number" ? schema.exclusiveMaximum : undefined,
+    multipleOf: typeof schema.multipleOf === "number" ? schema.multipleOf : undefined,
+  };
+  if (schema.exclusiveMinimum === true && schema.minimum !== undefined) {
+    constraints.exclusiveMinValue = schema.minimum;
+    constraints.minValue = undefined;
+  }
+  if (schema.exclusiveMaximum === true && schema.maximum !== undefined) {
+    constraints.exclusiveMaxValue = schema.maximum;
+    constraints.maxValue = undefined;
+  }
+  return constraints;
+};
+
+/**
+ * Returns true if every object in a schema lists all its properties in `required`, as the LLM strict
+ * output profile does. Nested objects, items, union variants, composed parts and definitions are checked;
+ * the schemas of conditions and dependencies are not.
+ */
+const listsEveryPropertyAsRequired = (schema: unknown): boolean => {
+  if (!isSchemaObject(schema)) return true;
+  const required = new Set(schema.required || []);
+  const nestedSchemas = [
+    ...Object.values(schema.properties || {}),
+    ...(Array.isArray(schema.items) ? schema.items : [schema.items]),
+    ...(schema.prefixItems || []),
+    schema.additionalProperties,
+    ...(schema.anyOf || []),
+    ...(schema.oneOf || []),
+    ...(schema.allOf || []),
+    ...Object.values(schema.definitions || schema.$defs || {}),
+  ];
+  return Object.keys(schema.properties || {}).every((name) => required.has(name))
+    && nestedSchemas.every(listsEveryPropertyAsRequired);
+};
+
+// Returns the schema of the items of a (non-tuple) array schema; `items: true` or a missing `items` allows anything
+const getArrayItemSchema = (arraySchema: JsonSchema): JsonSchema =>
+  isSchemaObject(arraySchema.items) ? arraySchema.items : {};
+
+/**
+ * Converts a single JSON Schema (a property, a union variant, a definition or a standalone field)
+ * into a SchemaField. `isRequired` reflects whether the parent lists it as required;
+ * a schema that also accepts null (on the items, for arrays) makes the field nullable.
+ */
+const convertSchemaToSchemaField = (
+  name: string,
+  schema: JsonSchema,
+  isRequired: boolean,
+  definitionsMap: Map<string, SchemaField>,
+  parentId?: string,
+  id: string = uuidv4(),
+): SchemaField => {
+  const unionMode = getUnionMode(schema);
+  if (unionMode) {
+    const nonNullVariants = schema[unionMode].filter((variant) => !isNullSchema(variant));
+    const isNullable = nonNullVariants.length < schema[unionMode].length;
+    if (nonNullVariants.length === 1) {
+      // `anyOf: [X, {type: "null"}]` is just a nullable X, not a real union
+      const { [unionMode]: _variants, ...annotations } = schema;
+      const field = convertSchemaToSchemaField(name, { ...nonNullVariants[0], ...annotations }, isRequired, definitionsMap, parentId, id);
+      return isNullable ? { ...field, isNullable: true } : field;
+    }
+  }
+
+  // Tuples are arrays too, but their positional items are converted as a single tuple field
+  const isMultiple = getNonNullType(schema.type) === "array" && !getTupleSchema(schema);
+  // For arrays, type-specific keywords (and annotations emitted by the builder) live on the item schema.
+  // Arrays directly nested in the outer one become its inner array levels.
+  let itemSchema: JsonSchema = isMultiple ? getArrayItemSchema(schema) : schema;
+  const innerArrays: ArrayLevel[] = [];
+  while (isMultiple && getNonNullType(itemSchema.type) === "array" && !getTupleSchema(itemSchema)) {
+    innerArrays.push({ minItems: itemSchema.minItems, maxItems: itemSchema.maxItems, uniqueItems: itemSchema.uniqueItems || undefined });
+    itemSchema = getArrayItemSchema(itemSchema);
+  }
+  // The builder writes the null type (or null variant) on the item schema of arrays
+  const itemUnionMode = getUnionMode(itemSchema);
+  const isNullable = [schema, itemSchema].some((s) => Array.isArray(s.type) && s.type.includes("null"))
+    || (!!itemUnionMode && itemSchema[itemUnionMode].some(isNullSchema));
+  // `examples` lists values of the whole field; the older `example` keyword holds one, on the item schema for arrays
+  let examples: unknown[] = [];
+  if (Array.isArray(schema.examples)) {
+    examples = schema.examples;
+  } else if (schema.example !== undefined) {
+    examples = [schema.example];
+  } else if (itemSchema.example !== undefined) {
+    examples = [[itemSchema.example]];
+  }
+
+  const field: SchemaField = {
+    id: id,
+    name: name,
+    type: "string",
+    isMultiple: isMultiple,
+    isRequired: isRequired,
+    isNullable: isNullable || undefined,
+    title: schema.title ?? itemSchema.title,
+    description: schema.description ?? itemSchema.description,
+    ...getNumericConstraints(itemSchema),
+    minItems: isMultiple ? schema.minItems : undefined,
+    maxItems: isMultiple ? schema.maxItems : undefined,
+    uniqueItems: isMultiple && schema.uniqueItems ? true : undefined,
+    innerArrays: innerArrays.length > 0 ? innerArrays : undefined,
+    contains: isMultiple && innerArrays.length === 0 ? convertContainsKeywords(schema) : undefined,
+    readOnly: schema.readOnly || itemSchema.readOnly || undefined,
+    writeOnly: schema.writeOnly || itemSchema.writeOnly || undefined,
+    deprecated: schema.deprecated || itemSchema.deprecated || undefined,
+    // The builder writes extensions on the array wrapper, while other tools may put them on the items
+    extensions: convertExtensionKeywords(isMultiple ? { ...itemSchema, ...schema } : schema),
+    parentId: parentId,
+    isValidName: true, // Assume valid name from imported schema
+    ...convertTypeSchemaToFieldProps(itemSchema, definitionsMap, id),
+  };
+  // The default and examples are read once the type is known, since it decides how they are written in the editor
+  field.defaultValue = formatDefaultValue(field, schema.default);
+  field.examples = examples.length > 0 ? examples.map(example => formatDefaultValue(field, example)!) : undefined;
+  return field;
+};
+
 /**
  * Recursively converts JSON Schema properties into an array of SchemaField objects.
  * This helper function is used for both main schema properties and nested object properties.
  * It resolves $ref against the provided definitionsMap.
  */
 const convertPropertiesToSchemaFields = (
-  properties: any,
+  properties: Record<string, JsonSchema> | undefined,
   requiredFields: Set<string>,
   definitionsMap: Map<string, SchemaField>, // Map of definition names to SchemaField objects
   parentId?: string,
@@ -41,128 +648,7 @@ const convertPropertiesToSchemaFields = (
   if (!properties || typeof properties !== 'object') return fields;
 
   for (const key in properties) {
-    const prop = properties[key];
-    let fieldType: SchemaFieldType = "string";
-    let isMultiple = false;
-    let children: SchemaField[] | undefined = undefined;
-    let refId: string | undefined = undefined;
-    let options: string[] | undefined = undefined;
-    let isRequired = requiredFields.has(key);
-    let currency: string | undefined = undefined;
-    let pattern: string | undefined = undefined;
-    let minLength: number | undefined = undefined; // New: minLength
-    let maxLength: number | undefined = undefined; // New: maxLength
-
-    // Handle $ref first
-    if (prop.$ref) {
-      const refName = prop.$ref.split('/').pop();
-      const referencedField = definitionsMap.get(refName);
-      if (referencedField) {
-        fieldType = "ref";
-        refId = referencedField.id;
-      } else {
-        console.warn(`Reference ${prop.$ref} not found in definitions. Falling back to string.`);
-        fieldType = "string"; // Fallback if reference is not found
-      }
-    } else if (prop.type === "array") {
-      isMultiple = true;
-      const itemSchema = prop.items;
-      if (itemSchema) {
-        if (itemSchema.$ref) {
-          const refName = itemSchema.$ref.split('/').pop();
-          const referencedField = definitionsMap.get(refName);
-          if (referencedField) {
-            fieldType = "ref"; // Array of references
-            refId = referencedField.id;
-          } else {
-            console.warn(`Reference ${itemSchema.$ref} not found for array items. Falling back to string.`);
-            fieldType = "string"; // Fallback
-          }
-        } else if (itemSchema.type === "object") {
-          fieldType = "object";
-          children = convertPropertiesToSchemaFields(itemSchema.properties, new Set(itemSchema.required || []), definitionsMap, uuidv4());
-        } else {
-          // Handle primitive array items
-          const actualType = Array.isArray(itemSchema.type) ? itemSchema.type.find((t: string) => t !== "null") : itemSchema.type;
-          fieldType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", itemSchema.format);
-          if (itemSchema.enum) {
-            fieldType = "dropdown";
-            options = itemSchema.enum;
-          }
-          // Check for custom 'currency' property on array items if applicable
-          if (itemSchema.currency) {
-            fieldType = "currency";
-            currency = itemSchema.currency;
-          }
-          if (itemSchema.pattern) {
-            pattern = itemSchema.pattern;
-          }
-          if (itemSchema.minLength !== undefined) { // Read minLength for array items
-            minLength = itemSchema.minLength;
-          }
-          if (itemSchema.maxLength !== undefined) { // Read maxLength for array items
-            maxLength = itemSchema.maxLength;
-          }
-        }
-      } else {
-        fieldType = "string"; // Default for untyped array items
-      }
-    } else if (prop.type === "object") {
-      fieldType = "object";
-      children = convertPropertiesToSchemaFields(prop.properties, new Set(prop.required || []), definitionsMap, uuidv4());
-    } else {
-      // Handle single primitive types
-      const actualType = Array.isArray(prop.type) ? prop.type.find((t: string) => t !== "null") : prop.type;
-      if (Array.isArray(prop.type) && prop.type.includes("null")) {
-        isRequired = false; // If null is allowed, it's not strictly required
-      }
-      
-      fieldType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", prop.format);
-      
-      if (prop.enum) {
-        fieldType = "dropdown";
-        options = prop.enum;
-      }
-      // Check for custom 'currency' property
-      if (prop.currency) {
-        fieldType = "currency";
-        currency = prop.currency;
-      }
-      if (prop.pattern) {
-        pattern = prop.pattern;
-      }
-      if (prop.minLength !== undefined) { // Read minLength
-        minLength = prop.minLength;
-      }
-      if (prop.maxLength !== undefined) { // Read maxLength
-        maxLength = prop.maxLength;
-      }
-    }
-
-    const field: SchemaField = {
-      id: uuidv4(),
-      name: key,
-      type: fieldType,
-      isMultiple: isMultiple,
-      isRequired: isRequired,
-      title: prop.title,
-      description: prop.description,
-      example: prop.example !== undefined ? String(prop.example) : undefined,
-      children: children,
-      refId: refId,
-      minValue: prop.minimum,
-      maxValue: prop.maximum,
-      minItems: prop.minItems,
-      maxItems: prop.maxItems,
-      currency: currency, // Assign the detected currency
-      options: options,
-      parentId: parentId,
-      isValidName: true, // Assume valid name from imported schema
-      pattern: pattern, // Assign the detected pattern
-      minLength: minLength, // Assign minLength
-      maxLength: maxLength, // Assign maxLength
-    };
-    fields.push(field);
+    fields.push(convertSchemaToSchemaField(key, properties[key], requiredFields.has(key), definitionsMap, parentId));
   }
   return fields;
 };
@@ -171,132 +657,45 @@ const convertPropertiesToSchemaFields = (
  * Converts a full JSON Schema object (including definitions) into an array of SchemaField objects
  * for the main schema and an array for reusable types.
  * @param jsonSchema The full JSON Schema object.
- * @returns An object containing `mainFields` and `reusableTypes`.
+ * @returns An object containing `mainFields`, `reusableTypes` and the root `settings`.
  */
-export const convertFullJsonSchemaToSchemaFieldsAndReusableTypes = (jsonSchema: any): { mainFields: SchemaField[]; reusableTypes: SchemaField[] } => {
+export const convertFullJsonSchemaToSchemaFieldsAndReusableTypes = (jsonSchema: JsonSchema): { mainFields: SchemaField[]; reusableTypes: SchemaField[]; settings: SchemaSettings } => {
   const definitionsMap = new Map<string, SchemaField>();
   const reusableTypes: SchemaField[] = [];
 
-  // First pass: Identify and create placeholder SchemaField objects for all definitions.
+  // First pass: Create placeholder SchemaField objects for all definitions.
   // This ensures all reusable types have an ID and are in the map before we try to resolve them.
   const defs = jsonSchema.definitions || jsonSchema.$defs;
   if (defs && typeof defs === 'object') {
     for (const defName in defs) {
-      const def = defs[defName];
-      // Determine the type of the definition
-      let defType: SchemaFieldType = "string"; // Default
-      let defIsMultiple = false;
-      let defChildren: SchemaField[] | undefined = undefined;
-      let defOptions: string[] | undefined = undefined;
-      let defCurrency: string | undefined = undefined;
-      let defMinValue: number | undefined = undefined;
-      let defMaxValue: number | undefined = undefined;
-      let defMinItems: number | undefined = undefined;
-      let defMaxItems: number | undefined = undefined;
-      let defPattern: string | undefined = undefined;
-      let defMinLength: number | undefined = undefined; // New: defMinLength
-      let defMaxLength: number | undefined = undefined; // New: defMaxLength
-
-      if (def.type === "array" && def.items) {
-        defIsMultiple = true;
-        const itemSchema = def.items;
-        if (itemSchema.type === "object") {
-          defType = "object";
-          // Children will be populated in the second pass
-        } else {
-          const actualType = Array.isArray(itemSchema.type) ? itemSchema.type.find((t: string) => t !== "null") : itemSchema.type;
-          defType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", itemSchema.format);
-          if (itemSchema.enum) {
-            defType = "dropdown";
-            defOptions = itemSchema.enum;
-          }
-          if (itemSchema.currency) {
-            defType = "currency";
-            defCurrency = itemSchema.currency;
-          }
-          if (itemSchema.pattern) {
-            defPattern = itemSchema.pattern;
-          }
-          if (itemSchema.minLength !== undefined) {
-            defMinLength = itemSchema.minLength;
-          }
-          if (itemSchema.maxLength !== undefined) {
-            defMaxLength = itemSchema.maxLength;
-          }
-        }
-        defMinItems = def.minItems;
-        defMaxItems = def.maxItems;
-      } else if (def.type === "object") {
-        defType = "object";
-        // Children will be populated in the second pass
-      } else {
-        const actualType = Array.isArray(def.type) ? def.type.find((t: string) => t !== "null") : def.type;
-        defType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", def.format);
-        if (def.enum) {
-          defType = "dropdown";
-          defOptions = def.enum;
-        }
-        if (def.currency) {
-          defType = "currency";
-          defCurrency = def.currency;
-        }
-        if (def.pattern) {
-          defPattern = def.pattern;
-        }
-        if (def.minLength !== undefined) {
-          defMinLength = def.minLength;
-        }
-        if (def.maxLength !== undefined) {
-          defMaxLength = def.maxLength;
-        }
-        defMinValue = def.minimum;
-        defMaxValue = def.maximum;
-      }
-
-      const newReusableType: SchemaField = {
+      const placeholder: SchemaField = {
         id: uuidv4(),
         name: defName,
-        type: defType,
-        isMultiple: defIsMultiple,
-        isRequired: false, // Reusable types themselves are not 'required'
-        title: def.title || defName,
-        description: def.description,
-        example: def.example !== undefined ? String(def.example) : undefined,
-        children: defChildren, // Will be populated for objects in second pass
-        options: defOptions,
-        currency: defCurrency,
-        minValue: defMinValue,
-        maxValue: defMaxValue,
-        minItems: defMinItems,
-        maxItems: defMaxItems,
-        pattern: defPattern,
-        minLength: defMinLength, // Assign defMinLength
-        maxLength: defMaxLength, // Assign defMaxLength
-        isValidName: true,
+        type: "string",
+        isMultiple: false,
+        isRequired: false,
       };
-      definitionsMap.set(defName, newReusableType);
-      reusableTypes.push(newReusableType);
+      definitionsMap.set(defName, placeholder);
+      reusableTypes.push(placeholder);
     }
   }
 
-  // Second pass: Populate children for reusable types that are objects
+  // Second pass: Convert each definition in place, now that every reference can be resolved
   reusableTypes.forEach(rt => {
-    if (rt.type === "object") {
-      const originalDef = (jsonSchema.definitions || jsonSchema.$defs)?.[rt.name];
-      if (originalDef && originalDef.properties) {
-        rt.children = convertPropertiesToSchemaFields(originalDef.properties, new Set(originalDef.required || []), definitionsMap, rt.id);
-      }
-    } else if (rt.isMultiple && rt.type === "ref") {
-      // If it's an array of references, the item schema needs to be processed
-      const originalDef = (jsonSchema.definitions || jsonSchema.$defs)?.[rt.name];
-      if (originalDef && originalDef.items && originalDef.items.$ref) {
-        const refName = originalDef.items.$ref.split('/').pop();
-        const referencedField = definitionsMap.get(refName);
-        if (referencedField) {
-          rt.refId = referencedField.id;
-        }
-      }
+    let def = defs[rt.name];
+    let extendsIds: string[] | undefined;
+    if (Array.isArray(def.allOf) && !isConditionalRuleList(def.allOf)) {
+      // `allOf: [{ $ref: Base }, { ...own properties }]` is a type extending other types
+      const { baseNames, ownSchema } = splitAllOfSchema(def);
+      extendsIds = baseNames.map(baseName => definitionsMap.get(baseName)?.id).filter(Boolean);
+      def = ownSchema;
     }
+    const converted = convertSchemaToSchemaField(rt.name, def, false, definitionsMap, undefined, rt.id);
+    Object.assign(rt, converted, {
+      isRequired: false, // Reusable types themselves are not 'required'
+      title: def.title || rt.name,
+      extendsIds: extendsIds && extendsIds.length > 0 ? extendsIds : undefined,
+    });
   });
 
   const mainFields = convertPropertiesToSchemaFields(
@@ -305,7 +704,18 @@ export const convertFullJsonSchemaToSchemaFieldsAndReusableTypes = (jsonSchema:
     definitionsMap,
   );
 
-  return { mainFields, reusableTypes };
+  // Schemas declaring another draft, or none, are exported as draft-07
+  const draft = getSchemaDraft(jsonSchema.$schema);
+  const settings: SchemaSettings = {
+    rules: convertRuleClauses(getRuleClauses(jsonSchema)),
+    dependencies: convertPropertyDependencies(jsonSchema),
+    ...convertObjectPropertyOptions(jsonSchema, definitionsMap),
+    outputProfile: listsEveryPropertyAsRequired(jsonSchema) ? undefined : "standard",
+    draft: draft === "draft-07" ? undefined : draft,
+    extensions: convertExtensionKeywords(jsonSchema),
+  };
+
+  return { mainFields, reusableTypes, settings };
 };
 
 /**
@@ -317,127 +727,11 @@ export const convertFullJsonSchemaToSchemaFieldsAndReusableTypes = (jsonSchema:
  * @param reusableTypes Existing reusable types to resolve references against.
  * @returns A single SchemaField object.
  */
-export const convertSingleJsonSchemaToSchemaField = (jsonSchema: any, reusableTypes: SchemaField[]): SchemaField => {
+export const convertSingleJsonSchemaToSchemaField = (jsonSchema: JsonSchema, reusableTypes: SchemaField[]): SchemaField => {
   const definitionsMap = new Map<string, SchemaField>();
   // Populate definitionsMap with existing reusable types for reference resolution
   reusableTypes.forEach(rt => definitionsMap.set(rt.name, rt));
 
-  let fieldType: SchemaFieldType = "string";
-  let isMultiple = false;
-  let children: SchemaField[] | undefined = undefined;
-  let refId: string | undefined = undefined;
-  let options: string[] | undefined = undefined;
-  let isRequired = true; // Default to required for a single field, adjust if 'null' type is present
-  let currency: string | undefined = undefined;
-  let pattern: string | undefined = undefined;
-  let minLength: number | undefined = undefined; // New: minLength
-  let maxLength: number | undefined = undefined; // New: maxLength
-
-  // Check for 'null' type to determine if it's required
-  if (Array.isArray(jsonSchema.type) && jsonSchema.type.includes("null")) {
-    isRequired = false;
-  }
-
-  // Handle array type
-  if (jsonSchema.type === "array") {
-    isMultiple = true;
-    const itemSchema = jsonSchema.items;
-    if (itemSchema) {
-      if (itemSchema.$ref) {
-        const refName = itemSchema.$ref.split('/').pop();
-        const referencedField = reusableTypes.find(rt => rt.name === refName); // Find by name for existing types
-        if (referencedField) {
-          fieldType = "ref";
-          refId = referencedField.id;
-        } else {
-          console.warn(`Reference ${itemSchema.$ref} not found for array items during single field conversion. Falling back to string.`);
-          fieldType = "string";
-        }
-      } else if (itemSchema.type === "object") {
-        fieldType = "object";
-        // Recursively convert properties of the nested object
-        children = convertPropertiesToSchemaFields(itemSchema.properties, new Set(itemSchema.required || []), definitionsMap);
-      } else {
-        const actualType = Array.isArray(itemSchema.type) ? itemSchema.type.find((t: string) => t !== "null") : itemSchema.type;
-        fieldType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", itemSchema.format);
-        if (itemSchema.enum) {
-          fieldType = "dropdown";
-          options = itemSchema.enum;
-        }
-        if (itemSchema.currency) {
-          fieldType = "currency";
-          currency = itemSchema.currency;
-        }
-        if (itemSchema.pattern) {
-          pattern = itemSchema.pattern;
-        }
-        if (itemSchema.minLength !== undefined) {
-          minLength = itemSchema.minLength;
-        }
-        if (itemSchema.maxLength !== undefined) {
-          maxLength = itemSchema.maxLength;
-        }
-      }
-    } else {
-      fieldType = "string"; // Default for untyped array items
-    }
-  } else if (jsonSchema.$ref) {
-    const refName = jsonSchema.$ref.split('/').pop();
-    const referencedField = reusableTypes.find(rt => rt.name === refName);
-    if (referencedField) {
-      fieldType = "ref";
-      refId = referencedField.id;
-    } else {
-      console.warn(`Reference ${jsonSchema.$ref} not found during single field conversion. Falling back to string.`);
-      fieldType = "string";
-    }
-  } else if (jsonSchema.type === "object") {
-    fieldType = "object";
-    children = convertPropertiesToSchemaFields(jsonSchema.properties, new Set(jsonSchema.required || []), definitionsMap);
-  } else {
-    const actualType = Array.isArray(jsonSchema.type) ? jsonSchema.type.find((t: string) => t !== "null") : jsonSchema.type;
-    fieldType = mapJsonSchemaTypeToSchemaFieldType(actualType || "string", jsonSchema.format);
-    if (jsonSchema.enum) {
-      fieldType = "dropdown";
-      options = jsonSchema.enum;
-    }
-    if (jsonSchema.currency) {
-      fieldType = "currency";
-      currency = jsonSchema.currency;
-    }
-    if (jsonSchema.pattern) {
-      pattern = jsonSchema.pattern;
-    }
-    if (jsonSchema.minLength !== undefined) {
-      minLength = jsonSchema.minLength;
-    }
-    if (jsonSchema.maxLength !== undefined) {
-      maxLength = jsonSchema.maxLength;
-    }
-  }
-
-  const convertedField: SchemaField = {
-    id: uuidv4(), // Generate a new ID for the converted field
-    name: jsonSchema.title || "refinedField", // Use title as name, or a default
-    type: fieldType,
-    isMultiple: isMultiple,
-    isRequired: isRequired,
-    title: jsonSchema.title,
-    description: jsonSchema.description,
-    example: jsonSchema.example !== undefined ? String(jsonSchema.example) : undefined, // Corrected to jsonSchema.example
-    children: children,
-    refId: refId,
-    minValue: jsonSchema.minimum,
-    maxValue: jsonSchema.maximum,
-    minItems: jsonSchema.minItems,
-    maxItems: jsonSchema.maxItems,
-    currency: currency, // Assign the detected currency
-    options: options,
-    pattern: pattern, // Assign the detected pattern
-    minLength: minLength, // Assign minLength
-    maxLength: maxLength, // Assign maxLength
-    isValidName: true, // Assume valid name from AI
-  };
-
-  return convertedField;
-};
\ No newline at end of file
+  // A single field has no parent object to list it as optional, so it is required; a 'null' type makes it nullable
+  return convertSchemaToSchemaField(jsonSchema.title || "refinedField", jsonSchema, true, definitionsMap);
+};
@@ -0,0 +1,30 @@
+import { SchemaDraft } from "@/components/FieldEditor";
+import { JsonSchema } from "@/utils/subschemas";
+
+const SCHEMA_DRAFT_URIS: Record<SchemaDraft, string> = {
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "2019-09": "https://json-schema.org/draft/2019-09/schema",
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+// The `$schema` URI declaring a draft
+export const getSchemaDraftUri = (draft: SchemaDraft): string => SCHEMA_DRAFT_URIS[draft];
+
+// Reads the draft a schema declares in `$schema`, ignoring the scheme and trailing "#"; undefined for other drafts
+export const getSchemaDraft = (schemaUri: unknown): SchemaDraft | undefined => {
+  if (typeof schemaUri !== "string") return undefined;
+  const normalize = (uri: string) => uri.replace(/^https?:\/\//, "").replace(/#$/, "");
+  return (Object.keys(SCHEMA_DRAFT_URIS) as SchemaDraft[]).find(
+    (draft) => normalize(SCHEMA_DRAFT_URIS[draft]) === normalize(schemaUri)
+  );
+};
+
+// Keyword holding the reusable definitions: draft 2019-09 renamed draft-07's `definitions` to `$defs`
+export const getDefinitionsKeyword = (draft: SchemaDraft): "definitions" | "$defs" =>
+  draft === "draft-07" ? "definitions" : "$defs";
+
+// The `$ref` pointing at a reusable definition
+export const getDefinitionRef = (name: string, draft: SchemaDraft): string => `#/${getDefinitionsKeyword(draft)}/${name}`;
+
+// Returns the reusable definitions of a schema, whichever draft it follows
+export const getSchemaDefinitions = (schema: JsonSchema): { [name: string]: JsonSchema } => schema.definitions || schema.$defs || {};
@@ -0,0 +1,27 @@
+import { JsonSchema, isSchemaObject } from "@/utils/subschemas";
+
+// Collects the `examples` of every property as "path: value, value" lines; items of arrays are reached through `[]`
+const collectExampleLines = (schema: JsonSchema | undefined, path: string, lines: string[]) => {
+  if (!isSchemaObject(schema)) return;
+  if (path && Array.isArray(schema.examples) && schema.examples.length > 0) {
+    lines.push(`- ${path}: ${schema.examples.map((example) => JSON.stringify(example)).join(", ")}`);
+  }
+  if (isSchemaObject(schema.items)) {
+    collectExampleLines(schema.items, `${path}[]`, lines);
+  }
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    collectExampleLines(property, path ? `${path}.${name}` : name, lines);
+  });
+};
+
+/**
+ * Appends the example values listed in a JSON Schema to an LLM prompt, so the model sees what
+ * realistic values look like. Examples inside reused definitions are not followed.
+ * Returns the prompt unchanged when the schema has no examples.
+ */
+export const appendSchemaExamples = (prompt: string, schema: JsonSchema): string => {
+  const lines: string[] = [];
+  collectExampleLines(schema, "", lines);
+  if (lines.length === 0) return prompt;
+  return `${prompt}\n\nExample values for some fields:\n${lines.join("\n")}`;
+};
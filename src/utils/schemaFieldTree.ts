@@ -0,0 +1,166 @@
+import { arrayMove } from "@dnd-kit/sortable";
+import { SchemaField } from "@/components/FieldEditor";
+
+/**
+ * Returns the lists of fields nested directly under a field:
+ * object properties (`children`), union variants (`variants`), tuple positions (`tupleItems`),
+ * the value type of a map (`mapValue`) and the type of an object's undeclared properties (`additionalPropertiesType`).
+ */
+export const getNestedFieldLists = (field: SchemaField): SchemaField[][] => {
+  const lists: SchemaField[][] = [];
+  if (field.type === "object" && field.children) {
+    lists.push(field.children);
+  }
+  if (field.type === "union" && field.variants) {
+    lists.push(field.variants);
+  }
+  if (field.type === "tuple" && field.tupleItems) {
+    lists.push(field.tupleItems);
+  }
+  if (field.type === "map" && field.mapValue) {
+    lists.push([field.mapValue]);
+  }
+  if (field.type === "object" && field.additionalPropertiesType) {
+    lists.push([field.additionalPropertiesType]);
+  }
+  return lists;
+};
+
+/**
+ * Returns a copy of the field with `fn` applied to each of its nested field lists.
+ * Fields without nested lists are returned unchanged.
+ */
+export const mapNestedFieldLists = (
+  field: SchemaField,
+  fn: (fields: SchemaField[]) => SchemaField[],
+): SchemaField => {
+  let result = field;
+  if (field.type === "object" && field.children) {
+    result = { ...result, children: fn(field.children) };
+  }
+  if (field.type === "union" && field.variants) {
+    result = { ...result, variants: fn(field.variants) };
+  }
+  if (field.type === "tuple" && field.tupleItems) {
+    result = { ...result, tupleItems: fn(field.tupleItems) };
+  }
+  if (field.type === "map" && field.mapValue) {
+    result = { ...result, mapValue: fn([field.mapValue])[0] };
+  }
+  if (field.type === "object" && field.additionalPropertiesType) {
+    result = { ...result, additionalPropertiesType: fn([field.additionalPropertiesType])[0] };
+  }
+  return result;
+};
+
+// Recursively finds a field by ID anywhere in the tree
+export const findFieldById = (fields: SchemaField[], id: string): SchemaField | null => {
+  for (const field of fields) {
+    if (field.id === id) {
+      return field;
+    }
+    for (const nested of getNestedFieldLists(field)) {
+      const found = findFieldById(nested, id);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
+// Replaces the field with the same ID as `updatedField` anywhere in the tree
+export const updateFieldInTree = (fields: SchemaField[], updatedField: SchemaField): SchemaField[] => {
+  return fields.map((field) =>
+    field.id === updatedField.id
+      ? updatedField
+      : mapNestedFieldLists(field, (nested) => updateFieldInTree(nested, updatedField)),
+  );
+};
+
+/**
+ * Appends a new field under the given parent.
+ * Unions receive it as a new variant, tuples as a new last position, objects as a new property.
+ */
+export const addFieldToTree = (fields: SchemaField[], parentId: string, newField: SchemaField): SchemaField[] => {
+  return fields.map((field) => {
+    if (field.id === parentId) {
+      if (field.type === "union") {
+        return { ...field, variants: [...(field.variants || []), newField] };
+      }
+      if (field.type === "tuple") {
+        return { ...field, tupleItems: [...(field.tupleItems || []), newField] };
+      }
+      return { ...field, children: [...(field.children || []), newField] };
+    }
+    return mapNestedFieldLists(field, (nested) => addFieldToTree(nested, parentId, newField));
+  });
+};
+
+// Removes a field (and everything nested under it) from the tree
+export const removeFieldFromTree = (fields: SchemaField[], fieldId: string): SchemaField[] => {
+  return fields
+    .filter((field) => field.id !== fieldId)
+    .map((field) => mapNestedFieldLists(field, (nested) => removeFieldFromTree(nested, fieldId)));
+};
+
+// Moves a field one position up or down within whichever list contains it
+export const moveFieldInTree = (fields: SchemaField[], fieldId: string, direction: "up" | "down"): SchemaField[] => {
+  const index = fields.findIndex((f) => f.id === fieldId);
+  if (index === -1) {
+    return fields.map((field) => mapNestedFieldLists(field, (nested) => moveFieldInTree(nested, fieldId, direction)));
+  }
+
+  const newIndex = direction === "up" ? Math.max(0, index - 1) : Math.min(fields.length - 1, index + 1);
+  if (newIndex === index) return fields;
+
+  return arrayMove(fields, index, newIndex);
+};
+
+// Moves `activeId` to the position of `overId`, as long as both share the same list
+export const reorderFieldInTree = (fields: SchemaField[], activeId: string, overId: string): SchemaField[] => {
+  const oldIndex = fields.findIndex((f) => f.id === activeId);
+  const newIndex = fields.findIndex((f) => f.id === overId);
+  if (oldIndex !== -1 && newIndex !== -1) {
+    return arrayMove(fields, oldIndex, newIndex);
+  }
+  return fields.map((field) => mapNestedFieldLists(field, (nested) => reorderFieldInTree(nested, activeId, overId)));
+};
+
+/**
+ * Returns the reusable types a reusable type inherits from, directly or through its bases,
+ * nearest first. Unknown IDs and inheritance cycles are ignored.
+ */
+export const getBaseTypes = (reusableType: SchemaField, reusableTypes: SchemaField[]): SchemaField[] => {
+  const bases: SchemaField[] = [];
+  const visit = (type: SchemaField) => {
+    (type.extendsIds || []).forEach((baseId) => {
+      const base = reusableTypes.find((rt) => rt.id === baseId);
+      if (base && base.id !== reusableType.id && !bases.includes(base)) {
+        bases.push(base);
+        visit(base);
+      }
+    });
+  };
+  visit(reusableType);
+  return bases;
+};
+
+// Returns the fields a reusable type inherits, furthest ancestor first, each with the base type declaring it
+export const getInheritedFields = (
+  reusableType: SchemaField,
+  reusableTypes: SchemaField[],
+): { field: SchemaField; baseType: SchemaField }[] => {
+  return [...getBaseTypes(reusableType, reusableTypes)].reverse().flatMap((baseType) =>
+    (baseType.type === "object" ? baseType.children || [] : []).map((field) => ({ field, baseType })),
+  );
+};
+
+// Fields saved before `examples` replaced the single `example` keep that value as their only example
+export const migrateLegacyExamples = (fields: SchemaField[]): SchemaField[] => {
+  return fields.map((field) => {
+    const { example, ...rest } = field as SchemaField & { example?: string };
+    const migrated = example && !rest.examples ? { ...rest, examples: [example] } : rest;
+    return mapNestedFieldLists(migrated, migrateLegacyExamples);
+  });
+};
@@ -1,8 +1,18 @@
+import { REGEX_HOSTNAME } from "@/lib/regexes";
+import { appendSchemaExamples } from "@/utils/schemaExamples";
+import { getRecursiveDefinitionNames } from "@/utils/definitionCycles";
+import { isExtensionKeyword } from "@/utils/extensionKeywords";
+import { parseRelativeBound, patternRequiresTimezone, RelativeDateBound } from "@/utils/dateBounds";
+import { formatFileSize, getSchemaMaxFileSize } from "@/utils/fileContent";
+import { getSchemaDefinitions } from "@/utils/schemaDrafts";
+import { toGeminiResponseSchema } from "@/utils/geminiSchema";
+import { JsonSchema, isSchemaObject } from "@/utils/subschemas";
+
 // Helper to convert string to PascalCase for class/variable names
 function toPascalCase(str: string): string {
   if (!str) return "";
   return str
-    .replace(/([_.-])(\w)/g, (_, __, c) => c.toUpperCase())
+    .replace(/([_.\s-]+)(\w)/g, (_, __, c) => c.toUpperCase())
     .replace(/(\w)(\w*)/g, (_, c1, c2) => c1.toUpperCase() + c2.toLowerCase());
 }
 
@@ -21,11 +31,56 @@ function toSnakeCase(str: string): string {
     .replace(/^-/, "");
 }
 
+// Helper to write a JSON value as a Python literal, for field defaults
+function toPythonLiteral(value: unknown): string {
+  if (value === null) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(", ")}]`;
+  if (typeof value === "object") {
+    return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${toPythonLiteral(item)}`).join(", ")}}`;
+  }
+  return JSON.stringify(value); // Strings and numbers are written the same way in Python
+}
+
+// Writes a JSON value as a Python literal spread over indented lines, for larger values such as schemas
+function toIndentedPythonLiteral(value: unknown, indent = ""): string {
+  const innerIndent = `${indent}    `;
+  if (Array.isArray(value) && value.length > 0) {
+    return `[\n${value.map((item) => `${innerIndent}${toIndentedPythonLiteral(item, innerIndent)},\n`).join("")}${indent}]`;
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length > 0) {
+    return `{\n${Object.entries(value).map(([key, item]) => `${innerIndent}${JSON.stringify(key)}: ${toIndentedPythonLiteral(item, innerIndent)},\n`).join("")}${indent}}`;
+  }
+  return toPythonLiteral(value);
+}
+
+// Notes listing what Gemini's response schema leaves out, written above it in generated code
+function getGeminiSchemaNotes(warnings: string[]): string[] {
+  return warnings.length > 0 ? ["Gemini's response schema cannot express all of the schema:", ...warnings.map((warning) => `- ${warning}`)] : [];
+}
+
 // This map will collect all Pydantic models to be generated, keyed by their PascalCase name.
 // It will store the JSON Schema definition for each model.
-const collectedPydanticModels: Map<string, any> = new Map();
+const collectedPydanticModels: Map<string, JsonSchema> = new Map();
+
+// Models of recursive types, mentioned through forward references ("Category") so they can be used before being defined
+const recursivePydanticModels: Set<string> = new Set();
+
+// Quotes the recursive model names of a type annotation
+function quoteForwardRefs(pydanticType: string): string {
+  return [...recursivePydanticModels].reduce(
+    (annotation, modelName) => annotation.replace(new RegExp(`(?<!["\\w])${modelName}(?!["\\w])`, "g"), `"${modelName}"`),
+    pydanticType
+  );
+}
 
-function mapJsonSchemaTypeToPydanticType(jsonType: string | string[], format?: string, enumValues?: string[]): string {
+function mapJsonSchemaTypeToPydanticType(
+  jsonType: string | string[],
+  format?: string,
+  enumValues?: unknown[],
+  pattern?: string,
+  contentEncoding?: string,
+): string {
   const actualType = Array.isArray(jsonType) ? jsonType.find((t) => t !== "null") : jsonType;
 
   if (enumValues && enumValues.length > 0) {
@@ -34,9 +89,16 @@ function mapJsonSchemaTypeToPydanticType(jsonType: string | string[], format?: s
 
   switch (actualType) {
     case "string":
+      if (contentEncoding === "base64") return "Base64Bytes"; // Decoded to bytes when validating
       if (format === "date") return "date";
-      if (format === "date-time") return "datetime";
+      if (format === "date-time") return patternRequiresTimezone(pattern) ? "AwareDatetime" : "datetime";
       if (format === "time") return "time"; // Added time
+      if (format === "email") return "EmailStr"; // Needs the email-validator package
+      if (format === "uri") return "AnyUrl";
+      if (format === "uuid") return "UUID";
+      if (format === "ipv4") return "IPv4Address";
+      if (format === "ipv6") return "IPv6Address";
+      if (format === "hostname") return `Annotated[str, StringConstraints(pattern=${JSON.stringify(REGEX_HOSTNAME.source)})]`;
       return "str";
     case "number":
       return "float"; // Pydantic numbers are floats by default, can be int if no decimal
@@ -49,100 +111,666 @@ function mapJsonSchemaTypeToPydanticType(jsonType: string | string[], format?: s
   }
 }
 
-// Recursive helper to build Pydantic model content and collect nested models
+// Returns the non-null variants of a union schema (anyOf/oneOf), or undefined if it is not a union
+function getUnionVariants(schema: JsonSchema): JsonSchema[] | undefined {
+  const variants = schema.oneOf || schema.anyOf;
+  if (!Array.isArray(variants)) return undefined;
+  return variants.filter((variant) => variant.type !== "null");
+}
+
+// Returns true if a union schema accepts null as one of its alternatives
+function unionAllowsNull(schema: JsonSchema): boolean {
+  const variants = schema.oneOf || schema.anyOf;
+  return Array.isArray(variants) && variants.some((variant) => variant.type === "null");
+}
+
+// Returns true if a schema's `type` list includes "null", as for nullable fields
+function typeAllowsNull(schema: JsonSchema): boolean {
+  return Array.isArray(schema?.type) && schema.type.includes("null");
+}
+
+// Returns a nullable schema with "null" taken out of its `type` list
+function withoutNullType(schema: JsonSchema): JsonSchema {
+  const types = (schema.type as string[]).filter((t) => t !== "null");
+  return { ...schema, type: types.length === 1 ? types[0] : types };
+}
+
+// Returns true if a JSON Schema `type` (possibly an array including "null") describes an object
+function isObjectType(jsonType: string | string[] | undefined): boolean {
+  return Array.isArray(jsonType) ? jsonType.includes("object") : jsonType === "object";
+}
+
+// Returns the positional item schemas of a tuple array (draft-07 `items: [...]` or 2020-12 `prefixItems`)
+// and whether it accepts extra items, or undefined for regular arrays
+function getTupleSchema(schema: JsonSchema): { itemSchemas: JsonSchema[]; additionalItems: boolean } | undefined {
+  const actualType = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  if (actualType !== "array") return undefined;
+  if (Array.isArray(schema.prefixItems)) {
+    return { itemSchemas: schema.prefixItems, additionalItems: schema.items !== false };
+  }
+  if (Array.isArray(schema.items)) {
+    return { itemSchemas: schema.items, additionalItems: schema.additionalItems !== false };
+  }
+  return undefined;
+}
+
+// Returns the value schema and key pattern of an object used as a map (no fixed properties, values
+// described by `additionalProperties` or a single `patternProperties` entry), or undefined otherwise
+function getMapSchema(schema: JsonSchema): { valueSchema: JsonSchema; keyPattern?: string } | undefined {
+  if (!isObjectType(schema.type) || (schema.properties && Object.keys(schema.properties).length > 0)) return undefined;
+  const patternEntries = Object.entries(schema.patternProperties || {});
+  if (patternEntries.length === 1) {
+    return { valueSchema: patternEntries[0][1], keyPattern: patternEntries[0][0] };
+  }
+  if (patternEntries.length === 0 && schema.additionalProperties && typeof schema.additionalProperties === "object") {
+    return { valueSchema: schema.additionalProperties, keyPattern: schema.propertyNames?.pattern };
+  }
+  return undefined;
+}
+
+// Returns the parts of an `allOf` composing types, or undefined if there is none.
+// An `allOf` listing only if/then/else clauses holds conditional rules, not types.
+function getComposedParts(schema: JsonSchema): JsonSchema[] | undefined {
+  if (!Array.isArray(schema.allOf) || schema.allOf.every((part) => part && part.if)) return undefined;
+  return schema.allOf;
+}
+
+// Collects the properties of a composed schema and of the types it extends into one object schema,
+// inherited properties first. Schemas that compose nothing are returned as they are.
+function flattenComposedSchema(schema: JsonSchema, definitions: { [key: string]: JsonSchema }, visitedNames: string[] = []): JsonSchema {
+  const composedParts = getComposedParts(schema);
+  if (!composedParts) return schema;
+  return composedParts.reduce((flattened: JsonSchema, part) => {
+    const refName = part.$ref?.split("/").pop();
+    if (refName && (!definitions[refName] || visitedNames.includes(refName))) return flattened;
+    const partSchema = refName ? flattenComposedSchema(definitions[refName], definitions, [...visitedNames, refName]) : part;
+    return {
+      ...flattened,
+      properties: { ...flattened.properties, ...partSchema.properties },
+      required: Array.from(new Set([...flattened.required, ...(partSchema.required || [])])),
+    };
+  }, { type: "object", properties: {}, required: [] });
+}
+
+// Returns the allowed values of a schema: a `const` counts as a single-value enum
+function getEnumValues(schema: JsonSchema): unknown[] | undefined {
+  return schema.const !== undefined ? [schema.const] : schema.enum;
+}
+
+// Returns the Python enum base classes for an `enum` of strings or numbers, or undefined for mixed values
+function getPythonEnumBase(schema: JsonSchema): string | undefined {
+  const values = (Array.isArray(schema.enum) ? schema.enum : []).filter((value) => value !== null);
+  if (values.length === 0) return undefined;
+  if (values.every((value) => typeof value === "string")) return "str, Enum";
+  if (values.every((value) => Number.isInteger(value))) return "IntEnum";
+  if (values.every((value) => typeof value === "number")) return "float, Enum";
+  return undefined;
+}
+
+// Writes the labels listed in x-enumNames next to their values, for generated comments
+function describeEnumLabels(schema: JsonSchema): string | undefined {
+  const names = schema["x-enumNames"];
+  if (!Array.isArray(names) || !Array.isArray(schema.enum)) return undefined;
+  return `Options: ${schema.enum.map((value, index) => `${JSON.stringify(value)} = ${names[index] ?? value}`).join(", ")}`;
+}
+
+// Builds a Python Enum (or IntEnum) class for an `enum`, naming members after their labels or values
+function _buildPydanticEnum(enumName: string, schema: JsonSchema): string {
+  const names: unknown[] = Array.isArray(schema["x-enumNames"]) ? schema["x-enumNames"] : [];
+  const descriptions: unknown[] = Array.isArray(schema["x-enumDescriptions"]) ? schema["x-enumDescriptions"] : [];
+  const usedMemberNames = new Set<string>();
+  let enumCode = `class ${enumName}(${getPythonEnumBase(schema)}):\n`;
+  if (schema.description) {
+    enumCode += `    """\n    ${schema.description}\n    """\n`;
+  }
+  schema.enum.forEach((value, index) => {
+    if (value === null) return;
+    let memberName = String(names[index] ?? value).replace(/[^a-zA-Z0-9]+/g, "_").replace(/^_+|_+$/g, "").toUpperCase();
+    if (!/^[A-Z]/.test(memberName)) memberName = `VALUE_${memberName}`;
+    const baseMemberName = memberName;
+    for (let suffix = 2; usedMemberNames.has(memberName); suffix++) memberName = `${baseMemberName}_${suffix}`;
+    usedMemberNames.add(memberName);
+    enumCode += `    ${memberName} = ${JSON.stringify(value)}${descriptions[index] ? `  # ${descriptions[index]}` : ""}\n`;
+  });
+  return enumCode;
+}
+
+// Notes on a property's access and deprecation annotations, for generated comments
+function getAccessNotes(schema: JsonSchema): string[] {
+  const notes: string[] = [];
+  if (schema.deprecated) notes.push("Deprecated");
+  if (schema.readOnly) notes.push("Read-only");
+  if (schema.writeOnly) notes.push("Write-only");
+  return notes;
+}
+
+// Returns the vendor extension keywords (x-*) of a schema
+function getExtensionKeywords(schema: JsonSchema): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(schema || {}).filter(([keyword]) => isExtensionKeyword(keyword)));
+}
+
+// Notes on a schema's vendor extensions, for generated comments
+function getExtensionNotes(schema: JsonSchema): string[] {
+  return Object.entries(getExtensionKeywords(schema)).map(([keyword, value]) => `${keyword}: ${JSON.stringify(value)}`);
+}
+
+// Notes on an object's property counts, for generated comments
+function getPropertyCountNotes(schema: JsonSchema): string[] {
+  const notes: string[] = [];
+  if (schema.minProperties !== undefined) notes.push(`Min properties: ${schema.minProperties}`);
+  if (schema.maxProperties !== undefined) notes.push(`Max properties: ${schema.maxProperties}`);
+  return notes;
+}
+
+// Returns the schema of an object's undeclared properties when they are typed, or undefined when they are rejected or free
+function getAdditionalPropertiesSchema(schema: JsonSchema): JsonSchema | undefined {
+  const additionalProperties = schema.additionalProperties;
+  return additionalProperties && typeof additionalProperties === "object" && Object.keys(additionalProperties).length > 0
+    ? additionalProperties
+    : undefined;
+}
+
+const DATE_FORMATS = ["date", "date-time", "time"];
+
+// Whether a schema describes a file, written as base64 text
+function isBase64Schema(schema: JsonSchema): boolean {
+  return schema.contentEncoding === "base64";
+}
+
+// Notes on a file's accepted media types and size, for generated comments
+function getFileNotes(schema: JsonSchema): string[] {
+  if (!isBase64Schema(schema)) return [];
+  const notes: string[] = [];
+  const mediaTypes = (schema["x-contentMediaTypes"] as string[] | undefined) || (schema.contentMediaType ? [schema.contentMediaType] : []);
+  if (mediaTypes.length > 0) notes.push(`Media types: ${mediaTypes.join(", ")}`);
+  const maxSize = getSchemaMaxFileSize(schema);
+  if (maxSize !== undefined) notes.push(`Max size: ${formatFileSize(maxSize)}`);
+  return notes;
+}
+
+interface DateBoundCheck {
+  keyword: "formatMinimum" | "formatMaximum";
+  bound: string; // Absolute value, or the relative expression it was resolved from (e.g., "today-7d")
+  relative?: RelativeDateBound;
+}
+
+// Reads the earliest and latest values of a date, datetime or time schema, relative ones being checked against the
+// current time when validating rather than against the value they resolved to when the schema was built
+function getDateBoundChecks(schema: JsonSchema): DateBoundCheck[] {
+  if (!DATE_FORMATS.includes(schema.format)) return [];
+  const checks: DateBoundCheck[] = [];
+  (["formatMinimum", "formatMaximum"] as const).forEach((keyword) => {
+    const expression = schema[`x-${keyword}`];
+    const relative = typeof expression === "string" && schema.format !== "time" ? parseRelativeBound(expression) : undefined;
+    if (relative) {
+      checks.push({ keyword, bound: expression as string, relative });
+    } else if (typeof schema[keyword] === "string") {
+      checks.push({ keyword, bound: schema[keyword] });
+    }
+  });
+  return checks;
+}
+
+// Describes a date bound, for validation error messages
+function describeDateBound(check: DateBoundCheck): string {
+  return `Must not be ${check.keyword === "formatMinimum" ? "before" : "after"} ${check.bound}`;
+}
+
+interface ContainsCheck {
+  propertyName?: string; // Property of object items the condition tests, unset for the items themselves
+  operator: "equals" | "oneOf" | "present";
+  values: unknown[];
+  minContains: number;
+  maxContains?: number;
+}
+
+// Reads the `contains` condition of an array: const, enum or "not null", on the items or on one
+// property of object items. Returns undefined for arrays without one or with other conditions.
+function getContainsCheck(schema: JsonSchema): ContainsCheck | undefined {
+  const containsSchema = schema.contains;
+  if (!containsSchema || typeof containsSchema !== "object") return undefined;
+  const propertyNames = Object.keys(containsSchema.properties || {});
+  if (containsSchema.properties && propertyNames.length !== 1) return undefined;
+  const conditionSchema = containsSchema.properties ? containsSchema.properties[propertyNames[0]] : containsSchema;
+  const counts = { minContains: schema.minContains ?? 1, maxContains: schema.maxContains };
+  if (conditionSchema.const !== undefined) {
+    return { propertyName: propertyNames[0], operator: "equals", values: [conditionSchema.const], ...counts };
+  }
+  if (Array.isArray(conditionSchema.enum)) {
+    return { propertyName: propertyNames[0], operator: "oneOf", values: conditionSchema.enum, ...counts };
+  }
+  if (conditionSchema.not?.type === "null") {
+    return { propertyName: propertyNames[0], operator: "present", values: [], ...counts };
+  }
+  return undefined;
+}
+
+// Describes how many items must match a contains condition, for validation error messages
+function describeContainsCount(check: ContainsCheck): string {
+  if (check.maxContains === undefined) return `At least ${check.minContains} item(s) must match the contains condition`;
+  if (check.maxContains === check.minContains) return `Exactly ${check.minContains} item(s) must match the contains condition`;
+  return `Between ${check.minContains} and ${check.maxContains} items must match the contains condition`;
+}
+
+interface DependencyCheck {
+  trigger: string; // Property whose value activates the dependency
+  requiredNames: string[]; // Properties that must then have a value
+  conditions: { propertyName: string; operator: "equals" | "oneOf"; values: unknown[] }[];
+}
+
+// Reads the check of a dependent schema: its required properties and its const or enum conditions
+function getDependentSchemaCheck(trigger: string, dependentSchema: JsonSchema): DependencyCheck {
+  const requiredNames = new Set<string>(dependentSchema.required || []);
+  const conditions: DependencyCheck["conditions"] = [];
+  Object.entries<JsonSchema>(dependentSchema.properties || {}).forEach(([propertyName, conditionSchema]) => {
+    if (conditionSchema?.const !== undefined) {
+      conditions.push({ propertyName, operator: "equals", values: [conditionSchema.const] });
+    } else if (Array.isArray(conditionSchema?.enum)) {
+      conditions.push({ propertyName, operator: "oneOf", values: conditionSchema.enum });
+    } else if (conditionSchema?.not?.type === "null") {
+      requiredNames.add(propertyName);
+    }
+  });
+  conditions.forEach((condition) => requiredNames.delete(condition.propertyName));
+  return { trigger, requiredNames: Array.from(requiredNames), conditions };
+}
+
+// Reads the property dependencies of an object from `dependencies`, `dependentRequired` and `dependentSchemas`,
+// including those of the inline parts of a composed schema. Dependent schemas contribute their required
+// properties and their const or enum conditions; other conditions are not checked.
+// If/then clauses whose only condition is a property being not null, as the LLM strict profile writes
+// dependencies, are read as dependencies of that property.
+function getDependencyChecks(schema: JsonSchema): DependencyCheck[] {
+  const composedParts = getComposedParts(schema);
+  if (composedParts) return composedParts.filter((part) => !part.$ref).flatMap(getDependencyChecks);
+
+  const checks: DependencyCheck[] = [];
+  (["dependencies", "dependentRequired", "dependentSchemas"] as const).forEach((keyword) => {
+    Object.entries<unknown>(schema[keyword] || {}).forEach(([trigger, value]) => {
+      if (Array.isArray(value)) {
+        checks.push({ trigger, requiredNames: value, conditions: [] });
+      } else if (isSchemaObject(value)) {
+        checks.push(getDependentSchemaCheck(trigger, value));
+      }
+    });
+  });
+  const clauses = schema.if ? [schema] : Array.isArray(schema.allOf) ? schema.allOf : [];
+  clauses.forEach((clause) => {
+    const testedNames = Object.keys(clause.if?.properties || {});
+    if (testedNames.length !== 1 || clause.if.properties[testedNames[0]]?.not?.type !== "null" || clause.else || !clause.then) return;
+    checks.push(getDependentSchemaCheck(testedNames[0], clause.then));
+  });
+  return checks;
+}
+
+// Writes the Zod refinement checking an object's property dependencies, or "" for objects without any.
+// A dependency applies once its trigger property has a value; null counts as no value, as for optional properties.
+function getZodDependencyRefinement(schema: JsonSchema, indent = ""): string {
+  const checks = getDependencyChecks(schema);
+  if (checks.length === 0) return "";
+  const addIssue = (propertyName: string, message: string) =>
+    `ctx.addIssue({ code: z.ZodIssueCode.custom, path: [${JSON.stringify(toCamelCase(propertyName))}], message: ${JSON.stringify(message)} });`;
+  const lines: string[] = [];
+  checks.forEach((check) => {
+    const when = `when ${check.trigger} is set`;
+    lines.push(`  if (value.${toCamelCase(check.trigger)} != null) {`);
+    check.requiredNames.forEach((name) => {
+      lines.push(`    if (value.${toCamelCase(name)} == null) ${addIssue(name, `Required ${when}`)}`);
+    });
+    check.conditions.forEach((condition) => {
+      const subject = `value.${toCamelCase(condition.propertyName)}`;
+      const test = condition.operator === "equals"
+        ? `${subject} !== ${JSON.stringify(condition.values[0])}`
+        : `!${JSON.stringify(condition.values)}.includes(${subject})`;
+      const message = condition.operator === "equals"
+        ? `Must equal ${JSON.stringify(condition.values[0])} ${when}`
+        : `Must be one of ${condition.values.map((v) => JSON.stringify(v)).join(", ")} ${when}`;
+      lines.push(`    if (${test}) ${addIssue(condition.propertyName, message)}`);
+    });
+    lines.push("  }");
+  });
+  return `.superRefine((value, ctx) => {\n${lines.map((line) => indent + line).join("\n")}\n${indent}})`;
+}
+
+// Returns the label of a union variant: its title, or the name of the type it references
+function getVariantLabel(variant: JsonSchema, index: number): string {
+  const ref = variant.$ref || (variant.allOf || []).find((part) => part.$ref)?.$ref;
+  return variant.title || (ref ? ref.split("/").pop() : `Variant${index + 1}`);
+}
+
+// Collects the properties a schema pins to a constant value, following references and allOf parts
+function getConstProperties(schema: JsonSchema, resolveRef: (refName: string) => JsonSchema | undefined): Record<string, unknown> {
+  if (!schema) return {};
+  if (schema.$ref) return getConstProperties(resolveRef(schema.$ref.split("/").pop()), resolveRef);
+  const composedParts = getComposedParts(schema);
+  if (composedParts) {
+    return Object.assign({}, ...composedParts.map((part) => getConstProperties(part, resolveRef)));
+  }
+  const constProperties: Record<string, unknown> = {};
+  for (const [name, prop] of Object.entries<JsonSchema>(schema.properties || {})) {
+    if (prop.const !== undefined) constProperties[name] = prop.const;
+  }
+  return constProperties;
+}
+
+// Finds the property every variant of a union pins to a constant value (its discriminator), if any
+function getUnionDiscriminator(variants: JsonSchema[], resolveRef: (refName: string) => JsonSchema | undefined): string | undefined {
+  if (variants.length < 2) return undefined;
+  const variantConstProperties = variants.map((variant) => getConstProperties(variant, resolveRef));
+  return Object.keys(variantConstProperties[0]).find((name) =>
+    variantConstProperties.every((constProperties) => constProperties[name] !== undefined)
+  );
+}
+
+// Resolves the Python type annotation of a schema, collecting inline objects as nested models.
+// `modelName` is the name to use if the schema is an inline object.
+function _resolvePydanticType(schema: JsonSchema, modelName: string): string {
+  if (!schema) return "Any";
+
+  if (schema.$ref) {
+    return toPascalCase(schema.$ref.split("/").pop());
+  }
+
+  if (typeAllowsNull(schema) && !getUnionVariants(schema)) {
+    return `Optional[${_resolvePydanticType(withoutNullType(schema), modelName)}]`;
+  }
+
+  const unionVariants = getUnionVariants(schema);
+  if (unionVariants) {
+    const variantTypes = unionVariants.map((variant, index) =>
+      _resolvePydanticType(variant, `${modelName}${toPascalCase(getVariantLabel(variant, index))}`)
+    );
+    let unionType = variantTypes.length === 1 ? variantTypes[0] : `Union[${variantTypes.join(", ")}]`;
+    const discriminator = getUnionDiscriminator(unionVariants, (refName) => collectedPydanticModels.get(toPascalCase(refName)));
+    if (discriminator) {
+      unionType = `Annotated[${unionType}, Field(discriminator="${toSnakeCase(discriminator)}")]`;
+    }
+    return unionAllowsNull(schema) ? `Optional[${unionType}]` : unionType;
+  }
+
+  if (getComposedParts(schema)) {
+    // Composed schema: generate a model subclassing the referenced models
+    if (!collectedPydanticModels.has(modelName)) {
+      collectedPydanticModels.set(modelName, schema);
+    }
+    return modelName;
+  }
+
+  const tupleSchema = getTupleSchema(schema);
+  if (tupleSchema) {
+    // Pydantic tuples have a fixed length; extra items allowed by the schema are noted in a comment instead
+    const itemTypes = tupleSchema.itemSchemas.map((itemSchema, index) =>
+      _resolvePydanticType(itemSchema, `${modelName}Item${index + 1}`)
+    );
+    return `tuple[${itemTypes.length > 0 ? itemTypes.join(", ") : "()"}]`;
+  }
+
+  if (schema.type === "array") {
+    return `list[${_resolvePydanticType(schema.items as JsonSchema, `${modelName}Item`)}]`;
+  }
+
+  const mapSchema = getMapSchema(schema);
+  if (mapSchema) {
+    const keyType = mapSchema.keyPattern
+      ? `Annotated[str, StringConstraints(pattern=${JSON.stringify(mapSchema.keyPattern)})]`
+      : "str";
+    return `dict[${keyType}, ${_resolvePydanticType(mapSchema.valueSchema, `${modelName}Value`)}]`;
+  }
+
+  if (isObjectType(schema.type)) {
+    // Inline object: generate a new nested model
+    // Add this new model to the collection if not already present
+    if (!collectedPydanticModels.has(modelName)) {
+      collectedPydanticModels.set(modelName, schema);
+    }
+    return modelName;
+  }
+
+  if (getPythonEnumBase(schema) && schema.const === undefined) {
+    // Dropdown values become an Enum class, collected like inline objects
+    if (!collectedPydanticModels.has(modelName)) {
+      collectedPydanticModels.set(modelName, schema);
+    }
+    return modelName;
+  }
+
+  return mapJsonSchemaTypeToPydanticType(schema.type, schema.format, getEnumValues(schema), schema.pattern, schema.contentEncoding);
+}
+
+// Recursive helper to build Pydantic model content and collect nested models.
+// `excludedAccess` leaves out read-only (request models) or write-only (response models) properties.
 function _buildPydanticModelContent(
-  currentSchema: any,
+  currentSchema: JsonSchema,
   parentName: string, // Used for generating unique names for inline nested objects
   indent: string = "    ",
+  excludedAccess?: "readOnly" | "writeOnly",
 ): string {
   const properties = currentSchema.properties || {};
   const required = new Set(currentSchema.required || []);
   let modelContent = "";
+  const validators: string[] = [];
 
   for (const propName in properties) {
     const prop = properties[propName];
+    if (excludedAccess && prop[excludedAccess]) continue;
     const isRequired = required.has(propName);
     let pydanticType = "Any";
-    let defaultValue = "";
     let comment = "";
-    let fieldDefinition = "";
+    const fieldArgs: string[] = [];
 
     if (prop.description) {
       comment += `  # ${prop.description}`;
     }
-    if (prop.example !== undefined) {
-      comment += `${comment ? ", " : "  # "}Example: ${JSON.stringify(prop.example)}`;
-    }
+    getAccessNotes(prop).forEach((note) => (comment += `${comment ? ", " : "  # "}${note}`));
 
-    if (prop.$ref) {
-      const refName = prop.$ref.split("/").pop();
-      pydanticType = toPascalCase(refName);
+    const tupleSchema = getTupleSchema(prop);
+    if (tupleSchema) {
+      pydanticType = _resolvePydanticType(prop, toPascalCase(`${parentName}${toPascalCase(propName)}`));
+      if (tupleSchema.additionalItems) comment += `${comment ? ", " : "  # "}Additional items allowed`;
     } else if (prop.type === "array") {
-      const items = prop.items;
-      let itemType = "Any";
-      if (items) {
-        if (items.$ref) {
-          const refName = items.$ref.split("/").pop();
-          itemType = toPascalCase(refName);
-        } else if (items.type === "object") {
-          // Inline object within an array: generate a new nested model
-          const nestedModelName = toPascalCase(`${parentName}${toPascalCase(propName)}Item`);
-          // Add this new model to the collection if not already present
-          if (!collectedPydanticModels.has(nestedModelName)) {
-            collectedPydanticModels.set(nestedModelName, items);
-          }
-          itemType = nestedModelName;
-        } else {
-          itemType = mapJsonSchemaTypeToPydanticType(items.type, items.format, items.enum);
-        }
+      pydanticType = _resolvePydanticType(prop, toPascalCase(`${parentName}${toPascalCase(propName)}`));
+      // Item counts of nested lists are noted per level, the outermost list being level 1
+      let arraySchema = prop;
+      for (let depth = 1; arraySchema && arraySchema.type === "array" && !getTupleSchema(arraySchema); depth++) {
+        const [minLabel, maxLabel] = depth === 1 ? ["Min items", "Max items"] : [`Level ${depth} min items`, `Level ${depth} max items`];
+        if (arraySchema.minItems !== undefined) comment += `${comment ? ", " : "  # "}${minLabel}: ${arraySchema.minItems}`;
+        if (arraySchema.maxItems !== undefined) comment += `${comment ? ", " : "  # "}${maxLabel}: ${arraySchema.maxItems}`;
+        if (depth > 1 && arraySchema.uniqueItems) comment += `${comment ? ", " : "  # "}Level ${depth} unique items`;
+        arraySchema = arraySchema.items as JsonSchema;
       }
-      pydanticType = `list[${itemType}]`;
-      if (prop.minItems !== undefined) comment += `${comment ? ", " : "  # "}Min items: ${prop.minItems}`;
-      if (prop.maxItems !== undefined) comment += `${comment ? ", " : "  # "}Max items: ${prop.maxItems}`;
-    } else if (prop.type === "object") {
-      // Inline object: generate a new nested model
-      const nestedModelName = toPascalCase(`${parentName}${toPascalCase(propName)}`);
-      // Add this new model to the collection if not already present
-      if (!collectedPydanticModels.has(nestedModelName)) {
-        collectedPydanticModels.set(nestedModelName, prop);
-      }
-      pydanticType = nestedModelName;
+      // Uniqueness and contains conditions of the outermost list are enforced by validators
+      validators.push(..._buildPydanticArrayValidators(prop, propName, indent));
+    } else if (prop.$ref || getComposedParts(prop) || isObjectType(prop.type) || getUnionVariants(prop)) {
+      pydanticType = _resolvePydanticType(prop, toPascalCase(`${parentName}${toPascalCase(propName)}`));
+    } else if (getPythonEnumBase(prop) && prop.const === undefined) {
+      pydanticType = _resolvePydanticType(prop, toPascalCase(`${parentName}${toPascalCase(propName)}`));
     } else {
-      pydanticType = mapJsonSchemaTypeToPydanticType(prop.type, prop.format, prop.enum);
-      let fieldArgs: string[] = [];
+      pydanticType = mapJsonSchemaTypeToPydanticType(prop.type, prop.format, getEnumValues(prop), prop.pattern, prop.contentEncoding);
+      getFileNotes(prop).forEach((note) => (comment += `${comment ? ", " : "  # "}${note}`));
       if (prop.minimum !== undefined) fieldArgs.push(`ge=${prop.minimum}`);
       if (prop.maximum !== undefined) fieldArgs.push(`le=${prop.maximum}`);
-      if (prop.pattern) fieldArgs.push(`pattern=r"${prop.pattern.replace(/\\/g, "\\\\")}"`);
-      if (prop.minLength !== undefined) fieldArgs.push(`min_length=${prop.minLength}`); // New: min_length
-      if (prop.maxLength !== undefined) fieldArgs.push(`max_length=${prop.maxLength}`); // New: max_length
-
-      if (fieldArgs.length > 0) {
-        fieldDefinition = `, Field(${fieldArgs.join(", ")})`;
-      }
+      if (typeof prop.exclusiveMinimum === "number") fieldArgs.push(`gt=${prop.exclusiveMinimum}`);
+      if (typeof prop.exclusiveMaximum === "number") fieldArgs.push(`lt=${prop.exclusiveMaximum}`);
+      if (prop.multipleOf !== undefined) fieldArgs.push(`multiple_of=${prop.multipleOf}`);
+      // Dates, times and files are parsed into Python values, which patterns and text lengths cannot apply to
+      const isParsedString = DATE_FORMATS.includes(prop.format) || isBase64Schema(prop);
+      if (prop.pattern && !isParsedString) fieldArgs.push(`pattern=r"${prop.pattern.replace(/\\/g, "\\\\")}"`);
+      if (prop.minLength !== undefined && !isParsedString) fieldArgs.push(`min_length=${prop.minLength}`); // New: min_length
+      if (prop.maxLength !== undefined && !isParsedString) fieldArgs.push(`max_length=${prop.maxLength}`); // New: max_length
+      if (typeAllowsNull(prop)) pydanticType = `Optional[${pydanticType}]`;
+      validators.push(..._buildPydanticDateRangeValidators(prop, propName, indent));
+      validators.push(..._buildPydanticFileSizeValidators(prop, propName, indent));
     }
+    if (Array.isArray(prop.examples) && prop.examples.length > 0) fieldArgs.push(`examples=${toPythonLiteral(prop.examples)}`);
+    const extensions = getExtensionKeywords(prop);
+    if (Object.keys(extensions).length > 0) fieldArgs.push(`json_schema_extra=${toPythonLiteral(extensions)}`);
 
     const fieldName = toSnakeCase(propName);
 
+    // A nullable field is Optional; an optional field without a default value also defaults to None
+    let defaultValue = prop.default !== undefined ? toPythonLiteral(prop.default) : undefined;
     if (!isRequired) {
-      pydanticType = `Optional[${pydanticType}]`;
-      defaultValue = " = None";
+      if (!pydanticType.startsWith("Optional[")) pydanticType = `Optional[${pydanticType}]`;
+      defaultValue = defaultValue ?? "None";
     }
 
-    modelContent += `${indent}${fieldName}: ${pydanticType}${defaultValue}${fieldDefinition}${comment}\n`;
+    // The default is assigned directly, or passed first to Field() along with the constraints
+    let assignment = "";
+    if (fieldArgs.length > 0) {
+      assignment = ` = Field(${(defaultValue !== undefined ? [defaultValue, ...fieldArgs] : fieldArgs).join(", ")})`;
+    } else if (defaultValue !== undefined) {
+      assignment = ` = ${defaultValue}`;
+    }
+
+    modelContent += `${indent}${fieldName}: ${quoteForwardRefs(pydanticType)}${assignment}${comment}\n`;
   }
+  // Validators follow the fields of the model
+  validators.forEach((validator) => {
+    modelContent += `\n${validator}`;
+  });
   return modelContent;
 }
 
-export function generatePythonCode(jsonSchema: any, selectedProvider: string, apiKey: string): string {
+/**
+ * Writes the model_config of a model from how its object treats undeclared properties:
+ * closed objects forbid them, open ones allow them, and typed ones also annotate their type.
+ * Vendor extensions of the model go to its JSON schema, and property counts are noted alongside.
+ * Objects without `additionalProperties` (types in an inheritance chain) keep Pydantic's default.
+ */
+function _buildPydanticModelConfig(objectSchema: JsonSchema, modelName: string, extensions: Record<string, unknown> = {}): string {
+  const countNotes = getPropertyCountNotes(objectSchema);
+  const countComment = countNotes.length > 0 ? `  # ${countNotes.join(", ")}` : "";
+  const configArgs: string[] = [];
+  if (objectSchema.additionalProperties !== undefined) {
+    configArgs.push(`extra="${objectSchema.additionalProperties === false ? "forbid" : "allow"}"`);
+  }
+  if (Object.keys(extensions).length > 0) {
+    configArgs.push(`json_schema_extra=${toPythonLiteral(extensions)}`);
+  }
+  if (configArgs.length === 0) {
+    return countComment ? `    ${countComment.trim()}\n` : "";
+  }
+  let config = `    model_config = ConfigDict(${configArgs.join(", ")})${countComment}\n`;
+  const extraSchema = getAdditionalPropertiesSchema(objectSchema);
+  if (extraSchema) {
+    config += `    __pydantic_extra__: Dict[str, ${quoteForwardRefs(_resolvePydanticType(extraSchema, `${modelName}Extra`))}] = Field(init=False)\n`;
+  }
+  return config;
+}
+
+// Writes the Python test of a contains condition on one `item`
+function toPythonContainsPredicate(check: ContainsCheck): string {
+  const subject = check.propertyName ? `item.${toSnakeCase(check.propertyName)}` : "item";
+  if (check.operator === "equals") return `${subject} == ${toPythonLiteral(check.values[0])}`;
+  if (check.operator === "oneOf") return `${subject} in (${check.values.map(toPythonLiteral).join(", ")}${check.values.length === 1 ? "," : ""})`;
+  return `${subject} is not None`;
+}
+
+// Writes the Python value of a date bound, computed when validating if the bound is relative.
+// Datetime bounds are timezone-aware, naive ones being read as UTC.
+function toPythonDateBound(check: DateBoundCheck, format: string): string {
+  if (!check.relative) {
+    if (format === "date") return `date.fromisoformat("${check.bound}")`;
+    if (format === "time") return `time.fromisoformat("${check.bound}")`;
+    const bound = check.bound.replace(/Z$/, "+00:00");
+    return `datetime.fromisoformat("${/[+-]\d{2}:\d{2}$/.test(bound) ? bound : `${bound}+00:00`}")`;
+  }
+  const { anchor, offset, unit } = check.relative;
+  let expression = "datetime.now(timezone.utc)";
+  if (format === "date") expression += ".date()";
+  else if (anchor === "today") expression += ".replace(hour=0, minute=0, second=0, microsecond=0)";
+  if (offset !== 0) {
+    const units = { h: "hours", d: "days", w: "weeks" };
+    expression += ` ${offset < 0 ? "-" : "+"} timedelta(${units[unit]}=${Math.abs(offset)})`;
+  }
+  return expression;
+}
+
+// Builds the field validator enforcing the earliest and latest values of a date, datetime or time field
+function _buildPydanticDateRangeValidators(schema: JsonSchema, propName: string, indent: string): string[] {
+  const checks = getDateBoundChecks(schema);
+  if (checks.length === 0) return [];
+  const fieldName = toSnakeCase(propName);
+  let validator =
+    `${indent}@field_validator("${fieldName}")\n` +
+    `${indent}@classmethod\n` +
+    `${indent}def check_${fieldName}_range(cls, value):\n` +
+    `${indent}    if value is not None:\n`;
+  let subject = "value";
+  if (schema.format === "date-time") {
+    validator += `${indent}        moment = value if value.tzinfo else value.replace(tzinfo=timezone.utc)\n`;
+    subject = "moment";
+  }
+  checks.forEach((check) => {
+    validator +=
+      `${indent}        if ${subject} ${check.keyword === "formatMinimum" ? "<" : ">"} ${toPythonDateBound(check, schema.format)}:\n` +
+      `${indent}            raise ValueError(${JSON.stringify(describeDateBound(check))})\n`;
+  });
+  return [`${validator}${indent}    return value\n`];
+}
+
+// Builds the field validator enforcing the size limit of a file field, checked on the decoded bytes
+function _buildPydanticFileSizeValidators(schema: JsonSchema, propName: string, indent: string): string[] {
+  const maxSize = isBase64Schema(schema) ? getSchemaMaxFileSize(schema) : undefined;
+  if (maxSize === undefined) return [];
+  const fieldName = toSnakeCase(propName);
+  return [
+    `${indent}@field_validator("${fieldName}")\n` +
+    `${indent}@classmethod\n` +
+    `${indent}def check_${fieldName}_size(cls, value):\n` +
+    `${indent}    if value is not None and len(value) > ${maxSize}:\n` +
+    `${indent}        raise ValueError(${JSON.stringify(`File must be at most ${formatFileSize(maxSize)}`)})\n` +
+    `${indent}    return value\n`
+  ];
+}
+
+// Builds the field validators enforcing the uniqueness and contains condition of a list field
+function _buildPydanticArrayValidators(arraySchema: JsonSchema, propName: string, indent: string): string[] {
+  const fieldName = toSnakeCase(propName);
+  const validators: string[] = [];
+  if (arraySchema.uniqueItems) {
+    // Items may be models or lists, which cannot go in a set, so they are compared one by one
+    validators.push(
+      `${indent}@field_validator("${fieldName}")\n` +
+      `${indent}@classmethod\n` +
+      `${indent}def check_${fieldName}_unique_items(cls, value):\n` +
+      `${indent}    if value is not None and any(item in value[:index] for index, item in enumerate(value)):\n` +
+      `${indent}        raise ValueError("Items must be unique")\n` +
+      `${indent}    return value\n`
+    );
+  }
+  const containsCheck = getContainsCheck(arraySchema);
+  if (containsCheck) {
+    const countTest = containsCheck.maxContains === undefined
+      ? `matches < ${containsCheck.minContains}`
+      : `matches < ${containsCheck.minContains} or matches > ${containsCheck.maxContains}`;
+    validators.push(
+      `${indent}@field_validator("${fieldName}")\n` +
+      `${indent}@classmethod\n` +
+      `${indent}def check_${fieldName}_contains(cls, value):\n` +
+      `${indent}    if value is not None:\n` +
+      `${indent}        matches = sum(1 for item in value if ${toPythonContainsPredicate(containsCheck)})\n` +
+      `${indent}        if ${countTest}:\n` +
+      `${indent}            raise ValueError(${JSON.stringify(describeContainsCount(containsCheck))})\n` +
+      `${indent}    return value\n`
+    );
+  }
+  return validators;
+}
+
+export function generatePythonCode(jsonSchema: JsonSchema, selectedProvider: string, apiKey: string): string {
   // Clear collected models for each new generation
   collectedPydanticModels.clear();
+  recursivePydanticModels.clear();
 
-  const definitions = jsonSchema.definitions || {};
+  const definitions = getSchemaDefinitions(jsonSchema);
   const rootSchemaName = jsonSchema.title ? toPascalCase(jsonSchema.title) : "MainSchema";
   let code = `from pydantic import BaseModel, Field # Import Field for validation\n`;
-  code += `from typing import Optional, Literal, Union, Any, Dict # Import Any and Dict for generic objects\n`;
+  code += `from typing import Optional, Literal, Union, Annotated, Any, Dict # Import Any and Dict for generic objects\n`;
   code += `from datetime import date, datetime, time # For date, datetime, and time formats\n`; // Added time
-  code += `from openai import OpenAI\n\n`;
+  // Gemini is called through its own SDK, which accepts its response schema
+  const clientImport = selectedProvider === "gemini" ? "from google import genai\n" : "from openai import OpenAI\n";
+  code += `${clientImport}\n`;
 
   let clientConfig = "";
   const apiKeyPlaceholder = apiKey || `"<YOUR_${selectedProvider.toUpperCase()}_API_KEY>"`;
@@ -152,10 +780,7 @@ export function generatePythonCode(jsonSchema: any, selectedProvider: string, ap
       clientConfig = `client = OpenAI(api_key=${apiKeyPlaceholder})\n`;
       break;
     case "gemini":
-      clientConfig = `client = OpenAI(
-    base_url="https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent",
-    api_key=${apiKeyPlaceholder},
-)\n`;
+      clientConfig = `client = genai.Client(api_key=${apiKeyPlaceholder})\n`;
       break;
     case "mistral":
       clientConfig = `client = OpenAI(
@@ -180,34 +805,145 @@ export function generatePythonCode(jsonSchema: any, selectedProvider: string, ap
   for (const defName in definitions) {
     collectedPydanticModels.set(toPascalCase(defName), definitions[defName]);
   }
+  getRecursiveDefinitionNames(definitions).forEach((defName) => recursivePydanticModels.add(toPascalCase(defName)));
+  const definitionModelNames = new Set(Object.keys(definitions).map((defName) => toPascalCase(defName)));
 
   // Then, process the root schema. This will recursively add any inline nested objects to the collection.
   collectedPydanticModels.set(rootSchemaName, jsonSchema);
 
-  // Generate code for all collected models (definitions + root + inline nested)
-  // Iterate over a copy of keys to allow map modification during iteration
-  const modelNamesToProcess = Array.from(collectedPydanticModels.keys());
-  for (const modelName of modelNamesToProcess) {
-    const modelSchema = collectedPydanticModels.get(modelName);
-    if (!modelSchema) continue; // Should not happen
+  // Generate code for all collected models (definitions + root + inline nested).
+  // Map iteration also visits models added while building earlier ones.
+  const modelCodes = new Map<string, string>();
+  for (const [modelName, modelSchema] of collectedPydanticModels) {
+    if (getUnionVariants(modelSchema) || getMapSchema(modelSchema) || getTupleSchema(modelSchema)) {
+      // Union, map and tuple definitions become type aliases rather than models; recursive aliases need TypeAliasType
+      const aliasedType = quoteForwardRefs(_resolvePydanticType(modelSchema, modelName));
+      modelCodes.set(
+        modelName,
+        getExtensionNotes(modelSchema).map((note) => `# ${note}\n`).join("") +
+        (recursivePydanticModels.has(modelName)
+          ? `${modelName} = TypeAliasType("${modelName}", ${aliasedType})\n\n`
+          : `${modelName} = ${aliasedType}\n\n`)
+      );
+      continue;
+    }
+    if (getPythonEnumBase(modelSchema) && modelSchema.const === undefined) {
+      modelCodes.set(modelName, `${getExtensionNotes(modelSchema).map((note) => `# ${note}\n`).join("")}${_buildPydanticEnum(modelName, modelSchema)}\n`);
+      continue;
+    }
 
-    let modelCode = `class ${modelName}(BaseModel):\n`;
+    // Composed schemas subclass the models they reference and add their inline parts' fields
+    const parts: JsonSchema[] = getComposedParts(modelSchema) || [modelSchema];
+    const baseModels = parts.filter((part) => part.$ref).map((part) => toPascalCase(part.$ref.split("/").pop()));
+    let modelCode = `class ${modelName}(${baseModels.length > 0 ? baseModels.join(", ") : "BaseModel"}):\n`;
     if (modelSchema.description) {
       modelCode += `    """\n    ${modelSchema.description}\n    """\n`;
     }
 
-    const content = _buildPydanticModelContent(modelSchema, modelName); // Pass modelName as parentName
+    // Extensions of inline objects are already set on the field holding them
+    const modelExtensions = modelName === rootSchemaName || definitionModelNames.has(modelName) ? getExtensionKeywords(modelSchema) : {};
+    const modelConfig = _buildPydanticModelConfig(parts.find((part) => !part.$ref) || {}, modelName, modelExtensions);
+    const content = modelConfig + parts
+      .filter((part) => !part.$ref)
+      .map((part) => _buildPydanticModelContent(part, modelName)) // Pass modelName as parentName
+      .join("");
     if (content.trim() === "") {
       modelCode += `    pass\n`;
     } else {
       modelCode += content;
     }
-    code += modelCode + "\n";
+    modelCodes.set(modelName, modelCode + "\n");
+
+    // Objects with read-only or write-only properties also get a request (Create) and response (Read) model.
+    // Types extending others get them from their inherited and own properties together.
+    const flattenedSchema = flattenComposedSchema(modelSchema, definitions);
+    const propertySchemas = Object.values<JsonSchema>(flattenedSchema.properties || {});
+    const accessModels = [
+      { suffix: "Create", excludedAccess: "readOnly", purpose: "Request body, without read-only fields" },
+      { suffix: "Read", excludedAccess: "writeOnly", purpose: "Response body, without write-only fields" },
+    ] as const;
+    for (const { suffix, excludedAccess, purpose } of accessModels) {
+      if (!propertySchemas.some((prop) => prop[excludedAccess])) continue;
+      const accessContent = modelConfig + _buildPydanticModelContent(flattenedSchema, modelName, "    ", excludedAccess);
+      let accessModelCode = `class ${modelName}${suffix}(BaseModel):\n    """\n    ${purpose}.\n    """\n`;
+      accessModelCode += accessContent.trim() === "" ? `    pass\n` : accessContent;
+      modelCodes.set(`${modelName}${suffix}`, accessModelCode + "\n");
+    }
+  }
+
+  // Python evaluates annotations and base classes when a class is created,
+  // so every model is emitted after the models it mentions, forward references aside
+  const emittedModels = new Set<string>();
+  const emitModel = (modelName: string) => {
+    if (emittedModels.has(modelName)) return;
+    emittedModels.add(modelName);
+    const modelCode = modelCodes.get(modelName)!;
+    for (const otherName of modelCodes.keys()) {
+      if (otherName !== modelName && new RegExp(`(?<!")\\b${otherName}\\b(?!")`).test(modelCode)) {
+        emitModel(otherName);
+      }
+    }
+    code += modelCode;
+  };
+  modelCodes.forEach((_, modelName) => emitModel(modelName));
+
+  // Forward references are resolved once every model they may point to is defined
+  const rebuiltModels = [...emittedModels].filter((modelName) => {
+    const modelCode = modelCodes.get(modelName)!;
+    return modelCode.startsWith("class ") && [...recursivePydanticModels].some((otherName) => modelCode.includes(`"${otherName}"`));
+  });
+  if (rebuiltModels.length > 0) {
+    code += rebuiltModels.map((modelName) => `${modelName}.model_rebuild()\n`).join("") + "\n";
+  }
+
+  // Names used only by some schemas (key patterns, list checks, string formats) are imported when used
+  const isUsed = (name: string) => new RegExp(`\\b${name}\\b`).test(code);
+  const optionalImports = ["ConfigDict", "StringConstraints", "field_validator", "EmailStr", "AnyUrl", "AwareDatetime", "Base64Bytes"].filter(isUsed);
+  if (optionalImports.length > 0) {
+    code = code.replace("from pydantic import BaseModel, Field", `from pydantic import BaseModel, Field, ${optionalImports.join(", ")}`);
+  }
+  // Date range validators compute relative bounds from the current UTC time
+  const dateImports = ["timedelta(", "timezone.utc"].filter((usage) => code.includes(usage)).map((usage) => usage.split(/[(.]/)[0]);
+  if (dateImports.length > 0) {
+    code = code.replace("from datetime import date, datetime, time", `from datetime import date, datetime, time, ${dateImports.join(", ")}`);
+  }
+  const formatImports = [
+    isUsed("TypeAliasType") ? "from typing_extensions import TypeAliasType\n" : "",
+    ["Enum", "IntEnum"].some(isUsed) ? `from enum import ${["Enum", "IntEnum"].filter(isUsed).join(", ")}\n` : "",
+    isUsed("UUID") ? "from uuid import UUID\n" : "",
+    ["IPv4Address", "IPv6Address"].some(isUsed)
+      ? `from ipaddress import ${["IPv4Address", "IPv6Address"].filter(isUsed).join(", ")}\n`
+      : "",
+  ].join("");
+  if (formatImports) {
+    code = code.replace(clientImport, `${formatImports}${clientImport}`);
+  }
+
+  // Gemini gets the schema converted to its response schema, and the model validates the answer
+  if (selectedProvider === "gemini") {
+    const { schema: responseSchema, warnings } = toGeminiResponseSchema(jsonSchema);
+    getGeminiSchemaNotes(warnings).forEach((note) => (code += `# ${note}\n`));
+    code += `RESPONSE_SCHEMA = ${toIndentedPythonLiteral(responseSchema ?? null)}\n\n`;
+    code += `# Example usage:\n`;
+    code += `system_message = ${JSON.stringify(appendSchemaExamples("Extract the event information.", jsonSchema))}\n`;
+    code += `user_content = "Alice and Bob are going to a science fair on Friday."\n\n`;
+    code += `response = client.models.generate_content(\n`;
+    code += `    model="gemini-2.5-flash", # Or your preferred model\n`;
+    code += `    contents=user_content,\n`;
+    code += `    config={\n`;
+    code += `        "system_instruction": system_message,\n`;
+    code += `        "response_mime_type": "application/json",\n`;
+    code += `        "response_schema": RESPONSE_SCHEMA,\n`;
+    code += `    },\n`;
+    code += `)\n\n`;
+    code += `parsed_data = ${rootSchemaName}.model_validate_json(response.text)\n`;
+    code += `print(parsed_data)\n`;
+    return code;
   }
 
   // Add example usage (this part remains the same)
   code += `# Example usage:\n`;
-  code += `system_message = "Extract the event information."\n`;
+  code += `system_message = ${JSON.stringify(appendSchemaExamples("Extract the event information.", jsonSchema))}\n`;
   code += `user_content = "Alice and Bob are going to a science fair on Friday."\n\n`;
   code += `completion = client.beta.chat.completions.parse(\n`;
   code += `    model="gpt-4o-2024-08-06", # Or your preferred model\n`;
@@ -227,8 +963,8 @@ export function generatePythonCode(jsonSchema: any, selectedProvider: string, ap
 
 function generateZodSchema(
   schemaName: string,
-  schema: any,
-  definitions: { [key: string]: any },
+  schema: JsonSchema,
+  definitions: { [key: string]: JsonSchema },
   isRoot: boolean = false,
 ): string {
   const properties = schema.properties || {};
@@ -244,48 +980,48 @@ function generateZodSchema(
     if (prop.description) {
       comment += `  // ${prop.description}`;
     }
-    if (prop.example !== undefined) {
-      comment += `${comment ? ", " : "  // "}Example: ${JSON.stringify(prop.example)}`;
+    if (Array.isArray(prop.examples) && prop.examples.length > 0) {
+      comment += `${comment ? ", " : "  // "}Examples: ${prop.examples.map((example) => JSON.stringify(example)).join(", ")}`;
     }
+    getAccessNotes(prop).forEach((note) => (comment += `${comment ? ", " : "  // "}${note}`));
+    const enumLabels = describeEnumLabels(prop.type === "array" ? (prop.items || {}) as JsonSchema : prop);
+    if (enumLabels) comment += `${comment ? ", " : "  // "}${enumLabels}`;
+    getPropertyCountNotes(prop.type === "array" ? (prop.items || {}) as JsonSchema : prop).forEach((note) => (comment += `${comment ? ", " : "  // "}${note}`));
+    getExtensionNotes(prop).forEach((note) => (comment += `${comment ? ", " : "  // "}${note}`));
 
-    if (prop.$ref) {
-      const refName = prop.$ref.split("/").pop();
-      // Use z.lazy for forward references
-      zodType = `z.lazy(() => ${toPascalCase(refName)})`;
-    } else if (prop.type === "array") {
-      const items = prop.items;
-      let itemZodType = "z.any()";
-      if (items) {
-        if (items.$ref) {
-          const refName = items.$ref.split("/").pop();
-          itemZodType = `z.lazy(() => ${toPascalCase(refName)})`;
-        } else if (items.type === "object") {
-          // Inline object in array, recursively generate Zod object
-          const nestedZod = generateZodSchema(propName, items, definitions);
-          itemZodType = `z.object({\n${nestedZod}\n    })`;
-        } else {
-          itemZodType = mapJsonSchemaTypeToZodType(items.type, items.format, items.enum);
-        }
-      }
-      zodType = `z.array(${itemZodType})`;
-      if (prop.minItems !== undefined) zodType += `.min(${prop.minItems})`;
-      if (prop.maxItems !== undefined) zodType += `.max(${prop.maxItems})`;
-    } else if (prop.type === "object") {
-      // Inline object, recursively generate Zod object
-      const nestedZod = generateZodSchema(propName, prop, definitions);
-      zodType = `z.object({\n${nestedZod}\n    })`;
+    if (getTupleSchema(prop) || prop.type === "array") {
+      zodType = resolveZodType(prop, propName, definitions);
+    } else if (prop.$ref || getComposedParts(prop) || isObjectType(prop.type) || getUnionVariants(prop)) {
+      zodType = resolveZodType(prop, propName, definitions);
     } else {
-      zodType = mapJsonSchemaTypeToZodType(prop.type, prop.format, prop.enum);
+      zodType = mapJsonSchemaTypeToZodType(prop.type, prop.format, prop.enum, prop.const, prop.contentEncoding);
+      getFileNotes(prop).forEach((note) => (comment += `${comment ? ", " : "  // "}${note}`));
       if (prop.minimum !== undefined) zodType += `.min(${prop.minimum})`;
       if (prop.maximum !== undefined) zodType += `.max(${prop.maximum})`;
-      if (prop.pattern) zodType += `.regex(/${prop.pattern.replace(/\\/g, "\\\\")}/)`;
+      if (typeof prop.exclusiveMinimum === "number") zodType += `.gt(${prop.exclusiveMinimum})`;
+      if (typeof prop.exclusiveMaximum === "number") zodType += `.lt(${prop.exclusiveMaximum})`;
+      if (prop.multipleOf !== undefined) zodType += `.multipleOf(${prop.multipleOf})`;
+      // base64() already checks the encoding
+      if (prop.pattern && !isBase64Schema(prop)) zodType += `.regex(/${prop.pattern.replace(/\\/g, "\\\\")}/)`;
       if (prop.minLength !== undefined) zodType += `.min(${prop.minLength})`; // New: minLength
       if (prop.maxLength !== undefined) zodType += `.max(${prop.maxLength})`; // New: maxLength
+      const maxFileSize = isBase64Schema(prop) ? getSchemaMaxFileSize(prop) : undefined;
+      if (maxFileSize !== undefined) {
+        // The size of the decoded file: 3 bytes per 4 characters, less the padding
+        zodType += `.refine((value) => (value.length / 4) * 3 - (value.match(/={0,2}$/)?.[0].length ?? 0) <= ${maxFileSize}, { message: ${JSON.stringify(`File must be at most ${formatFileSize(maxFileSize)}`)} })`;
+      }
+      getDateBoundChecks(prop).forEach((check) => (zodType += getZodDateBoundRefinement(check, prop.format)));
+      if (typeAllowsNull(prop)) zodType += ".nullable()";
     }
 
+    // Nullable and optional are independent: null is a value, while an optional property may be left out
     if (!isRequired) {
       zodType += ".optional()";
     }
+    // Applied last, so a missing value is replaced by the default rather than passed through as undefined
+    if (prop.default !== undefined) {
+      zodType += `.default(${JSON.stringify(prop.default)})`;
+    }
 
     zodProps.push(`  ${toCamelCase(propName)}: ${zodType},${comment}`);
   }
@@ -293,18 +1029,270 @@ function generateZodSchema(
   return zodProps.join("\n");
 }
 
-function mapJsonSchemaTypeToZodType(jsonType: string | string[], format?: string, enumValues?: string[]): string {
+// Writes the JavaScript value a date, datetime or time is compared to: an ISO string for dates and times, compared as
+// text, and milliseconds since the epoch for datetimes. Relative bounds are computed from the current UTC time.
+function toJavaScriptDateBound(check: DateBoundCheck, format: string): string {
+  if (!check.relative) {
+    if (format !== "date-time") return JSON.stringify(check.bound);
+    return `Date.parse(${JSON.stringify(/(?:Z|[+-]\d{2}:\d{2})$/.test(check.bound) ? check.bound : `${check.bound}Z`)})`;
+  }
+  const { anchor, offset, unit } = check.relative;
+  const units = { h: 3600000, d: 86400000, w: 604800000 };
+  let expression = anchor === "today" ? "new Date().setUTCHours(0, 0, 0, 0)" : "Date.now()";
+  if (offset !== 0) expression += ` ${offset < 0 ? "-" : "+"} ${Math.abs(offset)} * ${units[unit]}`;
+  return format === "date" ? `new Date(${expression}).toISOString().slice(0, 10)` : expression;
+}
+
+// Builds the refinement checking a date, datetime or time value against one of its bounds
+function getZodDateBoundRefinement(check: DateBoundCheck, format: string): string {
+  const subject = format === "date-time" ? "Date.parse(value)" : "value";
+  const operator = check.keyword === "formatMinimum" ? ">=" : "<=";
+  return `.refine((value) => ${subject} ${operator} ${toJavaScriptDateBound(check, format)}, { message: ${JSON.stringify(describeDateBound(check))} })`;
+}
+
+// Resolves the Zod type of a nested schema: references, inline objects, arrays and unions
+function resolveZodType(schema: JsonSchema, propName: string, definitions: { [key: string]: JsonSchema }): string {
+  if (!schema) return "z.any()";
+
+  if (schema.$ref) {
+    const refName = schema.$ref.split("/").pop();
+    // Use z.lazy for forward references
+    return `z.lazy(() => ${toPascalCase(refName)})`;
+  }
+
+  if (typeAllowsNull(schema) && !getUnionVariants(schema)) {
+    return `${resolveZodType(withoutNullType(schema), propName, definitions)}.nullable()`;
+  }
+
+  const unionVariants = getUnionVariants(schema);
+  if (unionVariants) {
+    // z.discriminatedUnion only takes plain object schemas, so variants referencing a type refined for its
+    // dependencies or annotated as recursive, directly or as the base of a tagged allOf, need z.union
+    const hasRefinedVariant = unionVariants.some((variant) =>
+      [variant, ...(getComposedParts(variant) || [])].some((part) => part.$ref && !isExtensibleDefinition(part.$ref.split("/").pop(), definitions))
+    );
+    const discriminator = hasRefinedVariant ? undefined : getUnionDiscriminator(unionVariants, (refName) => definitions[refName]);
+    let unionType: string;
+    if (discriminator) {
+      // z.discriminatedUnion needs the object schemas themselves, so references are not wrapped in z.lazy
+      const variantTypes = unionVariants.map((variant) =>
+        variant.$ref ? toPascalCase(variant.$ref.split("/").pop()) : resolveZodType(variant, propName, definitions)
+      );
+      unionType = `z.discriminatedUnion(${JSON.stringify(toCamelCase(discriminator))}, [${variantTypes.join(", ")}])`;
+    } else {
+      const variantTypes = unionVariants.map((variant) => resolveZodType(variant, propName, definitions));
+      // z.union needs at least two options
+      unionType = variantTypes.length === 1 ? variantTypes[0] : `z.union([${variantTypes.join(", ")}])`;
+    }
+    return unionAllowsNull(schema) ? `${unionType}.nullable()` : unionType;
+  }
+
+  const composedParts = getComposedParts(schema);
+  if (composedParts) {
+    // Referenced types that are refined or recursive have no object methods, so the parts are intersected instead
+    const isIntersection = composedParts.some((part) => part.$ref && !isExtensibleDefinition(part.$ref.split("/").pop(), definitions));
+    // Composed schema: start from the first part, merging referenced objects and extending with inline ones
+    return composedParts.reduce((composed: string, part) => {
+      if (part.$ref) {
+        const refName = toPascalCase(part.$ref.split("/").pop());
+        if (isIntersection) return composed ? `${composed}.and(z.lazy(() => ${refName}))` : `z.lazy(() => ${refName})`;
+        return composed ? `${composed}.merge(${refName})` : refName;
+      }
+      // A single property without comments, such as a discriminator tag, stays on one line
+      const shape = generateZodSchema(propName, part, definitions);
+      const body = shape.includes("\n") || shape.includes("//") ? `{\n${shape}\n    }` : `{ ${shape.trim().replace(/,$/, "")} }`;
+      if (isIntersection) return composed ? `${composed}.and(z.object(${body}))` : `z.object(${body})`;
+      return composed ? `${composed}.extend(${body})` : `z.object(${body})`;
+    }, "");
+  }
+
+  const tupleSchema = getTupleSchema(schema);
+  if (tupleSchema) {
+    const itemTypes = tupleSchema.itemSchemas.map((itemSchema) => resolveZodType(itemSchema, propName, definitions));
+    const tupleType = `z.tuple([${itemTypes.join(", ")}])`;
+    return tupleSchema.additionalItems ? `${tupleType}.rest(z.any())` : tupleType;
+  }
+
+  if (schema.type === "array") {
+    // Every level of nested arrays carries its own item counts
+    let arrayType = `z.array(${resolveZodType(schema.items as JsonSchema, propName, definitions)})`;
+    if (schema.minItems !== undefined) arrayType += `.min(${schema.minItems})`;
+    if (schema.maxItems !== undefined) arrayType += `.max(${schema.maxItems})`;
+    if (schema.uniqueItems) {
+      // Items are compared by value, so objects and nested lists are serialized first
+      arrayType += `.refine((items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length, { message: "Items must be unique" })`;
+    }
+    const containsCheck = getContainsCheck(schema);
+    if (containsCheck) {
+      const countTest = containsCheck.maxContains === undefined
+        ? `matches >= ${containsCheck.minContains}`
+        : `matches >= ${containsCheck.minContains} && matches <= ${containsCheck.maxContains}`;
+      arrayType += `.refine((items) => { const matches = items.filter((item) => ${toZodContainsPredicate(containsCheck)}).length; return ${countTest}; }, { message: ${JSON.stringify(describeContainsCount(containsCheck))} })`;
+    }
+    return arrayType;
+  }
+
+  const mapSchema = getMapSchema(schema);
+  if (mapSchema) {
+    const keyType = mapSchema.keyPattern
+      ? `z.string().regex(new RegExp(${JSON.stringify(mapSchema.keyPattern)}))`
+      : "z.string()";
+    return `z.record(${keyType}, ${resolveZodType(mapSchema.valueSchema, propName, definitions)})`;
+  }
+
+  if (isObjectType(schema.type)) {
+    // Inline object, recursively generate Zod object
+    const nestedZod = generateZodSchema(propName, schema, definitions);
+    return `z.object({\n${nestedZod}\n    })${getZodUnknownKeysCall(schema, propName, definitions)}${getZodDependencyRefinement(schema, "    ")}`;
+  }
+
+  return mapJsonSchemaTypeToZodType(schema.type, schema.format, schema.enum, schema.const, schema.contentEncoding);
+}
+
+// Returns the Zod call for how an object treats undeclared properties: rejected, kept, or checked against a type.
+// Objects without `additionalProperties` (types in an inheritance chain) keep Zod's default.
+function getZodUnknownKeysCall(schema: JsonSchema, propName: string, definitions: { [key: string]: JsonSchema }): string {
+  const extraSchema = getAdditionalPropertiesSchema(schema);
+  if (extraSchema) return `.catchall(${resolveZodType(extraSchema, propName, definitions)})`;
+  if (schema.additionalProperties === false) return ".strict()";
+  return schema.additionalProperties === undefined ? "" : ".passthrough()";
+}
+
+// A definition refined for its dependencies is no longer a plain object schema, so it cannot be extended.
+// Definitions other types extend are left unrefined.
+function isRefinedDefinition(defName: string, definitions: { [key: string]: JsonSchema }): boolean {
+  const isExtended = Object.values<JsonSchema>(definitions).some((definition) =>
+    (getComposedParts(definition) || []).some((part) => part.$ref && part.$ref.split("/").pop() === defName)
+  );
+  return !isExtended && getDependencyChecks(definitions[defName] || {}).length > 0;
+}
+
+// Whether a definition is declared as a plain object schema, which other schemas can merge, extend or discriminate
+function isExtensibleDefinition(defName: string, definitions: { [key: string]: JsonSchema }): boolean {
+  return !isRefinedDefinition(defName, definitions) && !getRecursiveDefinitionNames(definitions).has(defName);
+}
+
+// Declares the input variant of an object schema, which clients send without its read-only properties.
+// A schema refined for its dependencies is unwrapped first, so the input variant does not check them.
+function generateZodInputSchema(schemaName: string, schema: JsonSchema, isRefined = false): string {
+  const readOnlyKeys = Object.entries<JsonSchema>(schema.properties || {})
+    .filter(([, prop]) => prop.readOnly)
+    .map(([propName]) => `${toCamelCase(propName)}: true`);
+  if (readOnlyKeys.length === 0) return "";
+  const objectSchema = isRefined ? `${schemaName}.innerType()` : schemaName;
+  return `// Input without read-only fields, for request bodies\nconst ${schemaName}Input = ${objectSchema}.omit({ ${readOnlyKeys.join(", ")} });\n\n`;
+}
+
+/**
+ * Writes the TypeScript type of the values a schema accepts, as Zod parses them. Recursive schemas need it,
+ * since TypeScript cannot infer the type of a schema referencing itself through z.lazy.
+ */
+function toTypeScriptType(schema: JsonSchema): string {
+  if (!schema) return "unknown";
+
+  if (schema.$ref) {
+    return toPascalCase(schema.$ref.split("/").pop());
+  }
+
+  if (typeAllowsNull(schema) && !getUnionVariants(schema)) {
+    return `${toTypeScriptType(withoutNullType(schema))} | null`;
+  }
+
+  const unionVariants = getUnionVariants(schema);
+  if (unionVariants) {
+    const variantTypes = unionVariants.map((variant) => toTypeScriptType(variant));
+    return [...variantTypes, ...(unionAllowsNull(schema) ? ["null"] : [])].join(" | ");
+  }
+
+  const composedParts = getComposedParts(schema);
+  if (composedParts) {
+    return composedParts.map((part) => toTypeScriptType(part)).join(" & ");
+  }
+
+  const tupleSchema = getTupleSchema(schema);
+  if (tupleSchema) {
+    const itemTypes = tupleSchema.itemSchemas.map((itemSchema) => toTypeScriptType(itemSchema));
+    return `[${[...itemTypes, ...(tupleSchema.additionalItems ? ["...unknown[]"] : [])].join(", ")}]`;
+  }
+
+  if (schema.type === "array") {
+    return `Array<${toTypeScriptType(schema.items as JsonSchema)}>`;
+  }
+
+  const mapSchema = getMapSchema(schema);
+  if (mapSchema) {
+    return `Record<string, ${toTypeScriptType(mapSchema.valueSchema)}>`;
+  }
+
+  if (isObjectType(schema.type)) {
+    // Properties with a default are always set once parsed
+    const required = new Set(schema.required || []);
+    const propertyTypes = Object.entries<JsonSchema>(schema.properties || {}).map(([propName, prop]) => {
+      const isOptional = !required.has(propName) && prop.default === undefined;
+      return `${toCamelCase(propName)}${isOptional ? "?" : ""}: ${toTypeScriptType(prop)}`;
+    });
+    return propertyTypes.length > 0 ? `{ ${propertyTypes.join("; ")} }` : "Record<string, unknown>";
+  }
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  const enumValues = getEnumValues(schema);
+  if (enumValues && enumValues.length > 0) return enumValues.map((value) => JSON.stringify(value)).join(" | ");
+
+  switch (Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "unknown";
+  }
+}
+
+// Writes the JavaScript test of a contains condition on one `item`
+function toZodContainsPredicate(check: ContainsCheck): string {
+  const subject = check.propertyName ? `item?.${toCamelCase(check.propertyName)}` : "item";
+  if (check.operator === "equals") return `${subject} === ${JSON.stringify(check.values[0])}`;
+  if (check.operator === "oneOf") return `${JSON.stringify(check.values)}.includes(${subject})`;
+  return `${subject} != null`;
+}
+
+function mapJsonSchemaTypeToZodType(
+  jsonType: string | string[],
+  format?: string,
+  enumValues?: unknown[],
+  constValue?: unknown,
+  contentEncoding?: string,
+): string {
   const actualType = Array.isArray(jsonType) ? jsonType.find((t) => t !== "null") : jsonType;
 
+  if (constValue !== undefined) {
+    return `z.literal(${JSON.stringify(constValue)})`;
+  }
+
   if (enumValues && enumValues.length > 0) {
-    return `z.enum([${enumValues.map((v) => JSON.stringify(v)).join(", ")}])`;
+    // z.enum only takes strings; other values become a union of literals
+    if (enumValues.every((v) => typeof v === "string")) {
+      return `z.enum([${enumValues.map((v) => JSON.stringify(v)).join(", ")}])`;
+    }
+    const literals = enumValues.map((v) => `z.literal(${JSON.stringify(v)})`);
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(", ")}])`;
   }
 
   switch (actualType) {
     case "string":
+      if (contentEncoding === "base64") return "z.string().base64()"; // Files are kept as base64 text
       if (format === "date") return "z.string().datetime().date()"; // Zod's date validation
       if (format === "date-time") return "z.string().datetime()";
       if (format === "time") return "z.string().regex(/^([01]\\d|2[0-3]):([0-5]\\d):([0-5]\\d)$/)"; // HH:MM:SS regex
+      if (format === "email") return "z.string().email()";
+      if (format === "uri") return "z.string().url()";
+      if (format === "uuid") return "z.string().uuid()";
+      if (format === "ipv4") return `z.string().ip({ version: "v4" })`;
+      if (format === "ipv6") return `z.string().ip({ version: "v6" })`;
+      if (format === "hostname") return `z.string().regex(new RegExp(${JSON.stringify(REGEX_HOSTNAME.source)}))`;
       return "z.string()";
     case "number":
       return "z.number()";
@@ -317,11 +1305,13 @@ function mapJsonSchemaTypeToZodType(jsonType: string | string[], format?: string
   }
 }
 
-export function generateJavaScriptCode(jsonSchema: any, selectedProvider: string, apiKey: string): string {
-  const definitions = jsonSchema.definitions || {};
+export function generateJavaScriptCode(jsonSchema: JsonSchema, selectedProvider: string, apiKey: string): string {
+  const definitions = getSchemaDefinitions(jsonSchema);
   const rootSchemaName = jsonSchema.title ? toPascalCase(jsonSchema.title) : "MainSchema";
-  let code = `import OpenAI from "openai";\n`;
-  code += `import { zodResponseFormat } from "openai/helpers/zod";\n`;
+  // Gemini is called through its own SDK, which accepts its response schema
+  let code = selectedProvider === "gemini"
+    ? `import { GoogleGenAI } from "@google/genai";\n`
+    : `import OpenAI from "openai";\nimport { zodResponseFormat } from "openai/helpers/zod";\n`;
   code += `import { z } from "zod";\n\n`;
 
   let openaiConfig = "";
@@ -332,10 +1322,7 @@ export function generateJavaScriptCode(jsonSchema: any, selectedProvider: string
       openaiConfig = `const openai = new OpenAI({ apiKey: ${apiKeyPlaceholder} });\n`;
       break;
     case "gemini":
-      openaiConfig = `const openai = new OpenAI({
-  baseURL: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent',
-  apiKey: ${apiKeyPlaceholder},
-});\n`;
+      openaiConfig = `const ai = new GoogleGenAI({ apiKey: ${apiKeyPlaceholder} });\n`;
       break;
     case "mistral":
       openaiConfig = `const openai = new OpenAI({
@@ -360,21 +1347,97 @@ export function generateJavaScriptCode(jsonSchema: any, selectedProvider: string
   code += openaiConfig;
   code += "\n";
 
-  // Generate reusable type Zod schemas first
+  // Generate reusable type Zod schemas first.
+  // Recursive schemas are annotated with their TypeScript type, which is declared right before them.
+  const recursiveNames = getRecursiveDefinitionNames(definitions);
+  const definitionTypes = new Map<string, string>();
+  const definitionCodes = new Map<string, string>();
   for (const defName in definitions) {
     const pascalDefName = toPascalCase(defName);
-    const zodContent = generateZodSchema(defName, definitions[defName], definitions);
-    code += `const ${pascalDefName} = z.object({\n${zodContent}\n});\n\n`;
+    const definition = definitions[defName];
+    const refinement = isRefinedDefinition(defName, definitions) ? getZodDependencyRefinement(definition) : "";
+    const isRecursive = recursiveNames.has(defName);
+    const declaration = isRecursive ? `${pascalDefName}: z.ZodType<${pascalDefName}, z.ZodTypeDef, unknown>` : pascalDefName;
+    if (isRecursive) {
+      definitionTypes.set(pascalDefName, `type ${pascalDefName} = ${toTypeScriptType(definition)};\n`);
+    }
+    const extensionComment = getExtensionNotes(definition).map((note) => `// ${note}\n`).join("");
+    if (getUnionVariants(definition) || getComposedParts(definition) || getMapSchema(definition) || getTupleSchema(definition) || Array.isArray(definition.enum)) {
+      // Types extending others are objects merged from their parts, so they get an input variant of the merged properties.
+      // Intersections with refined or recursive types are no object schemas and get none.
+      const isMergedObject = (getComposedParts(definition) || [])
+        .every((part) => !part.$ref || isExtensibleDefinition(part.$ref.split("/").pop(), definitions));
+      const inputSchema = getComposedParts(definition) && isMergedObject && !isRecursive
+        ? generateZodInputSchema(pascalDefName, flattenComposedSchema(definition, definitions), refinement !== "")
+        : "";
+      definitionCodes.set(pascalDefName, `${extensionComment}const ${declaration} = ${resolveZodType(definition, defName, definitions)}${refinement};\n\n${inputSchema}`);
+      continue;
+    }
+    const zodContent = generateZodSchema(defName, definition, definitions);
+    const countNotes = getPropertyCountNotes(definition);
+    definitionCodes.set(
+      pascalDefName,
+      extensionComment +
+      `${countNotes.length > 0 ? `// ${countNotes.join(", ")}\n` : ""}` +
+      `const ${declaration} = z.object({\n${zodContent}\n})${getZodUnknownKeysCall(definition, defName, definitions)}${refinement};\n\n` +
+      // The annotation hides the object schema's methods, so recursive schemas get no input variant
+      (isRecursive ? "" : generateZodInputSchema(pascalDefName, definition, refinement !== ""))
+    );
   }
 
+  // Schemas used outside z.lazy (extended, merged or discriminated) must be declared before their users
+  const emittedDefinitions = new Set<string>();
+  const emitDefinition = (pascalDefName: string) => {
+    if (emittedDefinitions.has(pascalDefName)) return;
+    emittedDefinitions.add(pascalDefName);
+    const definitionCode = definitionCodes.get(pascalDefName)!;
+    for (const otherName of definitionCodes.keys()) {
+      if (otherName !== pascalDefName && new RegExp(`(?<!z\\.lazy\\(\\(\\) => )\\b${otherName}\\b`).test(definitionCode)) {
+        emitDefinition(otherName);
+      }
+    }
+    code += (definitionTypes.get(pascalDefName) || "") + definitionCode;
+  };
+  definitionCodes.forEach((_, pascalDefName) => emitDefinition(pascalDefName));
+
   // Generate the main schema Zod object
   const mainZodContent = generateZodSchema(rootSchemaName, jsonSchema, definitions, true);
-  code += `const ${rootSchemaName} = z.object({\n${mainZodContent}\n});\n\n`;
+  const rootCountNotes = getPropertyCountNotes(jsonSchema);
+  getExtensionNotes(jsonSchema).forEach((note) => (code += `// ${note}\n`));
+  if (rootCountNotes.length > 0) code += `// ${rootCountNotes.join(", ")}\n`;
+  const rootRefinement = getZodDependencyRefinement(jsonSchema);
+  code += `const ${rootSchemaName} = z.object({\n${mainZodContent}\n})${getZodUnknownKeysCall(jsonSchema, rootSchemaName, definitions)}${rootRefinement};\n\n`;
+  code += generateZodInputSchema(rootSchemaName, jsonSchema, rootRefinement !== "");
+
+  // Gemini gets the schema converted to its response schema, and the Zod schema validates the answer
+  if (selectedProvider === "gemini") {
+    const { schema: responseSchema, warnings } = toGeminiResponseSchema(jsonSchema);
+    getGeminiSchemaNotes(warnings).forEach((note) => (code += `// ${note}\n`));
+    code += `const responseSchema = ${JSON.stringify(responseSchema ?? null, null, 2)};\n\n`;
+    code += `// Example usage:\n`;
+    code += `async function runCompletion() {\n`;
+    code += `  const systemMessage = ${JSON.stringify(appendSchemaExamples("Extract the event information.", jsonSchema))};\n`;
+    code += `  const userContent = "Alice and Bob are going to a science fair on Friday.";\n\n`;
+    code += `  const response = await ai.models.generateContent({\n`;
+    code += `    model: "gemini-2.5-flash", // Or your preferred model\n`;
+    code += `    contents: userContent,\n`;
+    code += `    config: {\n`;
+    code += `      systemInstruction: systemMessage,\n`;
+    code += `      responseMimeType: "application/json",\n`;
+    code += `      responseSchema,\n`;
+    code += `    },\n`;
+    code += `  });\n\n`;
+    code += `  const parsedData = ${rootSchemaName}.parse(JSON.parse(response.text ?? ""));\n`;
+    code += `  console.log(parsedData);\n`;
+    code += `}\n\n`;
+    code += `runCompletion();\n`;
+    return code;
+  }
 
   // Add example usage
   code += `// Example usage:\n`;
   code += `async function runCompletion() {\n`;
-  code += `  const systemMessage = "Extract the event information.";\n`;
+  code += `  const systemMessage = ${JSON.stringify(appendSchemaExamples("Extract the event information.", jsonSchema))};\n`;
   code += `  const userContent = "Alice and Bob are going to a science fair on Friday.";\n\n`;
   code += `  const completion = await openai.beta.chat.completions.parse({\n`;
   code += `    model: "gpt-4o-2024-08-06", // Or your preferred model\n`;
@@ -0,0 +1,120 @@
+/**
+ * A JSON Schema or one of its subschemas. Keywords holding subschemas and those the conversions read are typed;
+ * any other keyword is carried along as an unknown value.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  $schema?: string;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  contentEncoding?: string;
+  contentMediaType?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean; // A boolean in draft-04, making `minimum` exclusive
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  examples?: unknown[];
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  patternProperties?: { [pattern: string]: JsonSchema };
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: { [name: string]: string[] };
+  dependentSchemas?: { [name: string]: JsonSchema };
+  dependencies?: { [name: string]: JsonSchema | string[] };
+  items?: boolean | JsonSchema | JsonSchema[];
+  prefixItems?: JsonSchema[];
+  additionalItems?: boolean | JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  contains?: JsonSchema;
+  minContains?: number;
+  maxContains?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  discriminator?: { propertyName: string; mapping?: { [value: string]: string } }; // OpenAPI
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  not?: JsonSchema;
+  definitions?: { [name: string]: JsonSchema };
+  $defs?: { [name: string]: JsonSchema };
+  [keyword: string]: unknown;
+}
+
+// Whether a keyword value is a schema rather than a list of schemas, a boolean or a scalar
+export const isSchemaObject = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Returns a copy of a schema with `convert` applied to each of its direct subschemas.
+ * Each subschema comes with its path, written as in compatibility reports: "root.tags[]", "root.pair[0]", "root.labels.*".
+ * Subschemas that do not hold values of their own, such as union variants and conditions, share the path of the schema.
+ */
+export const mapSubschemas = (
+  schema: JsonSchema,
+  path: string,
+  convert: (subschema: JsonSchema, path: string) => JsonSchema
+): JsonSchema => {
+  const result = { ...schema };
+  const mapEntries = <T>(entries: { [key: string]: T }, getPath: (key: string) => string) =>
+    Object.fromEntries(Object.entries(entries).map(([key, value]) => [key, isSchemaObject(value) ? convert(value, getPath(key)) : value]));
+
+  if (isSchemaObject(schema.properties)) result.properties = mapEntries(schema.properties, (name) => `${path}.${name}`);
+  if (isSchemaObject(schema.patternProperties)) result.patternProperties = mapEntries(schema.patternProperties, () => `${path}.*`);
+  if (isSchemaObject(schema.dependentSchemas)) result.dependentSchemas = mapEntries(schema.dependentSchemas, () => path);
+  if (isSchemaObject(schema.dependencies)) result.dependencies = mapEntries(schema.dependencies, () => path);
+  if (isSchemaObject(schema.additionalProperties)) result.additionalProperties = convert(schema.additionalProperties, `${path}.*`);
+  if (Array.isArray(schema.items)) {
+    result.items = schema.items.map((item, index) => convert(item, `${path}[${index}]`));
+  } else if (isSchemaObject(schema.items)) {
+    result.items = convert(schema.items, `${path}[]`);
+  }
+  if (Array.isArray(schema.prefixItems)) {
+    result.prefixItems = schema.prefixItems.map((item, index) => convert(item, `${path}[${index}]`));
+  }
+  ["additionalItems", "contains"].forEach((keyword) => {
+    const subschema = schema[keyword];
+    if (isSchemaObject(subschema)) result[keyword] = convert(subschema, `${path}[]`);
+  });
+  ["propertyNames", "not", "if", "then", "else"].forEach((keyword) => {
+    const subschema = schema[keyword];
+    if (isSchemaObject(subschema)) result[keyword] = convert(subschema, path);
+  });
+  (["anyOf", "oneOf", "allOf"] as const).forEach((keyword) => {
+    const parts = schema[keyword];
+    if (Array.isArray(parts)) result[keyword] = parts.map((part) => convert(part, path));
+  });
+  return result;
+};
+
+// Merges one part of an allOf into the schema holding it: properties and required lists are combined
+export const mergeAllOfPart = (target: JsonSchema, part: JsonSchema) => {
+  Object.entries(part).forEach(([keyword, value]) => {
+    if (keyword === "properties") {
+      target.properties = { ...target.properties, ...part.properties };
+    } else if (keyword === "required") {
+      target.required = Array.from(new Set([...(target.required || []), ...(part.required || [])]));
+    } else if (keyword === "description") {
+      target.description = [target.description, part.description].filter(Boolean).join(" ");
+    } else if (!(keyword in target)) {
+      target[keyword] = value;
+    }
+  });
+};
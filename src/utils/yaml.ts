@@ -0,0 +1,50 @@
+// Words YAML reads as booleans or null when left unquoted
+const YAML_RESERVED_WORDS = ["true", "false", "yes", "no", "on", "off", "y", "n", "null", "~"];
+
+// Whether a string can be written without quotes and still read back as the same string
+const isPlainYamlString = (value: string): boolean =>
+  /^[A-Za-z_$/][A-Za-z0-9 _$/.-]*$/.test(value) &&
+  value.trim() === value &&
+  !YAML_RESERVED_WORDS.includes(value.toLowerCase());
+
+// Strings that need quotes are written as JSON strings, which YAML reads as double-quoted scalars
+const formatYamlScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") return isPlainYamlString(value) ? value : JSON.stringify(value);
+  return String(value);
+};
+
+const isNonEmptyCollection = (value: unknown): value is unknown[] | { [key: string]: unknown } =>
+  typeof value === "object" && value !== null && Object.keys(value).length > 0;
+
+// Writes a value inline: scalars, and empty lists and mappings
+const formatYamlInline = (value: unknown): string => {
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object" && value !== null) return "{}";
+  return formatYamlScalar(value);
+};
+
+const writeYamlLines = (value: unknown[] | { [key: string]: unknown }, indent: string): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isNonEmptyCollection(item)) return [`${indent}- ${formatYamlInline(item)}`];
+      // The first line of a nested collection goes on the dash line, the rest below it
+      const [firstLine, ...otherLines] = writeYamlLines(item, `${indent}  `);
+      return [`${indent}- ${firstLine.trimStart()}`, ...otherLines];
+    });
+  }
+  return Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) =>
+      isNonEmptyCollection(item)
+        ? [`${indent}${formatYamlScalar(key)}:`, ...writeYamlLines(item, `${indent}  `)]
+        : [`${indent}${formatYamlScalar(key)}: ${formatYamlInline(item)}`]
+    );
+};
+
+/**
+ * Writes a JSON value as a YAML document in block style.
+ * Keys and strings are only quoted when YAML would otherwise read them as another value, e.g. "200" or "true".
+ */
+export const toYaml = (value: unknown): string =>
+  isNonEmptyCollection(value) ? `${writeYamlLines(value, "").join("\n")}\n` : `${formatYamlInline(value)}\n`;